@@ -0,0 +1,22 @@
+import { env } from 'cloudflare:test';
+import { expect, it } from 'vitest';
+import { EvalBaseline, findRegressions, flattenMetrics, formatEvalReport, runEvaluation } from '../src/eval';
+import { llmFromEnv } from '../src/llm';
+import { MESSY_SAMPLES } from '../src/samples';
+import dataset from './dataset.json';
+
+it(`scores ${env.AI_PROVIDER} against the ${env.EVAL_BASELINE_NAME} baseline`, async () => {
+    const report = await runEvaluation(llmFromEnv(env), env.FEEDBACK_DB, {
+        enrichment: [...MESSY_SAMPLES, ...dataset.enrichment] as typeof MESSY_SAMPLES,
+        routing: dataset.routing as Parameters<typeof runEvaluation>[2]['routing'],
+    });
+    console.log(formatEvalReport(report));
+
+    if (env.EVAL_UPDATE_BASELINE === 'true') {
+        await expect(JSON.stringify(flattenMetrics(report), null, 2) + '\n').toMatchFileSnapshot(`baselines/${env.EVAL_BASELINE_NAME}.json`);
+        return;
+    }
+    expect(env.EVAL_BASELINE, `no baseline for ${env.EVAL_BASELINE_NAME}; record one with npm run eval -- -u`).not.toBe('');
+    const baseline: EvalBaseline = JSON.parse(env.EVAL_BASELINE);
+    expect(findRegressions(report, baseline, Number(env.EVAL_TOLERANCE) || 0)).toEqual([]);
+});
@@ -0,0 +1,18 @@
+CREATE TABLE issues (
+  id TEXT PRIMARY KEY,
+  lead_feedback_id TEXT,
+  category TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  report_count INTEGER NOT NULL DEFAULT 0,
+  gravity_score REAL,
+  created_at TEXT,
+  updated_at TEXT
+);
+ALTER TABLE feedback ADD COLUMN issue_id TEXT REFERENCES issues(id);
+CREATE INDEX idx_feedback_issue ON feedback(issue_id);
+CREATE INDEX idx_issues_rank ON issues(status, gravity_score DESC);
+
+-- Existing rows become single-report issues (they are not in the vector index yet)
+INSERT INTO issues (id, lead_feedback_id, category, status, report_count, gravity_score, created_at, updated_at)
+  SELECT id, id, category, COALESCE(status, 'open'), 1, gravity_score, created_at, created_at FROM feedback;
+UPDATE feedback SET issue_id = id;
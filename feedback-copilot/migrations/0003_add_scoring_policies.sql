@@ -0,0 +1,5 @@
+CREATE TABLE scoring_policies (
+  workspace TEXT PRIMARY KEY,
+  policy TEXT NOT NULL,
+  updated_at TEXT
+);
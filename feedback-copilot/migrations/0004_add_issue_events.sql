@@ -0,0 +1,13 @@
+CREATE TABLE issue_events (
+  id TEXT PRIMARY KEY,
+  feedback_id TEXT NOT NULL,
+  issue_id TEXT,
+  type TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  before_value TEXT,
+  after_value TEXT,
+  reason TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX idx_issue_events_issue ON issue_events(issue_id, created_at);
+CREATE INDEX idx_issue_events_feedback ON issue_events(feedback_id, created_at);
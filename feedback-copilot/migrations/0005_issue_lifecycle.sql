@@ -0,0 +1,7 @@
+ALTER TABLE issues ADD COLUMN assignee TEXT;
+ALTER TABLE issues ADD COLUMN snoozed_until TEXT;
+CREATE INDEX idx_issues_assignee ON issues(assignee);
+
+-- 'closed' becomes 'resolved' in the triage lifecycle
+UPDATE issues SET status = 'resolved' WHERE status = 'closed';
+UPDATE feedback SET status = 'resolved' WHERE status = 'closed';
@@ -0,0 +1,14 @@
+CREATE TABLE ingest_jobs (
+  id TEXT PRIMARY KEY,
+  format TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  total INTEGER NOT NULL DEFAULT 0,
+  accepted INTEGER NOT NULL DEFAULT 0,
+  rejected INTEGER NOT NULL DEFAULT 0,
+  errors TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  dispatched_at TEXT
+);
+ALTER TABLE feedback ADD COLUMN job_id TEXT;
+CREATE INDEX idx_feedback_job ON feedback(job_id);
@@ -0,0 +1,9 @@
+ALTER TABLE feedback ADD COLUMN external_id TEXT;
+ALTER TABLE feedback ADD COLUMN content_hash TEXT;
+ALTER TABLE feedback ADD COLUMN repeat_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE feedback ADD COLUMN last_seen_at TEXT;
+UPDATE feedback SET last_seen_at = created_at;
+-- NULL external ids never conflict, so only upstream-identified rows are unique
+CREATE UNIQUE INDEX idx_feedback_external ON feedback(source, external_id);
+CREATE INDEX idx_feedback_content_hash ON feedback(source, content_hash, last_seen_at);
+ALTER TABLE ingest_jobs ADD COLUMN skipped INTEGER NOT NULL DEFAULT 0;
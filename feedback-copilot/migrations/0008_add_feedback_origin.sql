@@ -0,0 +1,2 @@
+ALTER TABLE feedback ADD COLUMN author TEXT;
+ALTER TABLE feedback ADD COLUMN url TEXT;
@@ -0,0 +1,31 @@
+CREATE TABLE notification_subscriptions (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT,
+  gravity_threshold REAL,
+  new_bug_cluster INTEGER NOT NULL DEFAULT 0,
+  volume_spike INTEGER NOT NULL DEFAULT 0,
+  spike_multiplier REAL,
+  spike_min_reports INTEGER,
+  category TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE TABLE notification_deliveries (
+  id TEXT PRIMARY KEY,
+  subscription_id TEXT NOT NULL,
+  trigger TEXT NOT NULL,
+  issue_id TEXT,
+  category TEXT,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  delivered_at TEXT
+);
+CREATE INDEX idx_deliveries_subscription ON notification_deliveries(subscription_id, created_at);
+CREATE INDEX idx_deliveries_status ON notification_deliveries(status, created_at);
+CREATE INDEX idx_feedback_category_seen ON feedback(category, last_seen_at);
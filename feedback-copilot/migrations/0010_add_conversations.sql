@@ -0,0 +1,19 @@
+CREATE TABLE conversations (
+  id TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  title TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE conversation_turns (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  query TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  params TEXT,
+  result_ids TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX idx_conversations_owner ON conversations(owner, updated_at);
+CREATE INDEX idx_conversation_turns_conversation ON conversation_turns(conversation_id, created_at);
@@ -0,0 +1,13 @@
+ALTER TABLE feedback ADD COLUMN enrichment_status TEXT NOT NULL DEFAULT 'ok';
+ALTER TABLE feedback ADD COLUMN enrichment_error TEXT;
+CREATE INDEX idx_feedback_enrichment_status ON feedback(enrichment_status);
+CREATE TABLE ai_output_metrics (
+  task TEXT NOT NULL,
+  day TEXT NOT NULL,
+  ok INTEGER NOT NULL DEFAULT 0,
+  repaired INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (task, day)
+);
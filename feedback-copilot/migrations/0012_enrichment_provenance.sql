@@ -0,0 +1,4 @@
+ALTER TABLE feedback ADD COLUMN enrichment_model TEXT;
+ALTER TABLE feedback ADD COLUMN enrichment_prompt_version TEXT;
+ALTER TABLE feedback ADD COLUMN enriched_at TEXT;
+CREATE INDEX idx_feedback_prompt_version ON feedback(enrichment_prompt_version);
@@ -0,0 +1,20 @@
+-- Full-text index over feedback text, kept in sync by triggers (external content: the text is stored once, in feedback)
+CREATE VIRTUAL TABLE feedback_fts USING fts5(
+  content,
+  explanation,
+  content = 'feedback',
+  content_rowid = 'rowid',
+  tokenize = 'porter unicode61 remove_diacritics 2'
+);
+CREATE TRIGGER feedback_fts_insert AFTER INSERT ON feedback BEGIN
+  INSERT INTO feedback_fts (rowid, content, explanation) VALUES (new.rowid, new.content, new.explanation);
+END;
+CREATE TRIGGER feedback_fts_delete AFTER DELETE ON feedback BEGIN
+  INSERT INTO feedback_fts (feedback_fts, rowid, content, explanation) VALUES ('delete', old.rowid, old.content, old.explanation);
+END;
+CREATE TRIGGER feedback_fts_update AFTER UPDATE OF content, explanation ON feedback BEGIN
+  INSERT INTO feedback_fts (feedback_fts, rowid, content, explanation) VALUES ('delete', old.rowid, old.content, old.explanation);
+  INSERT INTO feedback_fts (rowid, content, explanation) VALUES (new.rowid, new.content, new.explanation);
+END;
+-- Index the rows that existed before the table
+INSERT INTO feedback_fts (feedback_fts) VALUES ('rebuild');
@@ -0,0 +1,3 @@
+-- Which model embedded each row into the report index, and when (NULL: not indexed yet)
+ALTER TABLE feedback ADD COLUMN embedding_model TEXT;
+ALTER TABLE feedback ADD COLUMN embedded_at TEXT;
@@ -0,0 +1,18 @@
+-- Volume spikes and sentiment drops flagged by the hourly anomaly job; one row per signal per day
+CREATE TABLE anomalies (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  dimension TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  label TEXT,
+  day TEXT NOT NULL,
+  observed REAL NOT NULL,
+  expected REAL NOT NULL,
+  deviation REAL NOT NULL,
+  score REAL NOT NULL,
+  reports INTEGER NOT NULL,
+  first_seen_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL
+);
+CREATE UNIQUE INDEX idx_anomalies_signal ON anomalies(kind, dimension, subject, day);
+CREATE INDEX idx_anomalies_seen ON anomalies(last_seen_at);
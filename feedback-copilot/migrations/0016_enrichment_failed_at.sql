@@ -0,0 +1 @@
+ALTER TABLE feedback ADD COLUMN enrichment_failed_at TEXT;
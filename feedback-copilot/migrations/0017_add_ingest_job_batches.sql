@@ -0,0 +1,7 @@
+-- Accepted bulk rows waiting to be started, 100 per batch; a batch is deleted once it has been started
+CREATE TABLE ingest_job_batches (
+  job_id TEXT NOT NULL,
+  batch INTEGER NOT NULL,
+  events TEXT NOT NULL,
+  PRIMARY KEY (job_id, batch)
+);
@@ -1,4 +1,28 @@
 DROP TABLE IF EXISTS feedback; 
+DROP TABLE IF EXISTS issues;
+DROP TABLE IF EXISTS scoring_policies;
+DROP TABLE IF EXISTS issue_events;
+DROP TABLE IF EXISTS ingest_jobs;
+DROP TABLE IF EXISTS ingest_job_batches;
+DROP TABLE IF EXISTS notification_subscriptions;
+DROP TABLE IF EXISTS notification_deliveries;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS conversation_turns;
+DROP TABLE IF EXISTS ai_output_metrics;
+DROP TABLE IF EXISTS feedback_fts;
+DROP TABLE IF EXISTS anomalies;
+CREATE TABLE issues (
+  id TEXT PRIMARY KEY,
+  lead_feedback_id TEXT,
+  category TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  report_count INTEGER NOT NULL DEFAULT 0,
+  gravity_score REAL,
+  created_at TEXT,
+  updated_at TEXT,
+  assignee TEXT,
+  snoozed_until TEXT
+);
 CREATE TABLE feedback ( 
   id TEXT PRIMARY KEY, 
   source TEXT, 
@@ -9,5 +33,160 @@ CREATE TABLE feedback (
   gravity_score REAL, 
   created_at TEXT,
   status TEXT DEFAULT 'open',
-  closed_at TEXT
+  closed_at TEXT,
+  issue_id TEXT REFERENCES issues(id),
+  job_id TEXT,
+  external_id TEXT,
+  content_hash TEXT,
+  repeat_count INTEGER NOT NULL DEFAULT 0,
+  last_seen_at TEXT,
+  author TEXT,
+  url TEXT,
+  enrichment_status TEXT NOT NULL DEFAULT 'ok',
+  enrichment_error TEXT,
+  enrichment_model TEXT,
+  enrichment_prompt_version TEXT,
+  enriched_at TEXT,
+  enrichment_failed_at TEXT,
+  embedding_model TEXT,
+  embedded_at TEXT
+);
+CREATE INDEX idx_feedback_issue ON feedback(issue_id);
+CREATE INDEX idx_feedback_job ON feedback(job_id);
+CREATE UNIQUE INDEX idx_feedback_external ON feedback(source, external_id);
+CREATE INDEX idx_feedback_content_hash ON feedback(source, content_hash, last_seen_at);
+CREATE INDEX idx_issues_rank ON issues(status, gravity_score DESC);
+CREATE INDEX idx_issues_assignee ON issues(assignee);
+CREATE TABLE scoring_policies (
+  workspace TEXT PRIMARY KEY,
+  policy TEXT NOT NULL,
+  updated_at TEXT
+);
+CREATE TABLE issue_events (
+  id TEXT PRIMARY KEY,
+  feedback_id TEXT NOT NULL,
+  issue_id TEXT,
+  type TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  before_value TEXT,
+  after_value TEXT,
+  reason TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX idx_issue_events_issue ON issue_events(issue_id, created_at);
+CREATE INDEX idx_issue_events_feedback ON issue_events(feedback_id, created_at);
+CREATE TABLE ingest_jobs (
+  id TEXT PRIMARY KEY,
+  format TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  total INTEGER NOT NULL DEFAULT 0,
+  accepted INTEGER NOT NULL DEFAULT 0,
+  rejected INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  errors TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  dispatched_at TEXT
+);
+CREATE TABLE ingest_job_batches (
+  job_id TEXT NOT NULL,
+  batch INTEGER NOT NULL,
+  events TEXT NOT NULL,
+  PRIMARY KEY (job_id, batch)
+);
+CREATE TABLE notification_subscriptions (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT,
+  gravity_threshold REAL,
+  new_bug_cluster INTEGER NOT NULL DEFAULT 0,
+  volume_spike INTEGER NOT NULL DEFAULT 0,
+  spike_multiplier REAL,
+  spike_min_reports INTEGER,
+  category TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE TABLE notification_deliveries (
+  id TEXT PRIMARY KEY,
+  subscription_id TEXT NOT NULL,
+  trigger TEXT NOT NULL,
+  issue_id TEXT,
+  category TEXT,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  delivered_at TEXT
+);
+CREATE INDEX idx_deliveries_subscription ON notification_deliveries(subscription_id, created_at);
+CREATE INDEX idx_deliveries_status ON notification_deliveries(status, created_at);
+CREATE INDEX idx_feedback_category_seen ON feedback(category, last_seen_at);
+CREATE TABLE conversations (
+  id TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  title TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE conversation_turns (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  query TEXT NOT NULL,
+  intent TEXT NOT NULL,
+  params TEXT,
+  result_ids TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX idx_conversations_owner ON conversations(owner, updated_at);
+CREATE INDEX idx_conversation_turns_conversation ON conversation_turns(conversation_id, created_at);
+CREATE INDEX idx_feedback_enrichment_status ON feedback(enrichment_status);
+CREATE TABLE ai_output_metrics (
+  task TEXT NOT NULL,
+  day TEXT NOT NULL,
+  ok INTEGER NOT NULL DEFAULT 0,
+  repaired INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (task, day)
+);
+CREATE INDEX idx_feedback_prompt_version ON feedback(enrichment_prompt_version);
+CREATE VIRTUAL TABLE feedback_fts USING fts5(
+  content,
+  explanation,
+  content = 'feedback',
+  content_rowid = 'rowid',
+  tokenize = 'porter unicode61 remove_diacritics 2'
+);
+CREATE TRIGGER feedback_fts_insert AFTER INSERT ON feedback BEGIN
+  INSERT INTO feedback_fts (rowid, content, explanation) VALUES (new.rowid, new.content, new.explanation);
+END;
+CREATE TRIGGER feedback_fts_delete AFTER DELETE ON feedback BEGIN
+  INSERT INTO feedback_fts (feedback_fts, rowid, content, explanation) VALUES ('delete', old.rowid, old.content, old.explanation);
+END;
+CREATE TRIGGER feedback_fts_update AFTER UPDATE OF content, explanation ON feedback BEGIN
+  INSERT INTO feedback_fts (feedback_fts, rowid, content, explanation) VALUES ('delete', old.rowid, old.content, old.explanation);
+  INSERT INTO feedback_fts (rowid, content, explanation) VALUES (new.rowid, new.content, new.explanation);
+END;
+CREATE TABLE anomalies (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  dimension TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  label TEXT,
+  day TEXT NOT NULL,
+  observed REAL NOT NULL,
+  expected REAL NOT NULL,
+  deviation REAL NOT NULL,
+  score REAL NOT NULL,
+  reports INTEGER NOT NULL,
+  first_seen_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL
 );
+CREATE UNIQUE INDEX idx_anomalies_signal ON anomalies(kind, dimension, subject, day);
+CREATE INDEX idx_anomalies_seen ON anomalies(last_seen_at);
@@ -0,0 +1,232 @@
+// -----------------------------------------------------------------------------
+// Analytics: deterministic trend and breakdown aggregates computed in SQL
+// -----------------------------------------------------------------------------
+
+import { ACTIVE_STATES, CATEGORIES, CLOSED_STATES, ISSUE_STATES } from './issues';
+import { FieldError, SOURCE_PATTERN } from './validation';
+
+const DAY_MS = 24 * 3600 * 1000;
+// Window used when a request gives no `since`
+export const DEFAULT_ANALYTICS_DAYS = 30;
+const MAX_ANALYTICS_DAYS = 366;
+export const DEFAULT_SENTIMENT_WINDOW = 7;
+export const MAX_SENTIMENT_WINDOW = 90;
+export const DEFAULT_MOVERS_LIMIT = 5;
+export const MAX_MOVERS_LIMIT = 50;
+
+export const VOLUME_INTERVALS = ['day', 'week'] as const;
+export const VOLUME_GROUPS = ['category', 'source'] as const;
+export const MOVER_GROUPS = ['issue', 'category', 'source'] as const;
+
+export type VolumeInterval = typeof VOLUME_INTERVALS[number];
+export type VolumeGroup = typeof VOLUME_GROUPS[number];
+export type MoverGroup = typeof MOVER_GROUPS[number];
+
+/**
+ * The rows every report covers: feedback created in [since, until) that was
+ * enriched, optionally limited to some categories and sources.
+ */
+export type AnalyticsFilters = {
+    since: string;
+    until: string;
+    category?: string[];
+    source?: string[];
+};
+
+export type VolumePoint = { period: string; key: string; count: number };
+export type SentimentPoint = { day: string; count: number; average: number; moving_average: number };
+export type StatusCounts = { open: number; closed: number; snoozed: number; closed_in_range: number; by_status: Record<string, number> };
+export type TimeToClose = { key: string; closed: number; median_hours: number };
+export type Mover = { key: string; label: string | null; current: number; previous: number; change: number };
+
+// Monday-based weeks, so a week's bucket is the date of its Monday
+const PERIOD_SQL: Record<VolumeInterval, string> = {
+    day: `substr(created_at, 1, 10)`,
+    week: `date(created_at, '-6 days', 'weekday 1')`,
+};
+const GROUP_SQL: Record<VolumeGroup, string> = {
+    category: `COALESCE(category, 'Other')`,
+    source: `COALESCE(source, 'unknown')`,
+};
+
+function placeholders(values: unknown[]): string {
+    return values.map(() => '?').join(', ');
+}
+
+// WHERE clause for the filters; `dateColumn` picks which timestamp the range applies to
+function filterSql(filters: AnalyticsFilters, dateColumn: 'created_at' | 'closed_at' = 'created_at') {
+    const where = [`enrichment_status = 'ok'`, `${dateColumn} >= ?`, `${dateColumn} < ?`];
+    const binds: (string | number)[] = [filters.since, filters.until];
+    if (filters.category?.length) { where.push(`category IN (${placeholders(filters.category)})`); binds.push(...filters.category); }
+    if (filters.source?.length) { where.push(`source IN (${placeholders(filters.source)})`); binds.push(...filters.source); }
+    return { where: where.join(' AND '), binds };
+}
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Reads the shared query-string filters: `since` and `until` (ISO dates;
+ * the last 30 days by default, at most a year), and `category` and `source`
+ * as repeated or comma-separated values.
+ */
+export function parseAnalyticsFilters(params: URLSearchParams, now: Date = new Date()): { filters: AnalyticsFilters; errors: FieldError[] } {
+    const errors: FieldError[] = [];
+    const list = (name: string) => params.getAll(name).flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+    const date = (name: string) => {
+        const raw = params.get(name);
+        if (!raw) return null;
+        const ms = Date.parse(raw);
+        if (isNaN(ms)) { errors.push({ field: name, message: 'must be an ISO 8601 date' }); return null; }
+        return ms;
+    };
+
+    const until = date('until') ?? now.getTime();
+    const since = date('since') ?? until - DEFAULT_ANALYTICS_DAYS * DAY_MS;
+    if (since >= until) errors.push({ field: 'since', message: 'must be before until' });
+    else if (until - since > MAX_ANALYTICS_DAYS * DAY_MS) errors.push({ field: 'since', message: `must be at most ${MAX_ANALYTICS_DAYS} days before until` });
+
+    const filters: AnalyticsFilters = { since: new Date(since).toISOString(), until: new Date(until).toISOString() };
+    const category = list('category');
+    const unknown = category.filter(c => !(CATEGORIES as readonly string[]).includes(c));
+    if (unknown.length) errors.push({ field: 'category', message: `must be one of ${CATEGORIES.join(', ')}` });
+    else if (category.length) filters.category = category;
+    const source = list('source');
+    if (source.some(s => !SOURCE_PATTERN.test(s))) errors.push({ field: 'source', message: 'has an invalid format' });
+    else if (source.length) filters.source = source;
+    return { filters, errors };
+}
+
+// Report count per day or week, split by category or source
+export async function volumeByPeriod(db: D1Database, filters: AnalyticsFilters, interval: VolumeInterval = 'day', by: VolumeGroup = 'category'): Promise<VolumePoint[]> {
+    const { where, binds } = filterSql(filters);
+    const { results } = await db.prepare(
+        `SELECT ${PERIOD_SQL[interval]} AS period, ${GROUP_SQL[by]} AS key, COUNT(*) AS count
+         FROM feedback WHERE ${where} GROUP BY period, key ORDER BY period, key`
+    ).bind(...binds).all<VolumePoint>();
+    return results;
+}
+
+/**
+ * Daily average sentiment and its trailing moving average over `window`
+ * calendar days, weighted by report count. Days before `since` feed the
+ * first averages, so the start of the range is not undercounted. Days with
+ * no reports are left out.
+ */
+export async function sentimentTrend(db: D1Database, filters: AnalyticsFilters, window = DEFAULT_SENTIMENT_WINDOW): Promise<SentimentPoint[]> {
+    const days = Math.round(Math.min(Math.max(window, 1), MAX_SENTIMENT_WINDOW));
+    const lead = new Date(Date.parse(filters.since) - (days - 1) * DAY_MS).toISOString();
+    const { where, binds } = filterSql({ ...filters, since: lead });
+    // The frame size is a validated integer; SQLite does not accept a bound parameter there
+    const { results } = await db.prepare(
+        `WITH daily AS (
+             SELECT substr(created_at, 1, 10) AS day, COUNT(*) AS count, SUM(sentiment) AS total
+             FROM feedback WHERE ${where} AND sentiment IS NOT NULL GROUP BY day
+         ), trend AS (
+             SELECT day, count, total * 1.0 / count AS average,
+                    SUM(total) OVER w * 1.0 / SUM(count) OVER w AS moving_average
+             FROM daily
+             WINDOW w AS (ORDER BY julianday(day) RANGE BETWEEN ${days - 1} PRECEDING AND CURRENT ROW)
+         )
+         SELECT * FROM trend WHERE day >= ? ORDER BY day`
+    ).bind(...binds, filters.since.slice(0, 10)).all<SentimentPoint>();
+    return results.map(r => ({ ...r, average: round(r.average), moving_average: round(r.moving_average) }));
+}
+
+/**
+ * Current status of the reports created in the range, grouped into open
+ * work, closed work and snoozed, plus how many reports were closed during
+ * the range whenever they were created.
+ */
+export async function statusCounts(db: D1Database, filters: AnalyticsFilters): Promise<StatusCounts> {
+    const created = filterSql(filters);
+    const closed = filterSql(filters, 'closed_at');
+    const [byStatus, closedInRange] = await db.batch<any>([
+        db.prepare(`SELECT status, COUNT(*) AS count FROM feedback WHERE ${created.where} GROUP BY status`).bind(...created.binds),
+        db.prepare(`SELECT COUNT(*) AS count FROM feedback WHERE ${closed.where}`).bind(...closed.binds),
+    ]);
+    const by_status: Record<string, number> = Object.fromEntries(ISSUE_STATES.map(s => [s, 0]));
+    for (const row of byStatus.results) by_status[row.status] = row.count;
+    const sum = (states: readonly string[]) => states.reduce((n, s) => n + (by_status[s] || 0), 0);
+    return {
+        open: sum(ACTIVE_STATES), closed: sum(CLOSED_STATES), snoozed: by_status.snoozed,
+        closed_in_range: closedInRange.results[0]?.count ?? 0, by_status,
+    };
+}
+
+/**
+ * Median hours from `created_at` to `closed_at` for reports closed in the
+ * range, overall (`key` "all") and per category. With an even count the
+ * median is the mean of the middle two.
+ */
+export async function medianTimeToClose(db: D1Database, filters: AnalyticsFilters): Promise<TimeToClose[]> {
+    const { where, binds } = filterSql(filters, 'closed_at');
+    const median = (key: string) => `
+        SELECT key, MAX(n) AS closed, AVG(hours) AS median_hours FROM (
+            SELECT ${key} AS key, hours,
+                   ROW_NUMBER() OVER (PARTITION BY ${key} ORDER BY hours) AS rn, COUNT(*) OVER (PARTITION BY ${key}) AS n
+            FROM (SELECT *, (julianday(closed_at) - julianday(created_at)) * 24 AS hours FROM feedback WHERE ${where})
+        ) WHERE rn IN ((n + 1) / 2, (n + 2) / 2) GROUP BY key`;
+    const [overall, byCategory] = await db.batch<TimeToClose>([
+        db.prepare(median(`'all'`)).bind(...binds),
+        db.prepare(`${median(GROUP_SQL.category)} ORDER BY key`).bind(...binds),
+    ]);
+    return [...overall.results, ...byCategory.results].map(r => ({ ...r, median_hours: round(r.median_hours, 1) }));
+}
+
+/**
+ * Biggest week-over-week changes in report count: the 7 days before
+ * `until` against the 7 days before that, ignoring `since`. Issues are
+ * labelled with the start of their lead report.
+ */
+export async function topMovers(db: D1Database, filters: AnalyticsFilters, by: MoverGroup = 'issue', limit = DEFAULT_MOVERS_LIMIT): Promise<Mover[]> {
+    const until = Date.parse(filters.until);
+    const weekStart = new Date(until - 7 * DAY_MS).toISOString();
+    const { where, binds } = filterSql({ ...filters, since: new Date(until - 14 * DAY_MS).toISOString() });
+    const key = by === 'issue' ? 'issue_id' : GROUP_SQL[by];
+    const label = by === 'issue'
+        ? `(SELECT substr(lead.content, 1, 80) FROM issues JOIN feedback lead ON lead.id = issues.lead_feedback_id WHERE issues.id = feedback.issue_id)`
+        : 'NULL';
+    const { results } = await db.prepare(
+        `SELECT key, label, current, previous, current - previous AS change FROM (
+             SELECT ${key} AS key, ${label} AS label,
+                    SUM(created_at >= ?) AS current, SUM(created_at < ?) AS previous
+             FROM feedback WHERE ${where}${by === 'issue' ? ' AND issue_id IS NOT NULL' : ''} GROUP BY key
+         ) WHERE current != previous ORDER BY ABS(current - previous) DESC, current DESC, key LIMIT ?`
+    ).bind(weekStart, weekStart, ...binds, Math.round(Math.min(Math.max(limit, 1), MAX_MOVERS_LIMIT))).all<Mover>();
+    return results;
+}
+
+/**
+ * Everything above for one range, sized for a chat prompt: totals by
+ * category and source, daily volume, the sentiment trend, status counts,
+ * time to close and the top issue movers.
+ */
+export async function analyticsOverview(db: D1Database, filters: AnalyticsFilters) {
+    const { where, binds } = filterSql(filters);
+    const [totals, volume, bySource, sentiment, status, time_to_close, movers] = await Promise.all([
+        db.prepare(`SELECT COUNT(*) AS total, AVG(sentiment) AS sentiment FROM feedback WHERE ${where}`).bind(...binds).first<{ total: number; sentiment: number | null }>(),
+        volumeByPeriod(db, filters, 'day', 'category'),
+        volumeByPeriod(db, filters, 'day', 'source'),
+        sentimentTrend(db, filters),
+        statusCounts(db, filters),
+        medianTimeToClose(db, filters),
+        topMovers(db, filters),
+    ]);
+
+    const tally = (points: VolumePoint[]) => {
+        const counts: Record<string, number> = {};
+        for (const p of points) counts[p.key] = (counts[p.key] || 0) + p.count;
+        return counts;
+    };
+    return {
+        since: filters.since, until: filters.until,
+        ...(filters.category ? { category: filters.category } : {}), ...(filters.source ? { source: filters.source } : {}),
+        total: totals?.total ?? 0,
+        by_category: { ...Object.fromEntries(CATEGORIES.map(c => [c, 0])), ...tally(volume) },
+        by_source: tally(bySource),
+        average_sentiment: typeof totals?.sentiment === 'number' ? round(totals.sentiment) : null,
+        volume, sentiment, status, time_to_close, movers,
+    };
+}
+
+export type AnalyticsOverview = Awaited<ReturnType<typeof analyticsOverview>>;
@@ -0,0 +1,200 @@
+// -----------------------------------------------------------------------------
+// Anomalies: volume spikes and sentiment drops against rolling baselines
+// -----------------------------------------------------------------------------
+
+const DAY_MS = 24 * 3600 * 1000;
+// Days of history each subject's baseline is computed from, ending where the current day starts
+export const BASELINE_DAYS = 14;
+// Standard deviations from the baseline that count as significant
+export const Z_THRESHOLD = 3;
+// Fewer reports than this in the current day are never flagged, however quiet the baseline
+export const MIN_REPORTS = 5;
+// A significant sentiment drop must also be this large on the -1..1 scale to be worth a banner
+const MIN_SENTIMENT_DROP = 0.2;
+// Spreads below these are treated as noise floors, so a perfectly flat baseline can't make every blip significant
+const MIN_VOLUME_DEVIATION = 1;
+const MIN_SENTIMENT_DEVIATION = 0.1;
+// Without this much history every subject looks new, so detection waits
+const MIN_HISTORY_DAYS = 7;
+// Anomalies seen within this many hours show as banners
+export const ANOMALY_BANNER_HOURS = 24;
+
+export const ANOMALY_KINDS = ['volume_spike', 'sentiment_drop'] as const;
+export const ANOMALY_DIMENSIONS = ['category', 'source', 'issue'] as const;
+
+export type AnomalyKind = typeof ANOMALY_KINDS[number];
+export type AnomalyDimension = typeof ANOMALY_DIMENSIONS[number];
+
+export type Anomaly = {
+    id: string;
+    kind: AnomalyKind;
+    dimension: AnomalyDimension;
+    subject: string;
+    label: string | null;
+    day: string;
+    // Reports (volume) or average sentiment (sentiment) in the last 24 hours, and the baseline's mean and spread
+    observed: number;
+    expected: number;
+    deviation: number;
+    // z-score: positive for spikes, negative for drops
+    score: number;
+    reports: number;
+    first_seen_at: string;
+    last_seen_at: string;
+};
+
+export type AnomalyScore = Pick<Anomaly, 'kind' | 'observed' | 'expected' | 'deviation' | 'score' | 'reports'>;
+
+export type DaySample = { subject: string; bucket: number; reports: number; total: number | null; squares: number | null };
+
+// Fixed column per dimension; dimensions are never taken from input
+const SUBJECT_SQL: Record<AnomalyDimension, string> = {
+    category: `COALESCE(category, 'Other')`,
+    source: `COALESCE(source, 'unknown')`,
+    issue: `issue_id`,
+};
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+function meanAndDeviation(values: number[]) {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length;
+    return { mean, deviation: Math.sqrt(variance) };
+}
+
+/**
+ * Scores one subject's last 24 hours against the BASELINE_DAYS before it.
+ * Buckets are 24-hour windows counted back from `now` (0 is the current
+ * one), so the result doesn't depend on when in the day the job runs.
+ *
+ * Volume uses the z-score of the current count against the daily counts,
+ * with empty days counted as zero. Sentiment compares the current average
+ * with the baseline's per-report mean, using the standard error for the
+ * number of reports today.
+ */
+export function scoreSubject(samples: DaySample[]): AnomalyScore[] {
+    const current = samples.find(s => s.bucket === 0);
+    if (!current || current.reports < MIN_REPORTS) return [];
+    const baseline = samples.filter(s => s.bucket >= 1 && s.bucket <= BASELINE_DAYS);
+    const found: AnomalyScore[] = [];
+
+    const daily = Array.from({ length: BASELINE_DAYS }, (_, i) => baseline.find(s => s.bucket === i + 1)?.reports ?? 0);
+    const volume = meanAndDeviation(daily);
+    const volumeScore = (current.reports - volume.mean) / Math.max(volume.deviation, MIN_VOLUME_DEVIATION);
+    if (volumeScore >= Z_THRESHOLD) {
+        found.push({
+            kind: 'volume_spike', observed: current.reports, expected: round(volume.mean), deviation: round(volume.deviation),
+            score: round(volumeScore, 2), reports: current.reports,
+        });
+    }
+
+    const rated = baseline.filter(s => s.total !== null);
+    const n = rated.reduce((a, s) => a + s.reports, 0);
+    if (n >= MIN_REPORTS && current.total !== null) {
+        const mean = rated.reduce((a, s) => a + s.total!, 0) / n;
+        const deviation = Math.sqrt(Math.max(rated.reduce((a, s) => a + s.squares!, 0) / n - mean ** 2, 0));
+        const average = current.total / current.reports;
+        const score = (average - mean) / (Math.max(deviation, MIN_SENTIMENT_DEVIATION) / Math.sqrt(current.reports));
+        if (score <= -Z_THRESHOLD && mean - average >= MIN_SENTIMENT_DROP) {
+            found.push({
+                kind: 'sentiment_drop', observed: round(average), expected: round(mean), deviation: round(deviation),
+                score: round(score, 2), reports: current.reports,
+            });
+        }
+    }
+    return found;
+}
+
+/**
+ * The scheduled job: scores every category, source and issue cluster with
+ * reports in the last 24 hours and records what is significant. A signal
+ * is stored once per day and refreshed by later runs that day, so hourly
+ * runs don't repeat it.
+ */
+export async function detectAnomalies(db: D1Database, now: Date = new Date()): Promise<{ subjects: number; anomalies: Anomaly[]; skipped?: string }> {
+    const first = await db.prepare(`SELECT MIN(created_at) AS first FROM feedback WHERE enrichment_status = 'ok'`).first<{ first: string | null }>();
+    if (!first?.first || Date.parse(first.first) > now.getTime() - MIN_HISTORY_DAYS * DAY_MS) {
+        return { subjects: 0, anomalies: [], skipped: `needs ${MIN_HISTORY_DAYS} days of feedback` };
+    }
+
+    const at = now.toISOString();
+    const start = new Date(now.getTime() - (BASELINE_DAYS + 1) * DAY_MS).toISOString();
+    const queries = ANOMALY_DIMENSIONS.map(dimension => db.prepare(
+        `SELECT ${SUBJECT_SQL[dimension]} AS subject, CAST(julianday(?) - julianday(created_at) AS INTEGER) AS bucket,
+                COUNT(*) AS reports, SUM(sentiment) AS total, SUM(sentiment * sentiment) AS squares
+         FROM feedback
+         WHERE enrichment_status = 'ok' AND created_at >= ? AND created_at < ?${dimension === 'issue' ? ' AND issue_id IS NOT NULL' : ''}
+         GROUP BY subject, bucket`
+    ).bind(at, start, at));
+    const results = await db.batch<DaySample>(queries);
+
+    let subjects = 0;
+    const found: Omit<Anomaly, 'id' | 'first_seen_at' | 'last_seen_at'>[] = [];
+    ANOMALY_DIMENSIONS.forEach((dimension, i) => {
+        const bySubject = new Map<string, DaySample[]>();
+        for (const sample of results[i].results) bySubject.set(sample.subject, [...(bySubject.get(sample.subject) || []), sample]);
+        for (const [subject, samples] of bySubject) {
+            if (!samples.some(s => s.bucket === 0)) continue;
+            subjects++;
+            for (const score of scoreSubject(samples)) found.push({ ...score, dimension, subject, label: dimension === 'issue' ? null : subject, day: at.slice(0, 10) });
+        }
+    });
+
+    // Issues are labelled with the start of their lead report
+    const issueIds = [...new Set(found.filter(a => a.dimension === 'issue').map(a => a.subject))];
+    if (issueIds.length) {
+        const { results: leads } = await db.prepare(
+            `SELECT issues.id, substr(feedback.content, 1, 80) AS label FROM issues JOIN feedback ON feedback.id = issues.lead_feedback_id
+             WHERE issues.id IN (${issueIds.map(() => '?').join(', ')})`
+        ).bind(...issueIds).all<{ id: string; label: string }>();
+        const labels = new Map(leads.map(l => [l.id, l.label]));
+        for (const a of found) if (a.dimension === 'issue') a.label = labels.get(a.subject) ?? null;
+    }
+
+    if (found.length) {
+        await db.batch(found.map(a => db.prepare(
+            `INSERT INTO anomalies (id, kind, dimension, subject, label, day, observed, expected, deviation, score, reports, first_seen_at, last_seen_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (kind, dimension, subject, day) DO UPDATE SET
+                label = excluded.label, observed = excluded.observed, expected = excluded.expected, deviation = excluded.deviation,
+                score = excluded.score, reports = excluded.reports, last_seen_at = excluded.last_seen_at`
+        ).bind(crypto.randomUUID(), a.kind, a.dimension, a.subject, a.label, a.day, a.observed, a.expected, a.deviation, a.score, a.reports, at, at)));
+    }
+    const anomalies = found.length ? await listAnomalies(db, { since: at }) : [];
+    return { subjects, anomalies };
+}
+
+// Anomalies seen since `since` (the banner window by default), most significant first
+export async function listAnomalies(db: D1Database, opts: { since?: string; limit?: number; now?: Date } = {}): Promise<Anomaly[]> {
+    const since = opts.since ?? new Date((opts.now ?? new Date()).getTime() - ANOMALY_BANNER_HOURS * 3600 * 1000).toISOString();
+    const { results } = await db.prepare(
+        `SELECT * FROM anomalies WHERE last_seen_at >= ? ORDER BY ABS(score) DESC, last_seen_at DESC LIMIT ?`
+    ).bind(since, opts.limit ?? 20).all<Anomaly>();
+    return results;
+}
+
+// One line for a banner or a prompt, e.g. "Bug: 14 reports in 24h, usually 2.1 a day"
+export function describeAnomaly(a: Pick<Anomaly, 'kind' | 'dimension' | 'subject' | 'label' | 'observed' | 'expected'>): string {
+    const subject = a.label ?? a.subject;
+    const name = a.dimension === 'issue' ? `Issue "${subject}"` : a.dimension === 'source' ? `Source ${subject}` : subject;
+    return a.kind === 'volume_spike'
+        ? `${name}: ${a.observed} reports in 24h, usually ${a.expected.toFixed(1)} a day`
+        : `${name}: sentiment ${a.observed.toFixed(2)} in 24h, usually ${a.expected.toFixed(2)}`;
+}
+
+/**
+ * Recent reports behind each anomaly, highest gravity first, so an answer
+ * can show and cite examples. At most `perAnomaly` for each.
+ */
+export async function anomalyReports(db: D1Database, anomalies: Anomaly[], now: Date = new Date(), perAnomaly = 3): Promise<any[]> {
+    if (!anomalies.length) return [];
+    const since = new Date(now.getTime() - DAY_MS).toISOString();
+    const results = await db.batch(anomalies.map(a => db.prepare(
+        `SELECT * FROM feedback WHERE enrichment_status = 'ok' AND created_at >= ? AND ${SUBJECT_SQL[a.dimension]} = ?
+         ORDER BY ${a.kind === 'sentiment_drop' ? 'sentiment ASC' : 'gravity_score DESC'}, created_at DESC LIMIT ?`
+    ).bind(since, a.subject, perAnomaly)));
+
+    const rows = new Map<string, any>();
+    for (const { results: found } of results) for (const row of found as any[]) if (!rows.has(row.id)) rows.set(row.id, row);
+    return [...rows.values()];
+}
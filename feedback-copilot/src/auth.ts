@@ -0,0 +1,178 @@
+// -----------------------------------------------------------------------------
+// Auth: Cloudflare Access identity, roles and per-source ingest keys
+// -----------------------------------------------------------------------------
+
+export type Role = 'viewer' | 'triager' | 'admin';
+
+export type AuthUser = {
+    email: string;
+    role: Role;
+    // Set when the caller authenticated with a per-source ingest key instead of Access
+    source?: string;
+};
+
+export type AuthResult = { ok: true; user: AuthUser } | { ok: false; response: Response };
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, triager: 1, admin: 2 };
+
+type Jwk = JsonWebKey & { kid?: string };
+
+// JWKS responses are cached per URL for the lifetime of the isolate
+const JWKS_TTL_MS = 10 * 60 * 1000;
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+function isRole(value: unknown): value is Role {
+    return value === 'viewer' || value === 'triager' || value === 'admin';
+}
+
+/**
+ * Resolves a role from ROLE_ASSIGNMENTS, a JSON map of exact emails or
+ * "*@domain" wildcards to roles. Unlisted users fall back to DEFAULT_ROLE.
+ */
+export function roleFor(email: string, env: Env): Role {
+    let assignments: Record<string, string> = {};
+    try {
+        assignments = env.ROLE_ASSIGNMENTS ? JSON.parse(env.ROLE_ASSIGNMENTS) : {};
+    } catch (e) {
+        console.error("ROLE_ASSIGNMENTS is not valid JSON:", e);
+    }
+
+    const lower = email.toLowerCase();
+    const exact = assignments[lower];
+    if (isRole(exact)) return exact;
+
+    const domain = assignments[`*@${lower.split('@')[1]}`];
+    if (isRole(domain)) return domain;
+
+    return isRole(env.DEFAULT_ROLE) ? env.DEFAULT_ROLE : 'viewer';
+}
+
+function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+    const b64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+    const bin = atob(b64);
+    const bytes = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+    return bytes;
+}
+
+async function loadJwks(env: Env): Promise<Jwk[]> {
+    // An inline JWKS (e.g. in tests or air-gapped setups) wins over the URL
+    if (env.ACCESS_JWKS) return JSON.parse(env.ACCESS_JWKS).keys || [];
+    if (!env.ACCESS_JWKS_URL) return [];
+
+    const cached = jwksCache.get(env.ACCESS_JWKS_URL);
+    if (cached && Date.now() - cached.fetchedAt < JWKS_TTL_MS) return cached.keys;
+
+    const res = await fetch(env.ACCESS_JWKS_URL);
+    if (!res.ok) throw new Error(`JWKS fetch failed: ${res.status}`);
+    const { keys = [] } = await res.json() as { keys?: Jwk[] };
+    jwksCache.set(env.ACCESS_JWKS_URL, { keys, fetchedAt: Date.now() });
+    return keys;
+}
+
+/**
+ * Verifies an RS256 Access JWT and returns its claims, or null when the
+ * signature, expiry, not-before time, audience or issuer does not check out.
+ * Tokens without an expiry are rejected.
+ */
+export async function verifyAccessJwt(token: string, env: Env): Promise<Record<string, any> | null> {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    try {
+        const header = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0])));
+        const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+        if (header.alg !== 'RS256') return null;
+
+        const jwk = (await loadJwks(env)).find(k => !header.kid || k.kid === header.kid);
+        if (!jwk) return null;
+
+        const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+        const valid = await crypto.subtle.verify(
+            'RSASSA-PKCS1-v1_5', key, base64UrlDecode(parts[2]), new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+        );
+        if (!valid) return null;
+
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof claims.exp !== 'number' || claims.exp < now) return null;
+        if (typeof claims.nbf === 'number' && claims.nbf > now) return null;
+        if (env.ACCESS_AUD) {
+            const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+            if (!aud.includes(env.ACCESS_AUD)) return null;
+        }
+        if (env.ACCESS_ISSUER && claims.iss !== env.ACCESS_ISSUER) return null;
+
+        return claims;
+    } catch (e) {
+        console.error("Access JWT verification failed:", e);
+        return null;
+    }
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+}
+
+/**
+ * Matches the request's API key against INGEST_API_KEYS, a JSON map of
+ * source name to key. Returns the source the key belongs to.
+ */
+export function sourceForApiKey(request: Request, env: Env): string | null {
+    const bearer = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const key = request.headers.get('X-Api-Key') || bearer;
+    if (!key || !env.INGEST_API_KEYS) return null;
+
+    let keys: Record<string, string> = {};
+    try {
+        keys = JSON.parse(env.INGEST_API_KEYS);
+    } catch (e) {
+        console.error("INGEST_API_KEYS is not valid JSON:", e);
+        return null;
+    }
+
+    for (const [source, expected] of Object.entries(keys)) {
+        if (typeof expected === 'string' && timingSafeEqual(key, expected)) return source;
+    }
+    return null;
+}
+
+export async function authenticate(request: Request, env: Env): Promise<AuthUser | null> {
+    const url = new URL(request.url);
+    const email = request.headers.get('Cf-Access-Authenticated-User-Email');
+
+    // Allow local dev without headers
+    if (!email && (url.hostname === 'localhost' || url.hostname === '127.0.0.1')) {
+        return { email: 'dev@localhost', role: 'admin' };
+    }
+    if (!email) return null;
+
+    if (env.ACCESS_JWKS || env.ACCESS_JWKS_URL) {
+        const token = request.headers.get('Cf-Access-Jwt-Assertion');
+        const claims = token ? await verifyAccessJwt(token, env) : null;
+        // Tokens without an email (e.g. service tokens) cannot vouch for the header's identity
+        if (!claims?.email || String(claims.email).toLowerCase() !== email.toLowerCase()) return null;
+    }
+
+    return { email, role: roleFor(email, env) };
+}
+
+/**
+ * Route guard: resolves the caller and checks it holds at least `minRole`.
+ * Pass `allowApiKey` on ingest routes so external systems can use a source key.
+ */
+export async function requireAuth(request: Request, env: Env, minRole: Role, opts: { allowApiKey?: boolean } = {}): Promise<AuthResult> {
+    if (opts.allowApiKey) {
+        const source = sourceForApiKey(request, env);
+        if (source) return { ok: true, user: { email: `api-key:${source}`, role: 'triager', source } };
+    }
+
+    const user = await authenticate(request, env);
+    if (!user) return { ok: false, response: new Response('Unauthorized', { status: 401 }) };
+    if (ROLE_RANK[user.role] < ROLE_RANK[minRole]) {
+        return { ok: false, response: new Response('Forbidden', { status: 403 }) };
+    }
+    return { ok: true, user };
+}
@@ -0,0 +1,248 @@
+import { MAX_EXTERNAL_ID_LENGTH } from './dedupe';
+import { FeedbackEvent } from './types';
+import { MAX_CONTENT_LENGTH, SOURCE_PATTERN } from './validation';
+
+// -----------------------------------------------------------------------------
+// Bulk Ingest: CSV / NDJSON exports fanned out to the ingest workflow
+// -----------------------------------------------------------------------------
+
+export const MAX_BULK_ROWS = 10000;
+export const MAX_BULK_BODY_BYTES = 10 * 1024 * 1024;
+
+// A job still dispatching this long after it was created was cut off, so the cron picks it up again
+export const BULK_RESUME_MINUTES = 10;
+
+// Workflow.createBatch accepts at most 100 instances per call
+const WORKFLOW_BATCH_SIZE = 100;
+
+export type BulkFormat = 'csv' | 'ndjson';
+
+export type ColumnMapping = {
+    text: string;
+    source?: string;
+    created_at?: string;
+    external_id?: string;
+};
+
+export type RowError = { row: number; error: string };
+
+/**
+ * RFC 4180-style CSV parser: quoted fields, escaped quotes ("") and newlines
+ * inside quotes. The first record is treated as the header.
+ */
+export function parseCsv(input: string): Record<string, string>[] {
+    const records: string[][] = [];
+    let field = '';
+    let record: string[] = [];
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (inQuotes) {
+            if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else field += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            record.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || record.length) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const [header, ...rows] = records.filter(r => r.some(f => f.trim() !== ''));
+    if (!header) return [];
+    const columns = header.map(h => h.trim().replace(/^\uFEFF/, ''));
+    return rows.map(r => Object.fromEntries(columns.map((c, idx) => [c, r[idx] ?? ''])));
+}
+
+// Unparseable lines are kept as errors so row numbers stay aligned with the file
+export function parseNdjson(input: string): (Record<string, any> | Error)[] {
+    return input.split(/\r?\n/).filter(line => line.trim()).map(line => {
+        try {
+            const value = JSON.parse(line);
+            return value && typeof value === 'object' && !Array.isArray(value) ? value : new Error('line is not a JSON object');
+        } catch (e) {
+            return new Error('invalid JSON');
+        }
+    });
+}
+
+/**
+ * Maps parsed rows onto FeedbackEvents. Rows are numbered from 1 (the first
+ * data row); invalid rows are returned as errors rather than dropped silently.
+ */
+export function mapRows(rows: (Record<string, any> | Error)[], mapping: ColumnMapping, defaultSource: string, jobId: string) {
+    const accepted: FeedbackEvent[] = [];
+    const errors: RowError[] = [];
+
+    rows.forEach((row, idx) => {
+        const rowNumber = idx + 1;
+        if (row instanceof Error) {
+            errors.push({ row: rowNumber, error: row.message });
+            return;
+        }
+
+        const text = String(row[mapping.text] ?? '').trim();
+        if (!text) {
+            errors.push({ row: rowNumber, error: `missing "${mapping.text}"` });
+            return;
+        }
+        if (text.length > MAX_CONTENT_LENGTH) {
+            errors.push({ row: rowNumber, error: `text longer than ${MAX_CONTENT_LENGTH} characters` });
+            return;
+        }
+
+        let createdAt: string | undefined;
+        const rawDate = mapping.created_at ? row[mapping.created_at] : undefined;
+        if (rawDate) {
+            const parsed = new Date(rawDate);
+            if (isNaN(parsed.getTime())) {
+                errors.push({ row: rowNumber, error: `unparseable "${mapping.created_at}": ${rawDate}` });
+                return;
+            }
+            createdAt = parsed.toISOString();
+        }
+
+        const source = (mapping.source && String(row[mapping.source] ?? '').trim()) || defaultSource;
+        if (!SOURCE_PATTERN.test(source)) {
+            errors.push({ row: rowNumber, error: `invalid source: ${source.slice(0, 64)}` });
+            return;
+        }
+
+        const externalId = mapping.external_id ? String(row[mapping.external_id] ?? '').trim() : '';
+        if (externalId.length > MAX_EXTERNAL_ID_LENGTH) {
+            errors.push({ row: rowNumber, error: `"${mapping.external_id}" longer than ${MAX_EXTERNAL_ID_LENGTH} characters` });
+            return;
+        }
+        accepted.push({ content: text, source, created_at: createdAt || new Date().toISOString(), job_id: jobId, external_id: externalId || undefined });
+    });
+
+    return { accepted, errors };
+}
+
+/**
+ * Records a job and queues its accepted rows in batches of 100, in one
+ * write, so a job that exists always has everything it needs to dispatch.
+ */
+export async function createBulkJob(
+    db: D1Database, jobId: string, opts: { format: BulkFormat; total: number; events: FeedbackEvent[]; errors: RowError[]; createdBy: string }
+) {
+    const statements = [db.prepare(
+        `INSERT INTO ingest_jobs (id, format, status, total, accepted, rejected, errors, created_by, created_at) VALUES (?, ?, 'queued', ?, ?, ?, ?, ?, ?)`
+    ).bind(jobId, opts.format, opts.total, opts.events.length, opts.errors.length, JSON.stringify(opts.errors), opts.createdBy, new Date().toISOString())];
+    for (let i = 0; i < opts.events.length; i += WORKFLOW_BATCH_SIZE) {
+        statements.push(db.prepare(`INSERT INTO ingest_job_batches (job_id, batch, events) VALUES (?, ?, ?)`)
+            .bind(jobId, i / WORKFLOW_BATCH_SIZE, JSON.stringify(opts.events.slice(i, i + WORKFLOW_BATCH_SIZE))));
+    }
+    await db.batch(statements);
+}
+
+/**
+ * Starts one workflow instance per queued row, a batch at a time, deleting
+ * each batch once it has started. Rows that fail to start are recorded as
+ * row errors on the job. Instance ids are fixed per row, so running this
+ * again after an interruption only starts what is left.
+ */
+export async function fanOutBulkJob(db: D1Database, workflow: Workflow, jobId: string, resume = false) {
+    await db.prepare(`UPDATE ingest_jobs SET status='dispatching' WHERE id = ?`).bind(jobId).run();
+
+    for (;;) {
+        const next = await db.prepare(
+            `SELECT batch, events FROM ingest_job_batches WHERE job_id = ? ORDER BY batch LIMIT 1`
+        ).bind(jobId).first<{ batch: number; events: string }>();
+        if (!next) break;
+
+        const events: FeedbackEvent[] = JSON.parse(next.events);
+        const first = next.batch * WORKFLOW_BATCH_SIZE;
+        const instances = events.map((params, idx) => ({ id: `bulk-${jobId}-${first + idx}`, params }));
+        const failures: RowError[] = [];
+        const fail = (idx: number, e: any) => failures.push({ row: -1, error: `dispatch failed for accepted row ${first + idx + 1}: ${e.message}` });
+
+        if (resume) {
+            // Only the batch that was starting when the run was cut off can have instances already,
+            // so it is started one row at a time and rows that already exist keep their status
+            for (const [idx, instance] of instances.entries()) {
+                try {
+                    await workflow.create(instance);
+                } catch (e: any) {
+                    // create() rejects ids that already exist; confirm that is why before skipping the row
+                    if (await workflow.get(instance.id).catch(() => null)) continue;
+                    console.error(`Bulk job ${jobId}: row ${first + idx + 1} failed to start:`, e.message);
+                    fail(idx, e);
+                }
+            }
+            resume = false;
+        } else {
+            try {
+                await workflow.createBatch(instances);
+            } catch (e: any) {
+                console.error(`Bulk job ${jobId}: batch at ${first} failed to start:`, e.message);
+                instances.forEach((_, idx) => fail(idx, e));
+            }
+        }
+
+        const started = db.prepare(`DELETE FROM ingest_job_batches WHERE job_id = ? AND batch = ?`).bind(jobId, next.batch);
+        if (!failures.length) {
+            await started.run();
+            continue;
+        }
+        const job = await db.prepare(`SELECT errors FROM ingest_jobs WHERE id = ?`).bind(jobId).first<{ errors: string }>();
+        await db.batch([
+            db.prepare(`UPDATE ingest_jobs SET accepted = accepted - ?, rejected = rejected + ?, errors = ? WHERE id = ?`)
+                .bind(failures.length, failures.length, JSON.stringify([...JSON.parse(job?.errors || '[]'), ...failures]), jobId),
+            started,
+        ]);
+    }
+    await db.prepare(`UPDATE ingest_jobs SET status='dispatched', dispatched_at = ? WHERE id = ?`).bind(new Date().toISOString(), jobId).run();
+}
+
+/**
+ * Cron: finishes fan-outs that were cut off, e.g. when the isolate running
+ * them was evicted. Returns how many jobs were resumed.
+ */
+export async function resumeBulkJobs(db: D1Database, workflow: Workflow, now: Date = new Date()): Promise<number> {
+    const before = new Date(now.getTime() - BULK_RESUME_MINUTES * 60 * 1000).toISOString();
+    const { results } = await db.prepare(
+        `SELECT id FROM ingest_jobs WHERE status IN ('queued', 'dispatching') AND created_at < ? ORDER BY created_at`
+    ).bind(before).all<{ id: string }>();
+    for (const job of results) await fanOutBulkJob(db, workflow, job.id, true);
+    return results.length;
+}
+
+// Progress: enriched counts the rows the workflow has already stored; skipped
+// counts retries and repeats the workflow matched to an existing row
+export async function getBulkJobProgress(db: D1Database, jobId: string) {
+    const job = await db.prepare(
+        `SELECT id, format, status, total, accepted, rejected, skipped, errors, created_by, created_at, dispatched_at FROM ingest_jobs WHERE id = ?`
+    ).bind(jobId).first<Record<string, any>>();
+    if (!job) return null;
+
+    const counts = await db.prepare(
+        `SELECT SUM(CASE WHEN enrichment_status = 'failed' THEN 0 ELSE 1 END) AS enriched,
+                SUM(CASE WHEN enrichment_status = 'failed' THEN 1 ELSE 0 END) AS failed
+         FROM feedback WHERE job_id = ?`
+    ).bind(jobId).first<{ enriched: number | null; failed: number | null }>();
+
+    const enrichedCount = counts?.enriched || 0;
+    const failedCount = counts?.failed || 0;
+    return {
+        ...job,
+        status: job.status === 'dispatched' && enrichedCount + failedCount + job.skipped >= job.accepted ? 'complete' : job.status,
+        enriched: enrichedCount,
+        failed: failedCount,
+        errors: JSON.parse(job.errors || '[]') as RowError[],
+    };
+}
@@ -0,0 +1,424 @@
+// -----------------------------------------------------------------------------
+// Copilot Chat: query planning, D1 retrieval and the grounded answer
+// -----------------------------------------------------------------------------
+
+import { analyticsOverview, AnalyticsOverview } from './analytics';
+import { Anomaly, ANOMALY_BANNER_HOURS, anomalyReports, describeAnomaly, listAnomalies } from './anomalies';
+import { AuthUser } from './auth';
+import { clusterBackend, listRankedIssues } from './clusters';
+import { appendTurn, ConversationTurn, historyContext } from './conversations';
+import { answerStats, countStats, reconcileAnswer } from './grounding';
+import { ACTIVE_STATES, CATEGORIES, CLOSED_STATES, ISSUE_STATES } from './issues';
+import { LLM, LLMChatResponse, llmFromEnv } from './llm';
+import { loadScoringPolicy } from './policy';
+import { parseQuerySpec, QUERY_SPEC_PARAMETERS, QuerySpec } from './query';
+import { DEFAULT_CONTEXT_TOKENS, fitToBudget, retrieveFeedback, SemanticSearch } from './retrieval';
+import { extractJsonObject, generateStructured, OutputSchema, recordOutputMetric } from './structured';
+import { ScoringPolicy } from './scoring';
+
+export type ChatIntent =
+    | { intent: 'query_feedback'; params: QuerySpec }
+    | { intent: 'summary'; params: SummaryParams }
+    | { intent: 'anomalies'; params: { since_hours: number } }
+    | { intent: 'top_issues'; params: { category?: string } }
+    | { intent: 'issue_drilldown'; params: { id: string } }
+    | { intent: 'assigned_to_me'; params: {} }
+    | { intent: 'help'; params: {} };
+
+export type SummaryParams = { since_hours: number; category?: string[]; source?: string[] };
+
+// A summary with no window covers the past week
+const DEFAULT_SUMMARY_HOURS = 168;
+// Highest-gravity reports sent alongside a summary's aggregates, for examples and citations
+const SUMMARY_ROWS = 10;
+
+// Progress callback for streaming: intent, rows, token and final events
+export type ChatEmitter = (event: 'intent' | 'rows' | 'token' | 'final', data: unknown) => void | Promise<void>;
+
+const PLANNER_PROMPT = `You are the query planner for a Product Feedback Copilot.
+Read the user's message and call exactly ONE of the provided tools. Do not answer the question yourself.
+Tools:
+- query_feedback: list or filter individual feedback. Use it for bugs, searches, sources, time windows, sentiment and gravity filters. Combine as many filters as the user asks for.
+- summary: summaries, overviews, trends, volumes and counts over a time window ("weekly summary", "how many bugs this month?").
+- anomalies: anything unusual, spikes, sudden changes or drops in sentiment ("anything unusual today?").
+- top_issues: highest priority/highest pull/most urgent issues, or "show me everything".
+- issue_drilldown: details/analysis for one specific issue id (UUID).
+- assigned_to_me: what's assigned to me/my issues/my queue.
+- help: capabilities, greetings, or anything ambiguous.
+query_feedback rules:
+- Time phrases become since_hours: today/last day/yesterday => 24, last 6 hours => 6, last 3 days => 72, this week/last week/past week => 168, last month => 720.
+- "recent bugs" with no window => category ["Bug"], since_hours 24.
+- Categories are exactly "Bug", "UX", "Feature", "Other". "crashes"/"broken" => Bug, "confusing"/"hard to use" => UX, "requests"/"wishes" => Feature.
+- Sentiment runs from -1 to 1: "negative"/"angry" => sentiment_max -0.3, "positive"/"happy" => sentiment_min 0.3, "below -0.5" => sentiment_max -0.5.
+- Topic words ("login", "checkout", "dark mode") go in terms. Do not put categories, sources or time phrases in terms.
+- Each term must appear in the text. Keep a multi-word topic as one term ("dark mode"); end a word with * to match its prefix ("export*").
+- sort: "newest"/"latest" => newest, "angriest"/"most negative" => most_negative; otherwise leave it out.
+- Only closed work (resolved, wont_fix) or snoozed work needs status; leave it out for open work.
+summary rules:
+- Time phrases become since_hours as above; leave it out for no window (a week).
+- category and source only when the user limits the summary to them.
+anomalies rules:
+- Time phrases become since_hours as above; leave it out for today.
+Follow-ups:
+- CONVERSATION_HISTORY, when present, lists earlier turns with numbered result_ids.
+- "the second one"/"drill into #3"/"that issue" => issue_drilldown with id copied from the latest turn's result_ids at that position.
+- Narrowing the previous results ("only the mobile ones", "just the crashes") => query_feedback with within_previous true plus the new filters.
+- A new, self-contained question ignores the history.`;
+
+const PLANNER_TOOLS = [
+    {
+        name: 'query_feedback',
+        description: 'Filter and sort individual feedback reports.',
+        parameters: {
+            ...QUERY_SPEC_PARAMETERS,
+            properties: {
+                ...QUERY_SPEC_PARAMETERS.properties,
+                within_previous: { type: 'boolean', description: "Only search the previous answer's results" },
+            },
+        },
+    },
+    {
+        name: 'summary',
+        description: 'Counts, trends and breakdowns of feedback over a time window.',
+        parameters: {
+            type: 'object',
+            properties: {
+                since_hours: QUERY_SPEC_PARAMETERS.properties.since_hours,
+                category: QUERY_SPEC_PARAMETERS.properties.category,
+                source: QUERY_SPEC_PARAMETERS.properties.source,
+            },
+        },
+    },
+    {
+        name: 'anomalies',
+        description: 'Volume spikes and sentiment drops flagged by the anomaly job.',
+        parameters: { type: 'object', properties: { since_hours: QUERY_SPEC_PARAMETERS.properties.since_hours } },
+    },
+    {
+        name: 'top_issues',
+        description: 'Highest-gravity open issues, optionally for one category.',
+        parameters: { type: 'object', properties: { category: { type: 'string', enum: CATEGORIES } } },
+    },
+    {
+        name: 'issue_drilldown',
+        description: 'One issue in detail.',
+        parameters: { type: 'object', properties: { id: { type: 'string', description: 'Feedback or issue id' } }, required: ['id'] },
+    },
+    {
+        name: 'assigned_to_me',
+        description: "Open issues assigned to the current user.",
+        parameters: { type: 'object', properties: {} },
+    },
+    {
+        name: 'help',
+        description: 'Explain what the copilot can do.',
+        parameters: { type: 'object', properties: {} },
+    },
+];
+
+function answerPrompt(policy: ScoringPolicy) {
+    return `You are a Product Feedback Copilot used by PMs.
+Return ONLY valid JSON that matches the schema exactly. Do not include markdown, tables, or extra keys.
+
+Schema:
+{
+  "summary": {
+    "headline": string,
+    "details": string,
+    "stats": [
+      {"label": string, "value": string}
+    ],
+    "citations": [string]
+  },
+  "top_issues": [
+    {
+      "rank": number,
+      "id": string,
+      "pull": number,
+      "heat": "High"|"Medium"|"Low",
+      "category": "Bug"|"UX"|"Feature"|"Other",
+      "source": string,
+      "title": string,
+      "one_liner": string,
+      "next_step": string
+    }
+  ],
+  "patterns": [
+    {"label": string, "evidence": string, "citations": [string]}
+  ],
+  "follow_up_question": string
+}
+
+Rules:
+- Output JSON only.
+- Use ONLY the provided TOOL_DATA. Never invent ids or issues.
+- Cite your evidence with TOOL_DATA ids: summary.citations lists the ids the headline and details rely on, and each pattern's citations lists the ids that show it. Every top_issues id must be a TOOL_DATA id.
+- ANALYTICS, when present, holds counts and trends computed from the database for the whole window. Take every number in summary (totals, breakdowns, sentiment, time to close, week-over-week changes) from ANALYTICS; never count TOOL_DATA rows yourself. TOOL_DATA then holds the highest-gravity reports in the window, for top_issues and citations.
+- ANOMALIES, when present, lists volume spikes and sentiment drops the anomaly job flagged, each with its baseline. Describe each one in summary.details with its numbers, and use TOOL_DATA (recent reports behind them) for top_issues and citations. If ANOMALIES is empty, summary.headline='Nothing unusual detected' instead of the empty TOOL_DATA answer below.
+- RETRIEVAL, when present, says how many rows matched and how many fit in TOOL_DATA. Mention the total when rows were left out.
+- If TOOL_DATA contains a single issue (issue_drilldown):
+  - summary: Provide a concise "Impact Analysis" and "Recommended Next Steps".
+  - top_issues: Return the single issue with enhanced next_step.
+  - patterns: List specific keywords or entities from this issue.
+  - follow_up_question="Show similar issues"
+- If TOOL_DATA contains items, you MUST include them in "top_issues". Do not filter them out unless they are completely irrelevant.
+- If TOOL_DATA is strictly empty (array length 0), ONLY THEN return:
+  summary.headline='No matching feedback found'
+  top_issues=[]
+  patterns=[]
+  follow_up_question="Show me all feedback"
+- follow_up_question MUST be a valid, executable query string (e.g. "Show me bugs", "Summarize last 7 days", "High priority issues").
+- follow_up_question MUST NOT be a conversational question to the user (e.g. "Would you like to...", "Please specify...").
+- VARY the follow_up_question based on the returned data. Do not always ask for bugs.
+  - If showing bugs -> suggest "Show me features" or "Weekly summary"
+  - If showing summary -> suggest "Show critical issues"
+  - If showing widespread issues -> suggest "Drill down into issue <ID>"
+- title must be short (max 8 words).
+- one_liner max 18 words.
+- next_step max 12 words, action verb first.
+- heat must be derived from pull:
+  pull >= ${policy.heatBands.high} => High
+  pull >= ${policy.heatBands.medium} => Medium
+  else => Low
+- stats should include: total_items, bug_count, ux_count, feature_count (as strings).
+- Rows with report_count > 1 are clusters of similar reports; mention the volume in one_liner.
+- CONVERSATION_HISTORY, when present, only explains what the user is following up on. Facts still come from TOOL_DATA alone.`;
+}
+
+const ANSWER_SCHEMA: OutputSchema = {
+    summary: {
+        type: 'object', required: true, fields: {
+            headline: { type: 'string', required: true, maxLength: 200, truncate: true },
+            details: { type: 'string', maxLength: 4000, truncate: true },
+            stats: { type: 'array', items: { type: 'object', fields: { label: { type: 'string', required: true }, value: { type: 'string', required: true } } } },
+            citations: { type: 'array', items: { type: 'string' } },
+        }
+    },
+    top_issues: {
+        type: 'array', required: true, items: {
+            type: 'object', fields: {
+                rank: { type: 'number' },
+                id: { type: 'string', required: true },
+                pull: { type: 'number', min: 0, clamp: true },
+                heat: { type: 'string', oneOf: ['High', 'Medium', 'Low'] },
+                category: { type: 'string', oneOf: CATEGORIES },
+                source: { type: 'string' },
+                title: { type: 'string', maxLength: 120, truncate: true },
+                one_liner: { type: 'string', maxLength: 300, truncate: true },
+                next_step: { type: 'string', maxLength: 200, truncate: true },
+            }
+        }
+    },
+    patterns: {
+        type: 'array', items: {
+            type: 'object', fields: { label: { type: 'string', required: true }, evidence: { type: 'string' }, citations: { type: 'array', items: { type: 'string' } } }
+        }
+    },
+    follow_up_question: { type: 'string', maxLength: 200, truncate: true },
+};
+
+export function chatErrorAnswer(headline: string, details: string, followUp: string) {
+    return {
+        summary: { headline, details, stats: [] },
+        top_issues: [], patterns: [], follow_up_question: followUp
+    };
+}
+
+// Ids shown by the latest turn that returned any, for positional and narrowing follow-ups
+function lastResultIds(history: ConversationTurn[]): string[] {
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (history[i].result_ids.length) return history[i].result_ids;
+    }
+    return [];
+}
+
+// The tool call, from native function calling or from a JSON object the model wrote as text instead
+function readToolCall(resp: LLMChatResponse): { name: string; args: any } | null {
+    const call = resp.toolCalls[0];
+    if (call?.name) return { name: call.name, args: call.arguments };
+    if (!resp.text) return null;
+    const parsed = extractJsonObject(resp.text);
+    return parsed?.name ? { name: parsed.name, args: parsed.arguments ?? parsed.parameters } : null;
+}
+
+// Validates the model's tool call into a ChatIntent; anything unrecognised becomes help
+export function planFromToolCall(name: string, args: any, history: ConversationTurn[] = []): ChatIntent {
+    const input = args && typeof args === 'object' ? args : {};
+
+    if (name === 'query_feedback') {
+        const spec = parseQuerySpec(input);
+        if (input.within_previous === true) spec.ids = lastResultIds(history);
+        return { intent: 'query_feedback', params: spec };
+    }
+    if (name === 'summary') {
+        const { since_hours, category, source } = parseQuerySpec(input);
+        return { intent: 'summary', params: { since_hours: since_hours ?? DEFAULT_SUMMARY_HOURS, ...(category ? { category } : {}), ...(source ? { source } : {}) } };
+    }
+    if (name === 'anomalies') {
+        const { since_hours } = parseQuerySpec(input);
+        return { intent: 'anomalies', params: { since_hours: since_hours ?? ANOMALY_BANNER_HOURS } };
+    }
+    if (name === 'top_issues') {
+        const category = CATEGORIES.find(c => c.toLowerCase() === String(input.category ?? '').toLowerCase());
+        return { intent: 'top_issues', params: category ? { category } : {} };
+    }
+    if (name === 'issue_drilldown') {
+        let id = String(input.id ?? '').trim();
+        // The planner sometimes answers "the second one" with the position instead of the id
+        const position = id.match(/^#?(\d{1,2})$/);
+        if (position) id = lastResultIds(history)[Number(position[1]) - 1] || '';
+        return { intent: 'issue_drilldown', params: { id } };
+    }
+    if (name === 'assigned_to_me') return { intent: 'assigned_to_me', params: {} };
+    return { intent: 'help', params: {} };
+}
+
+// Step 1: Query Planning
+export async function resolveIntent(llm: LLM, db: D1Database, query: string, history: ConversationTurn[] = []): Promise<ChatIntent> {
+    const planResp = await llm.chat('routing', {
+        messages: [
+            { role: 'system', content: PLANNER_PROMPT },
+            { role: 'user', content: history.length ? `CONVERSATION_HISTORY:\n${historyContext(history)}\n\nUSER_MESSAGE: ${query}` : query }
+        ],
+        tools: PLANNER_TOOLS
+    });
+
+    try {
+        const call = readToolCall(planResp);
+        if (call) {
+            await recordOutputMetric(db, 'query_plan', 'ok');
+            return planFromToolCall(call.name, call.args, history);
+        }
+        await recordOutputMetric(db, 'query_plan', 'failed', 'no tool call in reply');
+    } catch (e: any) {
+        console.error("Query planning failed:", e);
+        await recordOutputMetric(db, 'query_plan', 'failed', String(e.message).slice(0, 500));
+    }
+    // strict default
+    return { intent: 'help', params: {} };
+}
+
+// Step 2: D1 Querying (and the report index, for topic questions when one is available)
+export async function fetchIntentRows(db: D1Database, intentData: ChatIntent, user: AuthUser, semantic: SemanticSearch | null = null): Promise<any[]> {
+    if (intentData.intent === 'query_feedback') {
+        return retrieveFeedback(db, intentData.params, semantic);
+    }
+    if (intentData.intent === 'summary') {
+        return retrieveFeedback(db, { ...intentData.params, sort: 'gravity', limit: SUMMARY_ROWS }, null);
+    }
+    if (intentData.intent === 'anomalies') {
+        return anomalyReports(db, await recentAnomalies(db, intentData.params.since_hours));
+    }
+    if (intentData.intent === 'top_issues') {
+        return listRankedIssues(db, { states: ACTIVE_STATES, category: intentData.params.category });
+    }
+    if (intentData.intent === 'assigned_to_me') {
+        return listRankedIssues(db, {
+            states: ISSUE_STATES.filter(s => !CLOSED_STATES.includes(s)),
+            assignee: user.email.toLowerCase()
+        });
+    }
+    if (intentData.intent === 'issue_drilldown') {
+        const id = intentData.params.id;
+        if (!id) return [];
+        // Accepts a feedback id or an issue id (resolved to the issue's lead report)
+        const result = await db.prepare(
+            `SELECT * FROM feedback WHERE id = ?1 OR id = (SELECT lead_feedback_id FROM issues WHERE id = ?1) LIMIT 1`
+        ).bind(id).first();
+        return result ? [result] : [];
+    }
+    return [];
+}
+
+// The analytics overview for a summary's window, computed in SQL rather than by the model
+async function summaryAnalytics(db: D1Database, params: SummaryParams, now = new Date()): Promise<AnalyticsOverview> {
+    return analyticsOverview(db, {
+        since: new Date(now.getTime() - params.since_hours * 3600 * 1000).toISOString(),
+        until: now.toISOString(),
+        category: params.category,
+        source: params.source,
+    });
+}
+
+// Anomalies flagged within the last `hours`
+async function recentAnomalies(db: D1Database, hours: number, now = new Date()): Promise<Anomaly[]> {
+    return listAnomalies(db, { since: new Date(now.getTime() - hours * 3600 * 1000).toISOString() });
+}
+
+/**
+ * Runs the full pipeline. With an emitter, each stage is reported as it
+ * completes and the answer is streamed token by token; without one it is a
+ * single blocking call. Either way the parsed answer is returned.
+ *
+ * With a conversation, its recent turns inform the router and the answer,
+ * and this turn is saved before the final answer is returned.
+ *
+ * Only as many rows as fit in CHAT_CONTEXT_TOKENS are sent to the model.
+ * A parsed answer is then reconciled with those rows, so ids, pull, heat,
+ * category, source and stats come from D1, and the answer carries a
+ * `grounding` report of what was dropped or corrected.
+ */
+export async function answerChat(env: Env, query: string, user: AuthUser, emit?: ChatEmitter, conversation?: { id: string; history: ConversationTurn[] }) {
+    const llm = llmFromEnv(env);
+    const history = conversation?.history || [];
+    const intentData = await resolveIntent(llm, env.FEEDBACK_DB, query, history);
+    await emit?.('intent', intentData);
+
+    const { embedder, reports } = clusterBackend(env);
+    const results = await fetchIntentRows(env.FEEDBACK_DB, intentData, user, reports ? { embedder, index: reports } : null);
+    const context = fitToBudget(results, Number(env.CHAT_CONTEXT_TOKENS) || DEFAULT_CONTEXT_TOKENS);
+    await emit?.('rows', { intent: intentData.intent, count: context.rows.length, matched: context.matched });
+
+    // Step 3: Grounded Answer
+    const policy = await loadScoringPolicy(env.FEEDBACK_DB);
+    const analytics = intentData.intent === 'summary' ? await summaryAnalytics(env.FEEDBACK_DB, intentData.params) : null;
+    const anomalies = intentData.intent === 'anomalies'
+        ? (await recentAnomalies(env.FEEDBACK_DB, intentData.params.since_hours)).map(a => ({
+            summary: describeAnomaly(a), kind: a.kind, dimension: a.dimension, subject: a.subject, score: a.score, reports: a.reports,
+        }))
+        : null;
+    const retrieval = context.truncated ? `RETRIEVAL: ${context.matched} rows matched; the ${context.rows.length} most relevant fit in TOOL_DATA\n` : '';
+    // Streams the first attempt; a repair after invalid output is a plain call
+    const result = await generateStructured<any>(llm, env.FEEDBACK_DB, {
+        task: 'chat_answer',
+        aiTask: 'answering',
+        messages: [
+            { role: 'system', content: answerPrompt(policy) },
+            {
+                role: 'user',
+                content: `${history.length ? `CONVERSATION_HISTORY:\n${historyContext(history)}\n` : ''}USER_QUESTION: ${query}\n${analytics ? `ANALYTICS: ${JSON.stringify(analytics)}\n` : ''}${anomalies ? `ANOMALIES: ${JSON.stringify(anomalies)}\n` : ''}${retrieval}TOOL_DATA: ${JSON.stringify(context.rows)}\nNOW_ISO: ${new Date().toISOString()}`
+            }
+        ],
+        maxTokens: 2500,
+        schema: ANSWER_SCHEMA,
+        repairs: 1,
+        onToken: emit ? token => emit('token', { text: token }) : undefined
+    });
+    const answer: any = result.ok
+        ? result.value
+        : chatErrorAnswer("Error analyzing data", "The AI returned an invalid format.", "Try a simpler query.");
+
+    if (result.ok) {
+        // A summary's stats are the window's totals rather than counts of the example rows
+        const stats = analytics ? countStats(analytics.total, analytics.by_category) : answerStats(results);
+        const grounding = reconcileAnswer(answer, context.rows, results, policy, stats);
+        answer.grounding = grounding;
+        const unknown = [...grounding.dropped_issues, ...grounding.unverified_citations];
+        if (unknown.length) await recordOutputMetric(env.FEEDBACK_DB, 'chat_grounding', 'failed', `ids not in TOOL_DATA: ${unknown.join(', ')}`.slice(0, 500));
+        else await recordOutputMetric(env.FEEDBACK_DB, 'chat_grounding', grounding.corrections.length ? 'repaired' : 'ok');
+    }
+
+    // Positions follow the cards the user saw, so "the second one" resolves to the second card
+    const shown = Array.isArray(answer.top_issues) ? answer.top_issues.map((i: any) => String(i.id)) : [];
+    const resultIds = shown.length ? shown : context.rows.map(r => String(r.id));
+
+    if (conversation) {
+        await appendTurn(env.FEEDBACK_DB, conversation.id, {
+            query, intent: intentData.intent, params: intentData.params,
+            result_ids: resultIds, answer
+        });
+        answer.conversation_id = conversation.id;
+    }
+    await emit?.('final', answer);
+    return answer;
+}
@@ -0,0 +1,146 @@
+// -----------------------------------------------------------------------------
+// Issue Clustering: groups semantically similar feedback into issues
+// -----------------------------------------------------------------------------
+
+import { ACTIVE_STATUS_SQL, IssueState } from './issues';
+import { hashEmbedding, LLM, llmFromEnv } from './llm';
+
+// Cosine similarity above which a new report is attached to an existing issue
+export const CLUSTER_MATCH_THRESHOLD = 0.82;
+
+export interface Embedder {
+    // Recorded on each indexed report, so vectors from an old model can be found after a switch
+    model: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export type VectorMatch = { id: string; score: number };
+
+export interface VectorIndex {
+    query(vector: number[], topK: number): Promise<VectorMatch[]>;
+    upsert(items: { id: string; values: number[] }[]): Promise<void>;
+}
+
+/**
+ * `index` holds one vector per issue for clustering. `reports` holds one
+ * per feedback row for semantic retrieval; it is null when the
+ * REPORT_INDEX binding is missing, and chat then falls back to keywords.
+ */
+export type ClusterBackend = { embedder: Embedder; index: VectorIndex; reports: VectorIndex | null };
+
+// Embeds with whichever model the LLM configuration assigns to the embedding task
+export function createLLMEmbedder(llm: LLM): Embedder {
+    return {
+        model: llm.model('embedding'),
+        embed: texts => llm.embed(texts)
+    };
+}
+
+export function createVectorizeIndex(binding: Vectorize): VectorIndex {
+    return {
+        async query(vector, topK) {
+            const res = await binding.query(vector, { topK });
+            return res.matches.map(m => ({ id: m.id, score: m.score }));
+        },
+        async upsert(items) {
+            await binding.upsert(items);
+        }
+    };
+}
+
+// Deterministic bag-of-words embedder for local runs and tests (no AI binding needed)
+export function createHashingEmbedder(dims = 256): Embedder {
+    return {
+        model: `hash-${dims}`,
+        async embed(texts) {
+            return texts.map(text => hashEmbedding(text, dims));
+        }
+    };
+}
+
+export function createInMemoryVectorIndex(): VectorIndex {
+    const vectors = new Map<string, number[]>();
+    return {
+        async query(vector, topK) {
+            return [...vectors.entries()]
+                .map(([id, values]) => ({ id, score: cosineSimilarity(vector, values) }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, topK);
+        },
+        async upsert(items) {
+            for (const item of items) vectors.set(item.id, item.values);
+        }
+    };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (!normA || !normB) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// The in-memory stand-in lives for the lifetime of the isolate so that
+// successive workflow runs can match against each other.
+let localBackend: ClusterBackend | null = null;
+
+export function clusterBackend(env: Env): ClusterBackend {
+    if (env.VECTOR_BACKEND === 'memory' || !env.FEEDBACK_INDEX) {
+        if (!localBackend) {
+            localBackend = { embedder: createHashingEmbedder(), index: createInMemoryVectorIndex(), reports: createInMemoryVectorIndex() };
+        }
+        return localBackend;
+    }
+    return {
+        embedder: createLLMEmbedder(llmFromEnv(env)),
+        index: createVectorizeIndex(env.FEEDBACK_INDEX),
+        reports: env.REPORT_INDEX ? createVectorizeIndex(env.REPORT_INDEX) : null
+    };
+}
+
+/**
+ * Finds the best active issue for an embedding. Vector matches are re-checked
+ * against D1 so closed or snoozed issues never absorb new reports.
+ */
+export async function findMatchingIssue(db: D1Database, index: VectorIndex, vector: number[]): Promise<string | null> {
+    const candidates = (await index.query(vector, 5)).filter(m => m.score >= CLUSTER_MATCH_THRESHOLD);
+    if (candidates.length === 0) return null;
+
+    const placeholders = candidates.map(() => '?').join(', ');
+    const { results } = await db.prepare(
+        `SELECT id FROM issues WHERE status IN ${ACTIVE_STATUS_SQL} AND id IN (${placeholders})`
+    ).bind(...candidates.map(c => c.id)).all<{ id: string }>();
+
+    const open = new Set(results.map(r => r.id));
+    const best = candidates.find(c => open.has(c.id));
+    return best ? best.id : null;
+}
+
+/**
+ * Ranked issue clusters, each represented by its lead feedback row so the
+ * existing card and drill-down UIs keep working on feedback ids.
+ */
+export async function listRankedIssues(db: D1Database, opts: { states?: IssueState[]; assignee?: string; since?: string; category?: string; limit?: number } = {}) {
+    const where: string[] = [`i.status != 'merged'`];
+    const binds: any[] = [];
+    if (opts.states) {
+        where.push(`i.status IN (${opts.states.map(() => '?').join(', ')})`);
+        binds.push(...opts.states);
+    }
+    if (opts.assignee) { where.push(`i.assignee = ?`); binds.push(opts.assignee); }
+    if (opts.since) { where.push(`i.updated_at >= ?`); binds.push(opts.since); }
+    if (opts.category) { where.push(`i.category = ?`); binds.push(opts.category); }
+
+    const { results } = await db.prepare(
+        `SELECT f.id, f.source, f.content, f.sentiment, f.category, f.explanation, f.created_at,
+                i.id AS issue_id, i.status, i.assignee, i.snoozed_until, i.report_count, i.gravity_score
+         FROM issues i JOIN feedback f ON f.id = i.lead_feedback_id
+         WHERE ${where.join(' AND ')}
+         ORDER BY i.gravity_score DESC, i.updated_at DESC LIMIT ?`
+    ).bind(...binds, opts.limit ?? 25).all();
+    return results;
+}
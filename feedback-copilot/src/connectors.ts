@@ -0,0 +1,218 @@
+// -----------------------------------------------------------------------------
+// Connectors: native provider webhooks mapped onto FeedbackEvents
+// -----------------------------------------------------------------------------
+
+import { timingSafeEqual } from './auth';
+import { FeedbackEvent } from './types';
+import { MAX_CONTENT_LENGTH } from './validation';
+
+export const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
+
+// Zendesk signs a timestamp; older deliveries are treated as replays
+const ZENDESK_MAX_SKEW_MS = 5 * 60 * 1000;
+
+export type ConnectorProvider = 'zendesk' | 'intercom' | 'github' | 'appstore';
+
+// Payloads that are valid but carry no feedback (pings, bot comments, …) are ignored
+export type ConnectorResult = { event: FeedbackEvent } | { ignored: string };
+
+type Connector = {
+    verify(request: Request, body: string, secret: string): Promise<boolean>;
+    map(payload: any, request: Request): ConnectorResult;
+};
+
+export async function hmac(algorithm: 'SHA-256' | 'SHA-1', secret: string, message: string): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: algorithm }, false, ['sign']);
+    return new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+}
+
+export function toHex(bytes: Uint8Array): string {
+    return [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+// Verifies "<prefix><hex digest>" headers such as GitHub's "sha256=…"
+async function verifyHexHeader(header: string | null, prefix: string, algorithm: 'SHA-256' | 'SHA-1', secret: string, body: string) {
+    if (!header?.startsWith(prefix)) return false;
+    return timingSafeEqual(header.slice(prefix.length).toLowerCase(), toHex(await hmac(algorithm, secret, body)));
+}
+
+function stripHtml(html: string): string {
+    return html
+        .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&')
+        .replace(/[ \t]+/g, ' ')
+        .trim();
+}
+
+// Title and body are joined unless the body already repeats the title
+function joinText(title: unknown, body: unknown): string {
+    const t = String(title ?? '').trim();
+    const b = String(body ?? '').trim();
+    const text = !t || b.startsWith(t) ? b : b ? `${t}\n\n${b}` : t;
+    return text.slice(0, MAX_CONTENT_LENGTH);
+}
+
+function isoDate(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    // Intercom sends unix seconds
+    const date = typeof value === 'number' ? new Date(value * 1000) : new Date(String(value));
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function feedback(source: string, text: string, fields: { externalId: string; author?: unknown; url?: unknown; createdAt?: unknown }): ConnectorResult {
+    if (!text) return { ignored: 'no text in payload' };
+    return {
+        event: {
+            source,
+            content: text,
+            created_at: isoDate(fields.createdAt) || new Date().toISOString(),
+            external_id: fields.externalId,
+            author: fields.author ? String(fields.author) : undefined,
+            url: fields.url ? String(fields.url) : undefined,
+        }
+    };
+}
+
+/**
+ * Zendesk: either an event webhook ({ type, detail }) or a trigger webhook
+ * whose JSON body is { "ticket": { id, subject, description, url, requester } }.
+ * Signed as base64(HMAC-SHA256(timestamp + body)).
+ */
+const zendesk: Connector = {
+    async verify(request, body, secret) {
+        const signature = request.headers.get('X-Zendesk-Webhook-Signature');
+        const timestamp = request.headers.get('X-Zendesk-Webhook-Signature-Timestamp');
+        if (!signature || !timestamp) return false;
+        const sentAt = Date.parse(timestamp);
+        if (isNaN(sentAt) || Math.abs(Date.now() - sentAt) > ZENDESK_MAX_SKEW_MS) return false;
+        return timingSafeEqual(signature, toBase64(await hmac('SHA-256', secret, timestamp + body)));
+    },
+    map(payload) {
+        if (payload.detail) {
+            if (!String(payload.type || '').endsWith('ticket.created')) return { ignored: `event ${payload.type}` };
+            const ticket = payload.detail;
+            return feedback('zendesk', joinText(ticket.subject, ticket.description), {
+                externalId: `ticket:${ticket.id}`, author: ticket.requester_id, createdAt: ticket.created_at
+            });
+        }
+
+        const ticket = payload.ticket;
+        if (!ticket?.id) return { ignored: 'no ticket in payload' };
+        const requester = typeof ticket.requester === 'object' ? ticket.requester?.email || ticket.requester?.name : ticket.requester;
+        return feedback('zendesk', joinText(ticket.subject, ticket.description), {
+            externalId: `ticket:${ticket.id}`, author: requester, url: ticket.url, createdAt: ticket.created_at
+        });
+    }
+};
+
+/**
+ * Intercom: conversation.user.created and conversation.user.replied topics.
+ * Signed as "sha1=" + hex(HMAC-SHA1(body)) with the app's client secret.
+ */
+const intercom: Connector = {
+    verify(request, body, secret) {
+        return verifyHexHeader(request.headers.get('X-Hub-Signature'), 'sha1=', 'SHA-1', secret, body);
+    },
+    map(payload) {
+        const conversation = payload.data?.item;
+        if (!conversation?.id) return { ignored: `topic ${payload.topic}` };
+        const url = payload.app_id ? `https://app.intercom.com/a/apps/${payload.app_id}/conversations/${conversation.id}` : undefined;
+
+        if (payload.topic === 'conversation.user.created') {
+            const message = conversation.source || {};
+            return feedback('intercom', joinText(message.subject && stripHtml(message.subject), stripHtml(message.body || '')), {
+                externalId: `conversation:${conversation.id}`, author: message.author?.email || message.author?.name, url, createdAt: conversation.created_at
+            });
+        }
+        if (payload.topic === 'conversation.user.replied') {
+            const parts: any[] = conversation.conversation_parts?.conversation_parts || [];
+            const reply = [...parts].reverse().find(p => p.part_type === 'comment' && p.author?.type === 'user');
+            if (!reply) return { ignored: 'no user reply in payload' };
+            return feedback('intercom', joinText('', stripHtml(reply.body || '')), {
+                externalId: `part:${reply.id}`, author: reply.author?.email || reply.author?.name, url, createdAt: reply.created_at
+            });
+        }
+        return { ignored: `topic ${payload.topic}` };
+    }
+};
+
+/**
+ * GitHub: issues (opened, edited) and issue_comment (created, edited) events.
+ * Edits reuse the external id, so the stored row is updated in place.
+ */
+const github: Connector = {
+    verify(request, body, secret) {
+        return verifyHexHeader(request.headers.get('X-Hub-Signature-256'), 'sha256=', 'SHA-256', secret, body);
+    },
+    map(payload, request) {
+        const event = request.headers.get('X-GitHub-Event');
+        const action = payload.action;
+
+        if (event === 'issues' && (action === 'opened' || action === 'edited')) {
+            const issue = payload.issue;
+            if (!issue) return { ignored: 'malformed payload' };
+            if (issue.user?.type === 'Bot') return { ignored: 'bot author' };
+            return feedback('github', joinText(issue.title, issue.body), {
+                externalId: `issue:${issue.id}`, author: issue.user?.login, url: issue.html_url, createdAt: issue.created_at
+            });
+        }
+        if (event === 'issue_comment' && (action === 'created' || action === 'edited')) {
+            const comment = payload.comment;
+            if (!comment) return { ignored: 'malformed payload' };
+            if (payload.issue?.pull_request) return { ignored: 'pull request comment' };
+            if (comment.user?.type === 'Bot') return { ignored: 'bot author' };
+            return feedback('github', joinText('', comment.body), {
+                externalId: `comment:${comment.id}`, author: comment.user?.login, url: comment.html_url, createdAt: comment.created_at
+            });
+        }
+        return { ignored: `event ${event}${action ? `.${action}` : ''}` };
+    }
+};
+
+/**
+ * App-store reviews forwarded by a review poller or aggregator as
+ * { store: "apple" | "google", review: { id, title, body, rating, author, url, created_at } }.
+ * Signed as "sha256=" + hex(HMAC-SHA256(body)) in X-Signature.
+ */
+const appstore: Connector = {
+    verify(request, body, secret) {
+        return verifyHexHeader(request.headers.get('X-Signature'), 'sha256=', 'SHA-256', secret, body);
+    },
+    map(payload) {
+        const review = payload.review;
+        if (!review?.id) return { ignored: 'no review in payload' };
+        const source = payload.store === 'google' ? 'google-play' : 'app-store';
+        const rating = Number(review.rating);
+        // The star rating is kept in the text so enrichment can weigh it
+        const body = Number.isFinite(rating) ? `${String(review.body ?? '').trim()}\n\nRating: ${rating}/5` : review.body;
+        return feedback(source, joinText(review.title, body), {
+            externalId: `review:${review.id}`, author: review.author, url: review.url, createdAt: review.created_at
+        });
+    }
+};
+
+export const CONNECTORS: Record<ConnectorProvider, Connector> = { zendesk, intercom, github, appstore };
+
+export function isConnectorProvider(value: string): value is ConnectorProvider {
+    return Object.prototype.hasOwnProperty.call(CONNECTORS, value);
+}
+
+/**
+ * Reads the provider's signing secret from CONNECTOR_SECRETS, a JSON map of
+ * provider name to HMAC secret. Unconfigured providers return null.
+ */
+export function connectorSecret(env: Env, provider: ConnectorProvider): string | null {
+    if (!env.CONNECTOR_SECRETS) return null;
+    try {
+        const secrets = JSON.parse(env.CONNECTOR_SECRETS);
+        return typeof secrets[provider] === 'string' && secrets[provider] ? secrets[provider] : null;
+    } catch (e) {
+        console.error("CONNECTOR_SECRETS is not valid JSON:", e);
+        return null;
+    }
+}
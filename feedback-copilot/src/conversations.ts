@@ -0,0 +1,113 @@
+// -----------------------------------------------------------------------------
+// Conversations: per-user chat sessions that give follow-ups something to refer to
+// -----------------------------------------------------------------------------
+
+// Turns fed back to the intent router and answer prompt
+export const HISTORY_TURNS = 4;
+
+// Result ids remembered per turn, in the order they were shown
+const MAX_REMEMBERED_IDS = 25;
+
+const MAX_TITLE_LENGTH = 80;
+
+export type Conversation = {
+    id: string;
+    owner: string;
+    title: string;
+    created_at: string;
+    updated_at: string;
+};
+
+export type ConversationTurn = {
+    query: string;
+    intent: string;
+    params: Record<string, unknown> | null;
+    result_ids: string[];
+    answer: any;
+    created_at: string;
+};
+
+function parseTurn(row: any): ConversationTurn {
+    return {
+        query: row.query,
+        intent: row.intent,
+        params: row.params ? JSON.parse(row.params) : null,
+        result_ids: JSON.parse(row.result_ids),
+        answer: JSON.parse(row.answer),
+        created_at: row.created_at,
+    };
+}
+
+// Conversations are private to their owner: anyone else gets null, the same as a missing id
+export async function getConversation(db: D1Database, id: string, owner: string): Promise<Conversation | null> {
+    return db.prepare(`SELECT * FROM conversations WHERE id = ? AND owner = ?`).bind(id, owner).first<Conversation>();
+}
+
+export async function createConversation(db: D1Database, owner: string, firstQuery: string): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const title = firstQuery.length > MAX_TITLE_LENGTH ? `${firstQuery.slice(0, MAX_TITLE_LENGTH - 1)}…` : firstQuery;
+    const conversation: Conversation = { id: crypto.randomUUID(), owner, title, created_at: now, updated_at: now };
+    await db.prepare(
+        `INSERT INTO conversations (id, owner, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`
+    ).bind(conversation.id, owner, title, now, now).run();
+    return conversation;
+}
+
+export async function listConversations(db: D1Database, owner: string, limit = 50) {
+    const { results } = await db.prepare(
+        `SELECT c.id, c.title, c.created_at, c.updated_at,
+                (SELECT COUNT(*) FROM conversation_turns t WHERE t.conversation_id = c.id) AS turn_count
+         FROM conversations c WHERE c.owner = ? ORDER BY c.updated_at DESC LIMIT ?`
+    ).bind(owner, limit).all();
+    return results;
+}
+
+// Full transcript, oldest first, for resuming a conversation in the UI
+export async function listTurns(db: D1Database, conversationId: string): Promise<ConversationTurn[]> {
+    const { results } = await db.prepare(
+        `SELECT * FROM conversation_turns WHERE conversation_id = ? ORDER BY created_at ASC`
+    ).bind(conversationId).all();
+    return results.map(parseTurn);
+}
+
+// The most recent turns, oldest first
+export async function recentTurns(db: D1Database, conversationId: string, limit = HISTORY_TURNS): Promise<ConversationTurn[]> {
+    const { results } = await db.prepare(
+        `SELECT * FROM conversation_turns WHERE conversation_id = ? ORDER BY created_at DESC LIMIT ?`
+    ).bind(conversationId, limit).all();
+    return results.map(parseTurn).reverse();
+}
+
+export async function appendTurn(db: D1Database, conversationId: string, turn: Omit<ConversationTurn, 'created_at'>) {
+    const now = new Date().toISOString();
+    await db.batch([
+        db.prepare(
+            `INSERT INTO conversation_turns (id, conversation_id, query, intent, params, result_ids, answer, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ).bind(
+            crypto.randomUUID(), conversationId, turn.query, turn.intent, turn.params ? JSON.stringify(turn.params) : null,
+            JSON.stringify(turn.result_ids.slice(0, MAX_REMEMBERED_IDS)), JSON.stringify(turn.answer), now
+        ),
+        db.prepare(`UPDATE conversations SET updated_at = ? WHERE id = ?`).bind(now, conversationId),
+    ]);
+}
+
+export async function deleteConversation(db: D1Database, id: string, owner: string): Promise<boolean> {
+    const res = await db.prepare(`DELETE FROM conversations WHERE id = ? AND owner = ?`).bind(id, owner).run();
+    if (res.meta.changes === 0) return false;
+    await db.prepare(`DELETE FROM conversation_turns WHERE conversation_id = ?`).bind(id).run();
+    return true;
+}
+
+/**
+ * Compact history for prompts: each earlier question, its intent, the
+ * headline shown and the numbered result ids, so "the second one" can be
+ * resolved to an id.
+ */
+export function historyContext(turns: ConversationTurn[]): string {
+    return turns.map((turn, idx) => {
+        const ids = turn.result_ids.map((id, n) => `${n + 1}=${id}`).join(', ');
+        const headline = turn.answer?.summary?.headline || '';
+        return `Turn ${idx + 1}: USER: ${turn.query}\n  intent=${turn.intent}${turn.params ? ` params=${JSON.stringify(turn.params)}` : ''}\n  answer: ${headline}\n  result_ids: ${ids || '(none)'}`;
+    }).join('\n');
+}
@@ -0,0 +1,111 @@
+import { FeedbackEvent } from './types';
+
+// -----------------------------------------------------------------------------
+// Ingest Deduplication: idempotent workflow ids, external ids and repeats
+// -----------------------------------------------------------------------------
+
+// Same-source text seen again within this window counts as a repeat
+export const DEDUPE_WINDOW_HOURS = 24;
+
+export const MAX_EXTERNAL_ID_LENGTH = 256;
+
+export type DuplicateMatch =
+    // Same (source, external_id) already stored: an upstream retry or an edit
+    | { kind: 'external'; id: string; contentHash: string | null }
+    // Same normalized text from the same source within the window; a failed original still needs enriching
+    | { kind: 'repeat'; id: string; failed: boolean };
+
+async function sha256Hex(input: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Near-exact duplicates differ only in case, punctuation or whitespace
+export function normalizeContent(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+export function contentHash(text: string): Promise<string> {
+    return sha256Hex(normalizeContent(text));
+}
+
+/**
+ * Deterministic workflow instance id for an ingest, so a retried request with
+ * the same external id or Idempotency-Key maps onto the instance already running.
+ */
+export async function ingestInstanceId(source: string, key: string): Promise<string> {
+    return `ingest-${(await sha256Hex(`${source}\n${key}`)).slice(0, 40)}`;
+}
+
+/**
+ * Dedupe key for an item with an upstream id. The text is part of the key, so
+ * a retry of the same version maps onto its instance while an edit starts a
+ * new run that updates the stored row.
+ */
+export async function externalDedupeKey(externalId: string, content: string): Promise<string> {
+    return `external:${externalId}:${await contentHash(content)}`;
+}
+
+/**
+ * Starts the ingest workflow. With a dedupe key the instance id is fixed, and
+ * a key that already has an instance is reported as a duplicate, not an error.
+ */
+export async function startIngestWorkflow(workflow: Workflow, params: FeedbackEvent, dedupeKey: string | null): Promise<{ instanceId: string; duplicate: boolean }> {
+    if (!dedupeKey) {
+        const instance = await workflow.create({ params });
+        return { instanceId: instance.id, duplicate: false };
+    }
+
+    const instanceId = await ingestInstanceId(params.source, dedupeKey);
+    try {
+        await workflow.create({ id: instanceId, params });
+    } catch (e) {
+        // create() rejects ids that already exist; confirm that is why before reporting a duplicate
+        const existing = await workflow.get(instanceId).catch(() => null);
+        if (!existing) throw e;
+        return { instanceId, duplicate: true };
+    }
+    return { instanceId, duplicate: false };
+}
+
+export async function findDuplicate(db: D1Database, opts: { source: string; externalId?: string; hash: string; now: Date }): Promise<DuplicateMatch | null> {
+    if (opts.externalId) {
+        const existing = await db.prepare(
+            `SELECT id, content_hash FROM feedback WHERE source = ? AND external_id = ?`
+        ).bind(opts.source, opts.externalId).first<{ id: string; content_hash: string | null }>();
+        if (existing) return { kind: 'external', id: existing.id, contentHash: existing.content_hash };
+    }
+
+    const since = new Date(opts.now.getTime() - DEDUPE_WINDOW_HOURS * 3600 * 1000).toISOString();
+    const repeat = await db.prepare(
+        `SELECT id, enrichment_status FROM feedback WHERE source = ? AND content_hash = ? AND last_seen_at >= ? ORDER BY last_seen_at DESC LIMIT 1`
+    ).bind(opts.source, opts.hash, since).first<{ id: string; enrichment_status: string }>();
+    return repeat ? { kind: 'repeat', id: repeat.id, failed: repeat.enrichment_status === 'failed' } : null;
+}
+
+/**
+ * Records an ingest that did not become a new row: repeats bump the original
+ * row's counter, and bulk jobs count the item as done so progress completes.
+ */
+export async function recordSkipped(db: D1Database, match: DuplicateMatch, at: string, jobId?: string) {
+    const statements: D1PreparedStatement[] = [];
+    if (match.kind === 'repeat') {
+        statements.push(db.prepare(`UPDATE feedback SET repeat_count = repeat_count + 1, last_seen_at = ? WHERE id = ?`).bind(at, match.id));
+    }
+    if (jobId) statements.push(db.prepare(`UPDATE ingest_jobs SET skipped = skipped + 1 WHERE id = ?`).bind(jobId));
+    if (statements.length) await db.batch(statements);
+}
+
+/**
+ * A row stays with the bulk job that first stored it, so that job's counts do
+ * not change after they were reported. A later job that updates the row in
+ * place counts the item as skipped instead, so its own progress completes.
+ * Run before the update, while the row still shows which job it belongs to.
+ */
+export async function recordUpdateFromLaterJob(db: D1Database, feedbackId: string, jobId?: string) {
+    if (!jobId) return;
+    await db.prepare(
+        `UPDATE ingest_jobs SET skipped = skipped + 1
+         WHERE id = ? AND EXISTS (SELECT 1 FROM feedback WHERE id = ? AND job_id IS NOT NULL AND job_id <> ?)`
+    ).bind(jobId, feedbackId, jobId).run();
+}
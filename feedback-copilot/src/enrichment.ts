@@ -0,0 +1,134 @@
+// -----------------------------------------------------------------------------
+// Enrichment: the versioned analysis prompt and on-demand reprocessing
+// -----------------------------------------------------------------------------
+
+import { CATEGORIES } from './issues';
+import { LLM } from './llm';
+import { generateStructured, OutputSchema } from './structured';
+import { AnalysisResult, FeedbackEvent } from './types';
+
+// Bump whenever ENRICHMENT_PROMPT or ANALYSIS_SCHEMA changes, so older rows can be found and reprocessed
+export const ENRICHMENT_PROMPT_VERSION = 'enrich-1';
+
+export const MAX_REPROCESS_ROWS = 1000;
+
+// Workflow.createBatch accepts at most 100 instances per call
+const WORKFLOW_BATCH_SIZE = 100;
+
+const ENRICHMENT_PROMPT = `You analyze raw user feedback and return STRICT JSON only.
+Return exactly this schema:
+{ "sentiment": number, "category": "Bug" | "UX" | "Feature" | "Other", "explanation": string }
+Rules:
+- Output JSON only. No markdown.
+- sentiment must be between -1 and 1.
+- category:
+  - Bug: broken/errors/crashes/regressions/can't log in/failures
+  - UX: confusing UI/slow/hard to find/friction/unclear flow
+  - Feature: new capability/integration/API/export/filters
+  - Other: praise/general comments/pricing with no concrete ask
+- explanation: 1 sentence, max 18 words.
+- If both bug and feature request appear, choose Bug.
+- If mostly negative but not broken, choose UX.`;
+
+const ANALYSIS_SCHEMA: OutputSchema = {
+    sentiment: { type: 'number', required: true, min: -1, max: 1 },
+    category: { type: 'string', required: true, oneOf: CATEGORIES },
+    explanation: { type: 'string', required: true, maxLength: 200, truncate: true },
+};
+
+// Which model and prompt produced (or failed to produce) a row's analysis
+export type EnrichmentProvenance = { model: string; promptVersion: string };
+
+export type EnrichmentOutcome = EnrichmentProvenance & (
+    | { ok: true; analysis: AnalysisResult }
+    | { ok: false; error: string }
+);
+
+/**
+ * Analyzes one piece of feedback with the configured enrichment model.
+ * Replies are validated against ANALYSIS_SCHEMA with up to two repair
+ * attempts before giving up.
+ */
+export async function enrichFeedback(llm: LLM, db: D1Database, content: string): Promise<EnrichmentOutcome> {
+    const provenance = { model: llm.model('enrichment'), promptVersion: ENRICHMENT_PROMPT_VERSION };
+    const result = await generateStructured<AnalysisResult>(llm, db, {
+        task: 'enrichment',
+        aiTask: 'enrichment',
+        messages: [
+            { role: 'system', content: ENRICHMENT_PROMPT },
+            { role: 'user', content: content }
+        ],
+        schema: ANALYSIS_SCHEMA,
+        repairs: 2
+    });
+    return result.ok
+        ? { ...provenance, ok: true, analysis: result.value }
+        : { ...provenance, ok: false, error: result.errors.join('; ').slice(0, 500) };
+}
+
+/**
+ * Rows to re-enrich. Filters combine with AND. `prompt_version: null`
+ * selects rows enriched before versions were recorded, and `outdated`
+ * selects every row not produced by the current prompt version.
+ */
+export type ReprocessFilter = {
+    since?: string;
+    until?: string;
+    category?: string;
+    failed_only?: boolean;
+    prompt_version?: string | null;
+    outdated?: boolean;
+    limit?: number;
+};
+
+export function buildReprocessQuery(filter: ReprocessFilter): { sql: string; binds: (string | number)[] } {
+    const where: string[] = [];
+    const binds: (string | number)[] = [];
+
+    if (filter.since) { where.push(`created_at >= ?`); binds.push(filter.since); }
+    if (filter.until) { where.push(`created_at < ?`); binds.push(filter.until); }
+    if (filter.category) { where.push(`category = ?`); binds.push(filter.category); }
+    if (filter.failed_only) where.push(`enrichment_status = 'failed'`);
+    if (filter.prompt_version === null) {
+        where.push(`enrichment_prompt_version IS NULL`);
+    } else if (filter.prompt_version !== undefined) {
+        where.push(`enrichment_prompt_version = ?`);
+        binds.push(filter.prompt_version);
+    }
+    if (filter.outdated) {
+        where.push(`(enrichment_prompt_version IS NULL OR enrichment_prompt_version != ?)`);
+        binds.push(ENRICHMENT_PROMPT_VERSION);
+    }
+
+    binds.push(Math.min(Math.max(filter.limit ?? 100, 1), MAX_REPROCESS_ROWS));
+    return {
+        sql: `SELECT id, source, content, created_at FROM feedback ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY created_at DESC LIMIT ?`,
+        binds,
+    };
+}
+
+export async function findReprocessRows(db: D1Database, filter: ReprocessFilter) {
+    const { sql, binds } = buildReprocessQuery(filter);
+    const { results } = await db.prepare(sql).bind(...binds).all<{ id: string; source: string; content: string; created_at: string }>();
+    return results;
+}
+
+/**
+ * Starts one FeedbackWorkflow instance per row with `reprocess_id` set, so the
+ * workflow re-enriches and rescores the stored row in place. Returns how many
+ * started; batches that fail to start are logged and counted as not started.
+ */
+export async function startReprocessing(workflow: Workflow, rows: { id: string; source: string; content: string; created_at: string }[]) {
+    const events: FeedbackEvent[] = rows.map(r => ({ source: r.source, content: r.content, created_at: r.created_at, reprocess_id: r.id }));
+    let started = 0;
+    for (let i = 0; i < events.length; i += WORKFLOW_BATCH_SIZE) {
+        const batch = events.slice(i, i + WORKFLOW_BATCH_SIZE);
+        try {
+            await workflow.createBatch(batch.map(params => ({ params })));
+            started += batch.length;
+        } catch (e: any) {
+            console.error(`Reprocess batch at ${i} failed to start:`, e.message);
+        }
+    }
+    return started;
+}
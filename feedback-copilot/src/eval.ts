@@ -0,0 +1,234 @@
+// -----------------------------------------------------------------------------
+// Offline Evaluation: labelled datasets, per-class metrics and baseline checks
+// -----------------------------------------------------------------------------
+
+import { ChatIntent, resolveIntent } from './chat';
+import { ConversationTurn } from './conversations';
+import { ENRICHMENT_PROMPT_VERSION, enrichFeedback } from './enrichment';
+import { CATEGORIES } from './issues';
+import { LLM } from './llm';
+import { LabelledFeedback, SentimentSign } from './samples';
+
+export const SENTIMENT_SIGNS: SentimentSign[] = ['negative', 'neutral', 'positive'];
+
+export const INTENTS: ChatIntent['intent'][] = ['query_feedback', 'summary', 'anomalies', 'top_issues', 'issue_drilldown', 'assigned_to_me', 'help'];
+
+// Scores closer to zero than this count as neutral
+export const SENTIMENT_NEUTRAL_BAND = 0.2;
+
+// Feedback text → expected category and sentiment sign
+export type EnrichmentCase = LabelledFeedback;
+
+/**
+ * Query → expected intent. Only the `params` keys given are compared, so a
+ * case can pin down the filters that matter and ignore the rest. Follow-ups
+ * carry the earlier turns the router would see.
+ */
+export type RoutingCase = {
+    query: string;
+    intent: ChatIntent['intent'];
+    params?: Record<string, unknown>;
+    history?: { query: string; intent: string; result_ids: string[] }[];
+};
+
+export type EvalDataset = { enrichment: EnrichmentCase[]; routing: RoutingCase[] };
+
+export type ClassMetrics = { precision: number; recall: number; support: number };
+
+export type ClassificationReport = {
+    accuracy: number;
+    classes: Record<string, ClassMetrics>;
+    // confusion[expected][predicted]; predictions outside the labels (failed, error) get their own column
+    confusion: Record<string, Record<string, number>>;
+};
+
+export type EvalMiss = { task: 'enrichment' | 'routing'; input: string; expected: unknown; actual: unknown };
+
+export type EvalReport = {
+    provider: string;
+    models: { enrichment: string; routing: string };
+    prompt_version: string;
+    enrichment: { category: ClassificationReport; sentiment: ClassificationReport; failed: number };
+    routing: { intent: ClassificationReport; params_accuracy: number };
+    misses: EvalMiss[];
+};
+
+// Flattened metric name → minimum acceptable value
+export type EvalBaseline = Record<string, number>;
+
+export type EvalRegression = { metric: string; baseline: number; actual: number };
+
+export function sentimentSign(score: number): SentimentSign {
+    if (score <= -SENTIMENT_NEUTRAL_BAND) return 'negative';
+    if (score >= SENTIMENT_NEUTRAL_BAND) return 'positive';
+    return 'neutral';
+}
+
+const ratio = (n: number, d: number) => d ? Math.round((n / d) * 1000) / 1000 : 0;
+
+export function classificationReport(labels: readonly string[], pairs: { expected: string; predicted: string }[]): ClassificationReport {
+    const confusion: Record<string, Record<string, number>> = {};
+    for (const label of labels) confusion[label] = {};
+    for (const { expected, predicted } of pairs) {
+        confusion[expected] ??= {};
+        confusion[expected][predicted] = (confusion[expected][predicted] || 0) + 1;
+    }
+
+    const classes: Record<string, ClassMetrics> = {};
+    for (const label of labels) {
+        const truePositives = confusion[label][label] || 0;
+        const predicted = pairs.filter(p => p.predicted === label).length;
+        const support = pairs.filter(p => p.expected === label).length;
+        classes[label] = { precision: ratio(truePositives, predicted), recall: ratio(truePositives, support), support };
+    }
+
+    return { accuracy: ratio(pairs.filter(p => p.expected === p.predicted).length, pairs.length), classes, confusion };
+}
+
+// Lists compare as sets and strings case-insensitively; models reorder and recase freely
+function sameValue(expected: unknown, actual: unknown): boolean {
+    const norm = (v: unknown) => typeof v === 'string' ? v.trim().toLowerCase() : JSON.stringify(v);
+    if (Array.isArray(expected)) {
+        return Array.isArray(actual) && expected.length === actual.length &&
+            expected.map(norm).sort().join('\n') === actual.map(norm).sort().join('\n');
+    }
+    return norm(expected) === norm(actual);
+}
+
+export function paramsMatch(expected: Record<string, unknown>, actual: Record<string, unknown>): boolean {
+    return Object.entries(expected).every(([key, value]) => sameValue(value, actual[key]));
+}
+
+async function evaluateEnrichment(llm: LLM, db: D1Database, cases: EnrichmentCase[], misses: EvalMiss[]) {
+    const categories: { expected: string; predicted: string }[] = [];
+    const signs: { expected: string; predicted: string }[] = [];
+    let failed = 0;
+
+    for (const c of cases) {
+        let category = 'error';
+        let sign = 'error';
+        try {
+            const outcome = await enrichFeedback(llm, db, c.text);
+            if (outcome.ok) {
+                category = outcome.analysis.category;
+                sign = sentimentSign(outcome.analysis.sentiment);
+            } else {
+                category = sign = 'failed';
+                failed++;
+            }
+        } catch (e: any) {
+            console.error(`Enrichment eval call failed for "${c.text}":`, e.message);
+        }
+        categories.push({ expected: c.category, predicted: category });
+        signs.push({ expected: c.sentiment, predicted: sign });
+        if (category !== c.category || sign !== c.sentiment) {
+            misses.push({ task: 'enrichment', input: c.text, expected: { category: c.category, sentiment: c.sentiment }, actual: { category, sentiment: sign } });
+        }
+    }
+
+    return {
+        category: classificationReport(CATEGORIES, categories),
+        sentiment: classificationReport(SENTIMENT_SIGNS, signs),
+        failed,
+    };
+}
+
+async function evaluateRouting(llm: LLM, db: D1Database, cases: RoutingCase[], misses: EvalMiss[]) {
+    const intents: { expected: string; predicted: string }[] = [];
+    let withParams = 0;
+    let paramsCorrect = 0;
+
+    for (const c of cases) {
+        const history: ConversationTurn[] = (c.history || []).map(t => ({ ...t, params: null, answer: null, created_at: '' }));
+        let plan: { intent: string; params: Record<string, unknown> } = { intent: 'error', params: {} };
+        try {
+            plan = await resolveIntent(llm, db, c.query, history);
+        } catch (e: any) {
+            console.error(`Routing eval call failed for "${c.query}":`, e.message);
+        }
+
+        intents.push({ expected: c.intent, predicted: plan.intent });
+        const paramsOk = !c.params || (plan.intent === c.intent && paramsMatch(c.params, plan.params));
+        if (c.params) {
+            withParams++;
+            if (paramsOk) paramsCorrect++;
+        }
+        if (plan.intent !== c.intent || !paramsOk) {
+            misses.push({ task: 'routing', input: c.query, expected: { intent: c.intent, params: c.params }, actual: plan });
+        }
+    }
+
+    return { intent: classificationReport(INTENTS, intents), params_accuracy: ratio(paramsCorrect, withParams) };
+}
+
+/**
+ * Scores the configured models on a labelled dataset. Cases run one at a
+ * time to stay under provider rate limits; a call that still fails after
+ * retries is scored as a miss rather than aborting the run.
+ */
+export async function runEvaluation(llm: LLM, db: D1Database, dataset: EvalDataset): Promise<EvalReport> {
+    const misses: EvalMiss[] = [];
+    return {
+        provider: llm.provider.name,
+        models: { enrichment: llm.model('enrichment'), routing: llm.model('routing') },
+        prompt_version: ENRICHMENT_PROMPT_VERSION,
+        enrichment: await evaluateEnrichment(llm, db, dataset.enrichment, misses),
+        routing: await evaluateRouting(llm, db, dataset.routing, misses),
+        misses,
+    };
+}
+
+/**
+ * Metric name → value, in the shape baselines are stored in. Per-class
+ * metrics are only listed for classes the dataset has examples of.
+ */
+export function flattenMetrics(report: EvalReport): EvalBaseline {
+    const out: EvalBaseline = {};
+    const add = (prefix: string, r: ClassificationReport) => {
+        out[`${prefix}.accuracy`] = r.accuracy;
+        for (const [label, m] of Object.entries(r.classes)) {
+            if (!m.support) continue;
+            out[`${prefix}.${label}.precision`] = m.precision;
+            out[`${prefix}.${label}.recall`] = m.recall;
+        }
+    };
+    add('enrichment.category', report.enrichment.category);
+    add('enrichment.sentiment', report.enrichment.sentiment);
+    add('routing.intent', report.routing.intent);
+    out['routing.params_accuracy'] = report.routing.params_accuracy;
+    return out;
+}
+
+// Metrics that fell more than `tolerance` below the baseline; a metric missing from the report counts as 0
+export function findRegressions(report: EvalReport, baseline: EvalBaseline, tolerance = 0): EvalRegression[] {
+    const actual = flattenMetrics(report);
+    return Object.entries(baseline)
+        .filter(([metric, floor]) => (actual[metric] ?? 0) < floor - tolerance)
+        .map(([metric, floor]) => ({ metric, baseline: floor, actual: actual[metric] ?? 0 }));
+}
+
+function formatClassification(title: string, r: ClassificationReport): string {
+    const predictedLabels = [...new Set([...Object.keys(r.classes), ...Object.values(r.confusion).flatMap(row => Object.keys(row))])];
+    const width = Math.max(10, ...predictedLabels.map(l => l.length)) + 2;
+    const cell = (v: unknown) => String(v).padEnd(width);
+
+    const lines = [`${title}  accuracy ${r.accuracy}`, cell('class') + cell('precision') + cell('recall') + 'support'];
+    for (const [label, m] of Object.entries(r.classes)) lines.push(cell(label) + cell(m.precision) + cell(m.recall) + m.support);
+    lines.push('', 'confusion (rows: expected, columns: predicted)', cell('') + predictedLabels.map(cell).join(''));
+    for (const [expected, row] of Object.entries(r.confusion)) lines.push(cell(expected) + predictedLabels.map(l => cell(row[l] || 0)).join(''));
+    return lines.join('\n');
+}
+
+// Plain-text report for the console: metrics, confusion matrices and every miss
+export function formatEvalReport(report: EvalReport): string {
+    return [
+        `provider ${report.provider}  enrichment ${report.models.enrichment}  routing ${report.models.routing}  prompt ${report.prompt_version}`,
+        formatClassification('Enrichment category', report.enrichment.category),
+        formatClassification('Enrichment sentiment sign', report.enrichment.sentiment),
+        `Enrichment failures: ${report.enrichment.failed}`,
+        formatClassification('Routing intent', report.routing.intent),
+        `Routing params accuracy: ${report.routing.params_accuracy}`,
+        `Misses (${report.misses.length}):`,
+        ...report.misses.map(m => `  [${m.task}] ${m.input}\n    expected ${JSON.stringify(m.expected)}\n    actual   ${JSON.stringify(m.actual)}`),
+    ].join('\n\n');
+}
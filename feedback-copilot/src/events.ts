@@ -0,0 +1,50 @@
+// -----------------------------------------------------------------------------
+// Issue Events: append-only audit log of state changes
+// -----------------------------------------------------------------------------
+
+export type IssueEventType = 'close' | 'reopen' | 'status' | 'assign' | 'recategorize' | 'rescore' | 'merge' | 'comment';
+
+export type IssueEvent = {
+    feedbackId: string;
+    issueId?: string | null;
+    type: IssueEventType;
+    actor: string;
+    before?: unknown;
+    after?: unknown;
+    reason?: string | null;
+};
+
+/**
+ * Builds the insert for one event so callers can batch it with the change it
+ * describes. Events are never updated or deleted.
+ */
+export function issueEventStatement(db: D1Database, event: IssueEvent): D1PreparedStatement {
+    return db.prepare(
+        `INSERT INTO issue_events (id, feedback_id, issue_id, type, actor, before_value, after_value, reason, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+        crypto.randomUUID(),
+        event.feedbackId,
+        event.issueId ?? null,
+        event.type,
+        event.actor,
+        event.before === undefined ? null : JSON.stringify(event.before),
+        event.after === undefined ? null : JSON.stringify(event.after),
+        event.reason || null,
+        new Date().toISOString()
+    );
+}
+
+// Timeline for the issue a feedback row belongs to, oldest first
+export async function listIssueEvents(db: D1Database, feedbackId: string, issueId?: string | null) {
+    const { results } = await db.prepare(
+        `SELECT id, feedback_id, issue_id, type, actor, before_value, after_value, reason, created_at
+         FROM issue_events WHERE feedback_id = ? OR (issue_id IS NOT NULL AND issue_id = ?)
+         ORDER BY created_at ASC`
+    ).bind(feedbackId, issueId ?? null).all<Record<string, any>>();
+
+    return results.map(e => ({
+        ...e,
+        before_value: e.before_value ? JSON.parse(e.before_value) : null,
+        after_value: e.after_value ? JSON.parse(e.after_value) : null,
+    }));
+}
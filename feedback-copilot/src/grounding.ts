@@ -0,0 +1,119 @@
+// -----------------------------------------------------------------------------
+// Grounding: reconciles a chat answer with the rows it was built from
+// -----------------------------------------------------------------------------
+
+import { heatFor, ScoringPolicy } from './scoring';
+
+// The counts every answer's summary.stats carries, in display order
+const STAT_CATEGORIES: [label: string, category: string | null][] = [
+    ['total_items', null], ['bug_count', 'Bug'], ['ux_count', 'UX'], ['feature_count', 'Feature'],
+];
+// Models round gravity for display; smaller differences are not corrections
+const PULL_TOLERANCE = 0.05;
+
+export type GroundingCorrection = { id?: string; field: string; answer: unknown; value: unknown };
+
+export type GroundingReport = {
+    // Rows the model was given, and how many matched before the token budget cut
+    rows: number;
+    matched: number;
+    dropped_issues: string[];
+    unverified_citations: string[];
+    corrections: GroundingCorrection[];
+};
+
+/**
+ * Removes ids that are not in `retrievedIds` from summary and pattern
+ * citations, along with duplicates. Returns the removed ids.
+ */
+export function checkCitations(answer: any, retrievedIds: Iterable<string>): string[] {
+    const known = new Set(retrievedIds);
+    const unknown = new Set<string>();
+    const keep = (ids: unknown) => {
+        if (!Array.isArray(ids)) return [];
+        for (const id of ids) if (!known.has(id)) unknown.add(id);
+        return [...new Set(ids.filter(id => known.has(id)))];
+    };
+    if (answer.summary) answer.summary.citations = keep(answer.summary.citations);
+    for (const pattern of answer.patterns || []) pattern.citations = keep(pattern.citations);
+    return [...unknown];
+}
+
+// summary.stats from a total and per-category counts
+export function countStats(total: number, byCategory: Record<string, number>): { label: string; value: string }[] {
+    return STAT_CATEGORIES.map(([label, category]) => ({ label, value: String(category ? byCategory[category] ?? 0 : total) }));
+}
+
+/**
+ * Deterministic summary.stats: total_items and the per-category counts over
+ * every matched row, including rows left out of TOOL_DATA.
+ */
+export function answerStats(matched: Record<string, unknown>[]): { label: string; value: string }[] {
+    const byCategory: Record<string, number> = {};
+    for (const row of matched) byCategory[String(row.category)] = (byCategory[String(row.category)] || 0) + 1;
+    return countStats(matched.length, byCategory);
+}
+
+/**
+ * Rewrites a parsed answer so it only states what D1 returned, in place:
+ *
+ * - top_issues whose id is not a TOOL_DATA row are dropped, as are repeats.
+ *   An issue id is accepted for the row that leads it and rewritten to the
+ *   row id. The rest are renumbered.
+ * - pull, category and source come from the row, and heat from the pull
+ *   and the scoring policy.
+ * - summary.stats is replaced by `stats`, which defaults to counts over
+ *   `matched`.
+ * - citations to rows outside TOOL_DATA are removed.
+ *
+ * Every change is listed in the returned report.
+ */
+export function reconcileAnswer(
+    answer: any, rows: Record<string, unknown>[], matched: Record<string, unknown>[], policy: ScoringPolicy, stats = answerStats(matched)
+): GroundingReport {
+    const byId = new Map(rows.map(r => [String(r.id), r]));
+    const byIssue = new Map<string, Record<string, unknown>>();
+    for (const row of rows) if (row.issue_id && !byIssue.has(String(row.issue_id))) byIssue.set(String(row.issue_id), row);
+
+    const report: GroundingReport = { rows: rows.length, matched: matched.length, dropped_issues: [], unverified_citations: [], corrections: [] };
+    const correct = (id: string | undefined, field: string, answerValue: unknown, value: unknown) => {
+        report.corrections.push({ ...(id === undefined ? {} : { id }), field, answer: answerValue ?? null, value });
+    };
+
+    const seen = new Set<string>();
+    const issues: any[] = [];
+    for (const issue of Array.isArray(answer.top_issues) ? answer.top_issues : []) {
+        const row = byId.get(issue.id) ?? byIssue.get(issue.id);
+        if (!row || seen.has(String(row.id))) {
+            report.dropped_issues.push(String(issue.id));
+            continue;
+        }
+        const id = String(row.id);
+        seen.add(id);
+        if (issue.id !== id) correct(id, 'id', issue.id, id);
+
+        const gravity = Number(row.gravity_score) || 0;
+        const pull = Math.round(gravity * 100) / 100;
+        const stored = { category: row.category ?? 'Other', source: row.source ?? '', heat: heatFor(gravity, policy) };
+        if (typeof issue.pull !== 'number' || Math.abs(issue.pull - pull) > PULL_TOLERANCE) correct(id, 'pull', issue.pull, pull);
+        for (const [field, value] of Object.entries(stored)) {
+            if (issue[field] !== value) correct(id, field, issue[field], value);
+        }
+        issues.push({ ...issue, ...stored, id, pull, rank: issues.length + 1 });
+    }
+    answer.top_issues = issues;
+
+    if (answer.summary) {
+        const given = new Map<string, unknown>((answer.summary.stats || []).map((s: any) => [s.label, s.value]));
+        for (const { label, value } of stats) {
+            if (given.get(label) !== value) correct(undefined, `stats.${label}`, given.get(label), value);
+            given.delete(label);
+        }
+        // Other figures the model added cannot be checked against the rows
+        for (const [label, value] of given) correct(undefined, `stats.${label}`, value, null);
+        answer.summary.stats = stats;
+    }
+
+    report.unverified_citations = checkCitations(answer, byId.keys());
+    return report;
+}
@@ -0,0 +1,94 @@
+// -----------------------------------------------------------------------------
+// HTML Templating: escape-by-default rendering and security headers for pages
+// -----------------------------------------------------------------------------
+
+// Markup that is already safe to emit as-is (built by `html` or `raw`)
+export class SafeHtml {
+    constructor(readonly value: string) {}
+    toString() {
+        return this.value;
+    }
+}
+
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function render(value: unknown): string {
+    if (value instanceof SafeHtml) return value.value;
+    if (Array.isArray(value)) return value.map(render).join('');
+    if (value === null || value === undefined || value === false) return '';
+    return escapeHtml(value);
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is already
+ * SafeHtml. Arrays are rendered item by item; null, undefined and false render
+ * as nothing so `${cond && html`...`}` works.
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+    let out = '';
+    strings.forEach((chunk, idx) => {
+        // Tagged templates leave invalid escape sequences uncooked; fail loudly instead of dropping markup
+        if (chunk === undefined) throw new Error('Invalid escape sequence in html template');
+        out += chunk;
+        if (idx < values.length) out += render(values[idx]);
+    });
+    return new SafeHtml(out);
+}
+
+// Trusted, static markup only: never pass user or model content here
+export function raw(markup: string): SafeHtml {
+    return new SafeHtml(markup);
+}
+
+// JSON for an inline <script>: "<" and line separators cannot end the script or break the literal
+export function jsonForScript(value: unknown): SafeHtml {
+    return new SafeHtml(JSON.stringify(value)
+        .replace(/</g, '\\u003c')
+        .replace(/>/g, '\\u003e')
+        .replace(/&/g, '\\u0026')
+        .replace(/\u2028/g, '\\u2028')
+        .replace(/\u2029/g, '\\u2029'));
+}
+
+export function createNonce(): string {
+    return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+}
+
+/**
+ * Scripts run only with the page's nonce (plus the Tailwind CDN), so injected
+ * markup and inline event handlers cannot execute. Tailwind injects <style>
+ * tags at runtime, hence 'unsafe-inline' for styles.
+ */
+export function contentSecurityPolicy(nonce: string): string {
+    return [
+        `default-src 'self'`,
+        `script-src 'nonce-${nonce}' https://cdn.tailwindcss.com`,
+        `style-src 'self' 'unsafe-inline'`,
+        `img-src 'self' data:`,
+        `connect-src 'self'`,
+        `object-src 'none'`,
+        `base-uri 'none'`,
+        `form-action 'self'`,
+        `frame-ancestors 'none'`,
+    ].join('; ');
+}
+
+export function htmlResponse(page: SafeHtml, nonce: string, init: ResponseInit = {}): Response {
+    return new Response(page.value, {
+        ...init,
+        headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Security-Policy': contentSecurityPolicy(nonce),
+            'X-Content-Type-Options': 'nosniff',
+            'Referrer-Policy': 'same-origin',
+            'X-Frame-Options': 'DENY',
+        }
+    });
+}
@@ -1,134 +1,236 @@
 import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from 'cloudflare:workers';
-
-interface Env {
-    FEEDBACK_DB: D1Database;
-    AI: any;
-    INGEST_WORKFLOW: Workflow;
-}
+import {
+    analyticsOverview, DEFAULT_MOVERS_LIMIT, DEFAULT_SENTIMENT_WINDOW, MAX_MOVERS_LIMIT, MAX_SENTIMENT_WINDOW, medianTimeToClose, MOVER_GROUPS,
+    MoverGroup, parseAnalyticsFilters, sentimentTrend, statusCounts, topMovers, VOLUME_GROUPS, VOLUME_INTERVALS, VolumeGroup, VolumeInterval,
+    volumeByPeriod
+} from './analytics';
+import { Anomaly, ANOMALY_BANNER_HOURS, describeAnomaly, detectAnomalies, listAnomalies } from './anomalies';
+import { requireAuth } from './auth';
+import { BulkFormat, createBulkJob, fanOutBulkJob, getBulkJobProgress, mapRows, MAX_BULK_BODY_BYTES, MAX_BULK_ROWS, parseCsv, parseNdjson, resumeBulkJobs } from './bulk';
+import { answerChat, chatErrorAnswer } from './chat';
+import { clusterBackend, findMatchingIssue, listRankedIssues } from './clusters';
+import { connectorSecret, CONNECTORS, isConnectorProvider, MAX_WEBHOOK_BODY_BYTES } from './connectors';
+import { createConversation, deleteConversation, getConversation, listConversations, listTurns, recentTurns } from './conversations';
+import { contentHash, externalDedupeKey, findDuplicate, MAX_EXTERNAL_ID_LENGTH, recordSkipped, recordUpdateFromLaterJob, startIngestWorkflow } from './dedupe';
+import { enrichFeedback, ENRICHMENT_PROMPT_VERSION, findReprocessRows, MAX_REPROCESS_ROWS, ReprocessFilter, startReprocessing } from './enrichment';
+import { issueEventStatement, listIssueEvents } from './events';
+import { createNonce, html, htmlResponse, jsonForScript, raw } from './html';
+import {
+    ACTIVE_STATES, assignIssue, canTransition, CATEGORIES, CLOSED_STATES, commentOnIssue, findIssueTarget,
+    isIssueState, ISSUE_STATES, IssueState, mergeIssues, recategorizeIssue, transitionIssue, wakeSnoozedIssues
+} from './issues';
+import { llmFromEnv } from './llm';
+import {
+    checkSubscription, createSubscription, deleteSubscription, DELIVERY_STATUSES, evaluateTriggers, listDeliveries, listSubscriptions,
+    markDeliveryFailed, queueDeliveries, sendDelivery, StoredReport, SubscriptionInput
+} from './notifications';
+import { loadScoringPolicy, mergeScoringPolicy, saveScoringPolicy } from './policy';
+import { rescoreOpenFeedback } from './rescore';
+import { MESSY_SAMPLES } from './samples';
+import { parseSearchFilters, searchFeedback } from './search';
+import { clusterGravity, computeGravity, heatFor, ScoringPolicy } from './scoring';
+import { listOutputMetrics } from './structured';
+import { FeedbackEvent } from './types';
+import { errorResponse, Fields, ID_PATTERN, readJsonBody } from './validation';
 
 // -----------------------------------------------------------------------------
 // Workflows: Enriches feedback with AI
 // -----------------------------------------------------------------------------
-type FeedbackEvent = {
-    source: string;
-    content: string;
-    created_at?: string;
-};
-
-type AnalysisResult = {
-    sentiment: number;
-    category: "Bug" | "UX" | "Feature" | "Other";
-    explanation: string;
-};
-
-const MESSY_SAMPLES = [
-    // Bugs
-    "login completely broken fix it!!!",
-    "app crashes when I upload large images",
-    "api returns 500 error on tuesdays",
-    "documentation link is broken",
-    "payment failed but still got charged twice",
-    "password reset email never arrives",
-    "search results show deleted items",
-    "notifications are 2 hours delayed",
-    "mobile app freezes after update",
-    "SSO integration stopped working yesterday",
-
-    // UX Issues
-    "where is the export button? cant find it",
-    "pricing page is confusing as hell",
-    "loading takes forever on my phone",
-    "the onboarding flow has too many steps",
-    "can't figure out how to change my timezone",
-    "why do I need to click 5 times to archive?",
-    "font is way too small on the reports page",
-    "navigation menu keeps jumping around",
-    "error messages don't explain what went wrong",
-    "took me 20 minutes to find billing settings",
-
-    // Feature Requests
-    "please add dark mode support",
-    "can I invite more than 5 users?",
-    "need slack integration desperately",
-    "would love to see a calendar view",
-    "can you add webhook support?",
-    "please let us customize email templates",
-    "need ability to bulk delete old records",
-    "API rate limits are too restrictive",
-    "want to export reports as PDF",
-    "need two-factor authentication option",
-
-    // Positive/Other
-    "I love the new dashboard, very clean",
-    "best tool I've used all year",
-    "delete my account immediately",
-    "your support team is amazing, solved my issue in 5 min",
-    "finally a product that just works",
-    "switched from competitor, night and day difference",
-    "the AI suggestions are surprisingly accurate",
-    "clean UI, fast performance, exactly what we needed"
-];
 
 export class FeedbackWorkflow extends WorkflowEntrypoint<Env, FeedbackEvent> {
     async run(event: WorkflowEvent<FeedbackEvent>, step: WorkflowStep) {
-        const { content, source, created_at } = event.payload;
-
-        // Step 1: AI Enrichment
-        const analysis = await step.do('ai-enrichment', async () => {
-            const systemPrompt = `You analyze raw user feedback and return STRICT JSON only.
-Return exactly this schema:
-{ "sentiment": number, "category": "Bug" | "UX" | "Feature" | "Other", "explanation": string }
-Rules:
-- Output JSON only. No markdown.
-- sentiment must be between -1 and 1.
-- category:
-  - Bug: broken/errors/crashes/regressions/can't log in/failures
-  - UX: confusing UI/slow/hard to find/friction/unclear flow
-  - Feature: new capability/integration/API/export/filters
-  - Other: praise/general comments/pricing with no concrete ask
-- explanation: 1 sentence, max 18 words.
-- If both bug and feature request appear, choose Bug.
-- If mostly negative but not broken, choose UX.`;
-
-            const response = await runAIWithRetry(this.env, '@cf/meta/llama-3.1-8b-instruct', {
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: content }
-                ]
-            });
+        const { content, source, created_at, job_id, external_id, author, url, reprocess_id } = event.payload;
 
-            try {
-                // Heuristic cleanup if model outputs markdown code blocks
-                let jsonStr = (response as any).response;
-                const match = jsonStr.match(/\{[\s\S]*\}/);
-                if (match) jsonStr = match[0];
-                return JSON.parse(jsonStr) as AnalysisResult;
-            } catch (e) {
-                return { sentiment: 0, category: 'Other', explanation: 'Failed to analyze' } as AnalysisResult;
+        // Step 0: Skip retries and repeats before spending AI calls on them (reprocessing targets a known row)
+        const dedupe = await step.do('dedupe', async () => {
+            const now = new Date();
+            const hash = await contentHash(content);
+            const db = this.env.FEEDBACK_DB;
+
+            // Rows without an issue (e.g. failed enrichment) still need cluster matching when updated
+            const hasIssue = async (id: string) =>
+                !!(await db.prepare(`SELECT issue_id FROM feedback WHERE id = ?`).bind(id).first<{ issue_id: string | null }>())?.issue_id;
+
+            if (reprocess_id) {
+                return { action: 'update' as const, feedbackId: reprocess_id, hash, hasIssue: await hasIssue(reprocess_id) };
+            }
+
+            const match = await findDuplicate(db, { source, externalId: external_id, hash, now });
+
+            // A known external id with changed text is an upstream edit, and a resend of text whose enrichment failed
+            // is another try: both re-enrich in place
+            if ((match?.kind === 'external' && match.contentHash !== hash) || (match?.kind === 'repeat' && match.failed)) {
+                return { action: 'update' as const, feedbackId: match.id, hash, hasIssue: await hasIssue(match.id) };
+            }
+            if (match) {
+                await recordSkipped(db, match, now.toISOString(), job_id);
+                return { action: 'skip' as const, feedbackId: match.id, hash, hasIssue: true };
             }
+            return { action: 'new' as const, feedbackId: null, hash, hasIssue: false };
+        });
+        if (dedupe.action === 'skip') return;
+
+        // Step 1: AI Enrichment, validated against the analysis schema with repair retries
+        const enrichment = await step.do('ai-enrichment', () => enrichFeedback(llmFromEnv(this.env), this.env.FEEDBACK_DB, content));
+
+        // Unusable output is stored as failed rather than as a neutral guess, so it can be reprocessed
+        if (!enrichment.ok) {
+            await step.do('store-failed', async () => {
+                const nowIso = new Date().toISOString();
+                if (dedupe.feedbackId) {
+                    // Upstream edit or reprocess: a row that was enriched keeps its analysis, provenance and 'ok' status, so it
+                    // stays in chat, search and stats; the failed attempt is recorded beside it. A row that had failed stays failed.
+                    await recordUpdateFromLaterJob(this.env.FEEDBACK_DB, dedupe.feedbackId, job_id);
+                    await this.env.FEEDBACK_DB.prepare(
+                        `UPDATE feedback SET content = ?, content_hash = ?, last_seen_at = ?, enrichment_error = ?, enrichment_failed_at = ?,
+                            enrichment_model = CASE WHEN enrichment_status = 'ok' THEN enrichment_model ELSE ? END,
+                            enrichment_prompt_version = CASE WHEN enrichment_status = 'ok' THEN enrichment_prompt_version ELSE ? END,
+                            enriched_at = CASE WHEN enrichment_status = 'ok' THEN enriched_at ELSE ? END,
+                            job_id = COALESCE(job_id, ?)
+                         WHERE id = ?`
+                    ).bind(content, dedupe.hash, nowIso, enrichment.error, nowIso, enrichment.model, enrichment.promptVersion, nowIso, job_id ?? null, dedupe.feedbackId).run();
+                    return;
+                }
+                await this.env.FEEDBACK_DB.prepare(
+                    `INSERT INTO feedback (id, content, source, created_at, job_id, external_id, content_hash, last_seen_at, author, url,
+                        enrichment_status, enrichment_error, enrichment_failed_at, enrichment_model, enrichment_prompt_version, enriched_at)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'failed', ?, ?, ?, ?, ?)
+                     ON CONFLICT (source, external_id) DO NOTHING`
+                ).bind(
+                    crypto.randomUUID(), content, source, created_at ? new Date(created_at).toISOString() : nowIso, job_id ?? null,
+                    external_id ?? null, dedupe.hash, nowIso, author ?? null, url ?? null,
+                    enrichment.error, nowIso, enrichment.model, enrichment.promptVersion, nowIso
+                ).run();
+            });
+            return;
+        }
+        const analysis = enrichment.analysis;
+
+        // Step 2: Embed and match against open issue clusters (rows that already have an issue keep it)
+        const cluster = dedupe.hasIssue ? null : await step.do('cluster-match', async () => {
+            const { embedder, index } = clusterBackend(this.env);
+            const [vector] = await embedder.embed([content]);
+            const matched = await findMatchingIssue(this.env.FEEDBACK_DB, index, vector);
+            return { issueId: matched || crypto.randomUUID(), isNew: !matched, vector };
         });
 
-        // Step 2: Gravity Calculation and Persistence
-        await step.do('calculate-and-store', async () => {
+        // Step 3: Gravity Calculation and Persistence
+        const report = await step.do('calculate-and-store', async (): Promise<StoredReport | null> => {
             // Gravity Calculation
             const now = new Date();
             const created = created_at ? new Date(created_at) : now;
-            const ageHours = Math.max(1, Math.floor((now.getTime() - created.getTime()) / (1000 * 60 * 60)));
+            const policy = await loadScoringPolicy(this.env.FEEDBACK_DB);
+            const gravityScore = computeGravity({ ...analysis, source, created_at: created.toISOString() }, now, policy);
 
-            let base = Math.abs(analysis.sentiment) * 10 / ageHours;
-            if (analysis.sentiment < 0 && analysis.category === 'Bug') {
-                base *= 2;
+            // Persistence
+            const id = dedupe.feedbackId || crypto.randomUUID();
+            const nowIso = now.toISOString();
+            const db = this.env.FEEDBACK_DB;
+
+            if (cluster?.isNew) {
+                await db.prepare(
+                    `INSERT OR IGNORE INTO issues (id, lead_feedback_id, category, status, report_count, gravity_score, created_at, updated_at) VALUES (?, ?, ?, 'open', 0, 0, ?, ?)`
+                ).bind(cluster.issueId, id, analysis.category, nowIso, nowIso).run();
             }
-            const gravityScore = Math.min(50, Math.round(base * 100) / 100);
 
-            // Persistence
-            const id = crypto.randomUUID();
-            await this.env.FEEDBACK_DB.prepare(
-                `INSERT INTO feedback (id, content, source, sentiment, gravity_score, category, explanation, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-            )
-                .bind(id, content, source, analysis.sentiment, gravityScore, analysis.category, analysis.explanation, created.toISOString())
-                .run();
+            let stored: { id: string; issue_id: string | null } | null;
+            if (dedupe.feedbackId) {
+                await recordUpdateFromLaterJob(db, dedupe.feedbackId, job_id);
+                stored = await db.prepare(
+                    `UPDATE feedback SET content = ?, sentiment = ?, gravity_score = ?, category = ?, explanation = ?, content_hash = ?, last_seen_at = ?, job_id = COALESCE(job_id, ?),
+                        issue_id = COALESCE(issue_id, ?), enrichment_status = 'ok', enrichment_error = NULL, enrichment_failed_at = NULL,
+                        enrichment_model = ?, enrichment_prompt_version = ?, enriched_at = ?
+                     WHERE id = ? RETURNING id, issue_id`
+                )
+                    .bind(
+                        content, analysis.sentiment, gravityScore, analysis.category, analysis.explanation, dedupe.hash, nowIso, job_id ?? null,
+                        cluster?.issueId ?? null, enrichment.model, enrichment.promptVersion, nowIso, id
+                    )
+                    .first();
+            } else {
+                // Upsert on (source, external_id): a concurrent ingest of the same item updates rather than duplicates
+                stored = await db.prepare(
+                    `INSERT INTO feedback (id, content, source, sentiment, gravity_score, category, explanation, created_at, issue_id, job_id, external_id, content_hash, last_seen_at, author, url,
+                        enrichment_model, enrichment_prompt_version, enriched_at)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                     ON CONFLICT (source, external_id) DO UPDATE SET
+                        content = excluded.content, sentiment = excluded.sentiment, gravity_score = excluded.gravity_score, category = excluded.category,
+                        explanation = excluded.explanation, content_hash = excluded.content_hash, last_seen_at = excluded.last_seen_at,
+                        issue_id = COALESCE(feedback.issue_id, excluded.issue_id), enrichment_status = 'ok', enrichment_error = NULL, enrichment_failed_at = NULL,
+                        enrichment_model = excluded.enrichment_model, enrichment_prompt_version = excluded.enrichment_prompt_version, enriched_at = excluded.enriched_at
+                     RETURNING id, issue_id`
+                )
+                    .bind(
+                        id, content, source, analysis.sentiment, gravityScore, analysis.category, analysis.explanation, created.toISOString(), cluster!.issueId,
+                        job_id ?? null, external_id ?? null, dedupe.hash, nowIso, author ?? null, url ?? null, enrichment.model, enrichment.promptVersion, nowIso
+                    )
+                    .first();
+            }
+
+            // Lost the race to another instance: drop the issue opened for this row
+            if (cluster?.isNew && stored?.issue_id !== cluster.issueId) {
+                await db.prepare(`DELETE FROM issues WHERE id = ? AND report_count = 0`).bind(cluster.issueId).run();
+            }
+
+            const issueId = stored?.issue_id;
+            if (!stored || !issueId) return null;
+
+            // Roll the cluster up from its members so retries stay consistent
+            const previous = await db.prepare(`SELECT gravity_score FROM issues WHERE id = ?`).bind(issueId).first<{ gravity_score: number | null }>();
+            const stats = await db.prepare(
+                `SELECT COUNT(*) AS report_count, MAX(gravity_score) AS max_gravity FROM feedback WHERE issue_id = ?`
+            ).bind(issueId).first<{ report_count: number; max_gravity: number }>();
+            const reportCount = stats?.report_count || 1;
+            const issueGravity = clusterGravity(stats?.max_gravity || gravityScore, reportCount, policy);
+
+            await db.prepare(
+                `UPDATE issues SET report_count = ?, gravity_score = ?, updated_at = ? WHERE id = ?`
+            ).bind(reportCount, issueGravity, nowIso, issueId).run();
+
+            if (cluster?.isNew && issueId === cluster.issueId) {
+                const { index } = clusterBackend(this.env);
+                await index.upsert([{ id: cluster.issueId, values: cluster.vector }]);
+            }
+
+            return {
+                feedbackId: stored.id, issueId, content, source, url: url ?? null, category: analysis.category,
+                isNewIssue: !!cluster?.isNew && issueId === cluster.issueId,
+                gravityBefore: previous?.gravity_score || 0, gravityAfter: issueGravity, reportCount
+            };
+        });
+        // Step 4: Index the report for semantic retrieval, reusing the clustering vector when there is one
+        if (report) {
+            await step.do('index-report', async () => {
+                const { embedder, reports } = clusterBackend(this.env);
+                if (!reports) return;
+                const vector = cluster?.vector ?? (await embedder.embed([content]))[0];
+                await reports.upsert([{ id: report.feedbackId, values: vector }]);
+                await this.env.FEEDBACK_DB.prepare(`UPDATE feedback SET embedding_model = ?, embedded_at = ? WHERE id = ?`)
+                    .bind(embedder.model, new Date().toISOString(), report.feedbackId).run();
+            });
+        }
+
+        // Reprocessing rescores rows in bulk; alerting on each of them would flood subscribers
+        if (!report || reprocess_id) return;
+
+        // Step 5: Queue alerts for subscriptions whose triggers fire
+        const deliveryIds = await step.do('notify', async () => {
+            const matches = await evaluateTriggers(this.env.FEEDBACK_DB, report);
+            return queueDeliveries(this.env.FEEDBACK_DB, report, matches, this.env.PUBLIC_URL);
         });
+
+        // Step 6: One step per delivery so each retries with its own backoff
+        for (const deliveryId of deliveryIds) {
+            try {
+                await step.do(`deliver-${deliveryId}`, { retries: { limit: 5, delay: '30 seconds', backoff: 'exponential' }, timeout: '30 seconds' }, async () => {
+                    await sendDelivery(this.env.FEEDBACK_DB, deliveryId);
+                });
+            } catch (e) {
+                await step.do(`deliver-${deliveryId}-failed`, async () => {
+                    await markDeliveryFailed(this.env.FEEDBACK_DB, deliveryId);
+                });
+            }
+        }
     }
 }
 
@@ -147,58 +249,411 @@ export default {
 
         // GET /app - Chat UI
         if (request.method === 'GET' && url.pathname === '/app') {
-            // const auth = requireAuth(request);
-            // if (!auth) return new Response('Unauthorized', { status: 401 });
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
 
-            const { results } = await env.FEEDBACK_DB.prepare(
-                `SELECT * FROM feedback ORDER BY gravity_score DESC, created_at DESC LIMIT 25`
-            ).all();
+            // The "Top 5 Pull" sidebar only ranks issues that still need work
+            const results = await listRankedIssues(env.FEEDBACK_DB, { states: ACTIVE_STATES, limit: 5 });
+            const policy = await loadScoringPolicy(env.FEEDBACK_DB);
+            const anomalies = await listAnomalies(env.FEEDBACK_DB, { limit: MAX_BANNERS });
 
-            return new Response(htmlUI(results), {
-                headers: { 'Content-Type': 'text/html' },
-            });
+            const nonce = createNonce();
+            return htmlResponse(htmlUI(results, policy, env.DEMO_MODE === 'true', nonce, anomalies), nonce);
         }
 
         // GET /dashboard - Simple List
         if (request.method === 'GET' && url.pathname === '/dashboard') {
-            // const auth = requireAuth(request);
-            // if (!auth) return new Response('Unauthorized', { status: 401 });
-
-            const { results } = await env.FEEDBACK_DB.prepare(
-                `SELECT * FROM feedback WHERE status='open' ORDER BY gravity_score DESC, created_at DESC LIMIT 25`
-            ).all();
-            return new Response(htmlDashboard(results), {
-                headers: { 'Content-Type': 'text/html' },
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
+
+            // ?state=<state> filters to one lifecycle state, ?state=all shows everything
+            const state = url.searchParams.get('state') || 'active';
+            const states = state === 'all' ? undefined : isIssueState(state) ? [state] : ACTIVE_STATES;
+            const results = await listRankedIssues(env.FEEDBACK_DB, { states });
+            const policy = await loadScoringPolicy(env.FEEDBACK_DB);
+            const anomalies = await listAnomalies(env.FEEDBACK_DB, { limit: MAX_BANNERS });
+            const nonce = createNonce();
+            return htmlResponse(htmlDashboard(results, policy, state, nonce, anomalies), nonce);
+        }
+
+        // GET/PUT /admin/scoring-policy - Inspect or edit the gravity policy
+        if (url.pathname === '/admin/scoring-policy' && (request.method === 'GET' || request.method === 'PUT')) {
+            const auth = await requireAuth(request, env, 'admin');
+            if (!auth.ok) return auth.response;
+
+            const current = await loadScoringPolicy(env.FEEDBACK_DB);
+            if (request.method === 'GET') {
+                return new Response(JSON.stringify(current), {
+                    headers: { 'Content-Type': 'application/json' }
+                });
+            }
+
+            const parsed = await readJsonBody<Partial<ScoringPolicy>>(request, {
+                categoryWeights: { type: 'object' },
+                sourceWeights: { type: 'object' },
+                halfLifeHours: { type: 'number', nullable: true },
+                cap: { type: 'number' },
+                heatBands: { type: 'object' },
+            });
+            if (!parsed.ok) return parsed.response;
+
+            const merged = mergeScoringPolicy(current, parsed.value);
+            if ('errors' in merged) {
+                return errorResponse(400, 'validation_failed', 'Scoring policy is invalid', merged.errors);
+            }
+
+            await saveScoringPolicy(env.FEEDBACK_DB, merged.policy);
+            return new Response(JSON.stringify(merged.policy), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /admin/scoring-policy/recompute - Rescore all open feedback with the stored policy
+        if (request.method === 'POST' && url.pathname === '/admin/scoring-policy/recompute') {
+            const auth = await requireAuth(request, env, 'admin');
+            if (!auth.ok) return auth.response;
+
+            const policy = await loadScoringPolicy(env.FEEDBACK_DB);
+            const { changes, ...counts } = await rescoreOpenFeedback(env.FEEDBACK_DB, new Date(), policy);
+
+            // Manual recomputes are audited per issue; the hourly cron is not
+            const events = changes.map(c => issueEventStatement(env.FEEDBACK_DB, {
+                feedbackId: c.feedbackId, issueId: c.issueId, type: 'rescore',
+                actor: auth.user.email, before: { gravity_score: c.before }, after: { gravity_score: c.after }, reason: 'policy recompute'
+            }));
+            for (let i = 0; i < events.length; i += 50) {
+                await env.FEEDBACK_DB.batch(events.slice(i, i + 50));
+            }
+
+            return new Response(JSON.stringify({ ok: true, ...counts, rescored: changes.length }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // GET/POST /admin/notifications/subscriptions - List or add Slack and webhook alert subscriptions
+        if (url.pathname === '/admin/notifications/subscriptions' && (request.method === 'GET' || request.method === 'POST')) {
+            const auth = await requireAuth(request, env, 'admin');
+            if (!auth.ok) return auth.response;
+
+            if (request.method === 'GET') {
+                return new Response(JSON.stringify(await listSubscriptions(env.FEEDBACK_DB)), {
+                    headers: { 'Content-Type': 'application/json' }
+                });
+            }
+
+            const parsed = await readJsonBody<SubscriptionInput>(request, {
+                kind: { type: 'string', required: true, oneOf: ['slack', 'webhook'] },
+                url: { type: 'string', required: true, maxLength: 2048 },
+                secret: { type: 'string', minLength: 16, maxLength: 256 },
+                gravity_threshold: { type: 'number', nullable: true, min: 0 },
+                new_bug_cluster: { type: 'boolean' },
+                volume_spike: { type: 'boolean' },
+                spike_multiplier: { type: 'number', min: 1 },
+                spike_min_reports: { type: 'number', min: 1 },
+                category: { type: 'string', nullable: true, oneOf: CATEGORIES },
+            }, { check: checkSubscription });
+            if (!parsed.ok) return parsed.response;
+
+            // The webhook secret is only ever returned here
+            const subscription = await createSubscription(env.FEEDBACK_DB, parsed.value, auth.user.email);
+            return new Response(JSON.stringify(subscription), {
+                status: 201, headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /admin/notifications/subscriptions/delete - Remove a subscription
+        if (request.method === 'POST' && url.pathname === '/admin/notifications/subscriptions/delete') {
+            const auth = await requireAuth(request, env, 'admin');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string }>(request, { id: { type: 'string', required: true, pattern: ID_PATTERN, patternHint: 'must be a subscription id' } });
+            if (!parsed.ok) return parsed.response;
+
+            if (!(await deleteSubscription(env.FEEDBACK_DB, parsed.value.id))) {
+                return errorResponse(404, 'not_found', 'Subscription not found');
+            }
+            return new Response(JSON.stringify({ ok: true }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /admin/reprocess - Re-enrich and rescore stored feedback matching a filter (dry_run counts only)
+        if (request.method === 'POST' && url.pathname === '/admin/reprocess') {
+            const auth = await requireAuth(request, env, 'admin');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<ReprocessFilter & { dry_run?: boolean }>(request, {
+                since: { type: 'string', date: true },
+                until: { type: 'string', date: true },
+                category: { type: 'string', oneOf: CATEGORIES },
+                failed_only: { type: 'boolean' },
+                prompt_version: { type: 'string', nullable: true, maxLength: 64 },
+                outdated: { type: 'boolean' },
+                limit: { type: 'number', min: 1, max: MAX_REPROCESS_ROWS },
+                dry_run: { type: 'boolean' },
+            });
+            if (!parsed.ok) return parsed.response;
+            const { dry_run, ...filter } = parsed.value;
+
+            const rows = await findReprocessRows(env.FEEDBACK_DB, {
+                ...filter,
+                since: filter.since && new Date(filter.since).toISOString(),
+                until: filter.until && new Date(filter.until).toISOString(),
+            });
+            const started = dry_run ? 0 : await startReprocessing(env.INGEST_WORKFLOW, rows);
+
+            return new Response(JSON.stringify({
+                ok: true, dry_run: !!dry_run, matched: rows.length, started,
+                model: llmFromEnv(env).model('enrichment'), prompt_version: ENRICHMENT_PROMPT_VERSION
+            }), {
+                status: dry_run ? 200 : 202, headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // GET /admin/ai-metrics - Structured-output outcomes per task per day (?days=, default 7)
+        if (request.method === 'GET' && url.pathname === '/admin/ai-metrics') {
+            const auth = await requireAuth(request, env, 'admin');
+            if (!auth.ok) return auth.response;
+
+            const days = Math.min(Math.max(Number(url.searchParams.get('days')) || 7, 1), 90);
+            return new Response(JSON.stringify(await listOutputMetrics(env.FEEDBACK_DB, days)), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // GET /admin/notifications/deliveries - Delivery log (?subscription_id=&status=&limit=)
+        if (request.method === 'GET' && url.pathname === '/admin/notifications/deliveries') {
+            const auth = await requireAuth(request, env, 'admin');
+            if (!auth.ok) return auth.response;
+
+            const status = url.searchParams.get('status') || undefined;
+            if (status && !(DELIVERY_STATUSES as readonly string[]).includes(status)) {
+                return errorResponse(400, 'validation_failed', 'Query is invalid', [{ field: 'status', message: `must be one of ${DELIVERY_STATUSES.join(', ')}` }]);
+            }
+            const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || 50, 1), 200);
+
+            const deliveries = await listDeliveries(env.FEEDBACK_DB, { subscriptionId: url.searchParams.get('subscription_id') || undefined, status, limit });
+            return new Response(JSON.stringify(deliveries), {
+                headers: { 'Content-Type': 'application/json' }
             });
         }
 
         // POST /issue/close - Close an issue
         if (request.method === 'POST' && url.pathname === '/issue/close') {
-            // const auth = requireAuth(request);
-            // if (!auth) return new Response('Unauthorized', { status: 401 });
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string; reason?: string }>(request, { id: Fields.id, reason: Fields.reason });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            // Closing a report resolves its whole cluster
+            const target = await findIssueTarget(env.FEEDBACK_DB, body.id);
+            if (!target) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+            if (!canTransition(target.status, 'resolved')) {
+                return errorResponse(409, 'invalid_transition', `Cannot move issue from ${target.status} to resolved`);
+            }
+            await transitionIssue(env.FEEDBACK_DB, target, 'resolved', auth.user.email, { reason: body.reason });
+
+            return new Response(JSON.stringify({ ok: true, status: 'resolved' }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /issue/reopen - Undo a close
+        if (request.method === 'POST' && url.pathname === '/issue/reopen') {
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string; reason?: string }>(request, { id: Fields.id, reason: Fields.reason });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            const target = await findIssueTarget(env.FEEDBACK_DB, body.id);
+            if (!target) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+            if (!canTransition(target.status, 'reopened')) {
+                return errorResponse(409, 'invalid_transition', `Cannot move issue from ${target.status} to reopened`);
+            }
+            await transitionIssue(env.FEEDBACK_DB, target, 'reopened', auth.user.email, { reason: body.reason });
+
+            return new Response(JSON.stringify({ ok: true, status: 'reopened' }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /issue/transition - Move an issue through the triage lifecycle
+        if (request.method === 'POST' && url.pathname === '/issue/transition') {
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string; status: IssueState; reason?: string; snoozed_until?: string }>(request, {
+                id: Fields.id,
+                status: { type: 'string', required: true, oneOf: ISSUE_STATES },
+                reason: Fields.reason,
+                snoozed_until: { type: 'string', date: true },
+            }, {
+                check: b => b.status === 'snoozed' && !b.snoozed_until ? [{ field: 'snoozed_until', message: 'is required when snoozing' }] : []
+            });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            const target = await findIssueTarget(env.FEEDBACK_DB, body.id);
+            if (!target) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+            if (!canTransition(target.status, body.status)) {
+                return errorResponse(409, 'invalid_transition', `Cannot move issue from ${target.status} to ${body.status}`);
+            }
+
+            const snoozedUntil = body.snoozed_until ? new Date(body.snoozed_until).toISOString() : undefined;
+            await transitionIssue(env.FEEDBACK_DB, target, body.status, auth.user.email, { reason: body.reason, snoozedUntil });
+
+            return new Response(JSON.stringify({ ok: true, status: body.status }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /issue/assign - Set or clear the assignee
+        if (request.method === 'POST' && url.pathname === '/issue/assign') {
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string; assignee?: string | null; reason?: string }>(request, {
+                id: Fields.id,
+                assignee: { type: 'string', nullable: true, maxLength: 254, pattern: /^[^\s@]+@[^\s@]+$/, patternHint: 'must be an email address' },
+                reason: Fields.reason,
+            });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            const target = await findIssueTarget(env.FEEDBACK_DB, body.id);
+            if (!target) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+            if (!target.issue_id) return errorResponse(400, 'not_clustered', 'Issue cannot be assigned');
+
+            const assignee = body.assignee ? body.assignee.trim().toLowerCase() : null;
+            await assignIssue(env.FEEDBACK_DB, target, assignee, auth.user.email, body.reason);
+
+            return new Response(JSON.stringify({ ok: true, assignee }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /issue/recategorize - Override the AI category
+        if (request.method === 'POST' && url.pathname === '/issue/recategorize') {
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string; category: string; reason?: string }>(request, {
+                id: Fields.id,
+                category: { type: 'string', required: true, oneOf: CATEGORIES },
+                reason: Fields.reason,
+            });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            const target = await findIssueTarget(env.FEEDBACK_DB, body.id);
+            if (!target) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+            await recategorizeIssue(env.FEEDBACK_DB, target, body.category, auth.user.email, body.reason);
+
+            return new Response(JSON.stringify({ ok: true, category: body.category }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /issue/merge - Fold one issue cluster into another
+        if (request.method === 'POST' && url.pathname === '/issue/merge') {
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string; into: string; reason?: string }>(request, { id: Fields.id, into: Fields.id, reason: Fields.reason });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            const [source, into] = await Promise.all([
+                findIssueTarget(env.FEEDBACK_DB, body.id),
+                findIssueTarget(env.FEEDBACK_DB, body.into)
+            ]);
+            if (!source || !into) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+            if (!source.issue_id || !into.issue_id || source.issue_id === into.issue_id) {
+                return errorResponse(400, 'not_mergeable', 'Issues cannot be merged');
+            }
+
+            const policy = await loadScoringPolicy(env.FEEDBACK_DB);
+            await mergeIssues(env.FEEDBACK_DB, source, into, auth.user.email, policy, body.reason);
+
+            return new Response(JSON.stringify({ ok: true, issue_id: into.issue_id }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /issue/comment - Add a note to the timeline
+        if (request.method === 'POST' && url.pathname === '/issue/comment') {
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ id: string; comment: string }>(request, {
+                id: Fields.id,
+                comment: { type: 'string', required: true, maxLength: 2000 },
+            });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            const target = await findIssueTarget(env.FEEDBACK_DB, body.id);
+            if (!target) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+            await commentOnIssue(env.FEEDBACK_DB, target, body.comment.trim(), auth.user.email);
+
+            return new Response(JSON.stringify({ ok: true }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
 
-            const body = await request.json() as { id: string };
-            if (!body.id) return new Response('Missing ID', { status: 400 });
+        // GET /issue/history - Audit timeline
+        if (request.method === 'GET' && url.pathname === '/issue/history') {
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
 
-            await env.FEEDBACK_DB.prepare(
-                `UPDATE feedback SET status='closed', closed_at = ? WHERE id = ?`
-            ).bind(new Date().toISOString(), body.id).run();
+            const id = url.searchParams.get('id');
+            if (!id) return new Response('Missing ID', { status: 400 });
+
+            const target = await findIssueTarget(env.FEEDBACK_DB, id);
+            if (!target) return new Response(JSON.stringify({ error: "Issue not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
 
-            return new Response(JSON.stringify({ ok: true, status: 'closed' }), {
+            const events = await listIssueEvents(env.FEEDBACK_DB, target.id, target.issue_id);
+            return new Response(JSON.stringify({ id: target.id, issue_id: target.issue_id, events }), {
                 headers: { 'Content-Type': 'application/json' }
             });
         }
 
         // GET /issue - Drill-down Details
         if (request.method === 'GET' && url.pathname === '/issue') {
-            // const auth = requireAuth(request);
-            // if (!auth) return new Response('Unauthorized', { status: 401 });
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
 
             const id = url.searchParams.get('id');
             if (!id) return new Response('Missing ID', { status: 400 });
 
             const result = await env.FEEDBACK_DB.prepare(
-                `SELECT * FROM feedback WHERE id = ? LIMIT 1`
+                `SELECT f.id, f.source, f.content, f.sentiment, f.category, f.explanation, f.created_at, f.closed_at, f.issue_id,
+                        f.author, f.url, f.repeat_count,
+                        COALESCE(i.status, f.status) AS status, i.assignee, i.snoozed_until,
+                        COALESCE(i.gravity_score, f.gravity_score) AS gravity_score,
+                        COALESCE(i.report_count, 1) AS report_count
+                 FROM feedback f LEFT JOIN issues i ON i.id = f.issue_id
+                 WHERE f.id = ? LIMIT 1`
             ).bind(id).first();
 
             if (!result) return new Response(JSON.stringify({ error: "Issue not found" }), {
@@ -210,281 +665,682 @@ export default {
             });
         }
 
-        // POST /ingest - Trigger Workflow
-        if (request.method === 'POST' && url.pathname === '/ingest') {
-            let content = '';
-            let source = 'api';
+        // GET /search - Ranked full-text search (?q=&category=&source=&status=&since=&until=&limit=)
+        if (request.method === 'GET' && url.pathname === '/search') {
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
+
+            const { filters, errors } = parseSearchFilters(url.searchParams);
+            if (errors.length) return errorResponse(400, 'validation_failed', 'Query is invalid', errors);
+            const q = url.searchParams.get('q') || '';
+            const results = await searchFeedback(env.FEEDBACK_DB, q, filters);
+            if (!results) {
+                return errorResponse(400, 'validation_failed', 'Query is invalid', [{ field: 'q', message: 'must contain a word to search for' }]);
+            }
+            return new Response(JSON.stringify({ query: q, results }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
 
-            try {
-                const body = await request.json() as { text: string; source: string };
-                if (body.text) {
-                    content = body.text;
-                    source = body.source || 'api';
-                }
-            } catch (e) {
-                // Ignore JSON parse errors, fall through to random sample
+        // GET /analytics[/volume|/sentiment|/status|/time-to-close|/movers] - SQL aggregates (?since=&until=&category=&source=)
+        if (request.method === 'GET' && (url.pathname === '/analytics' || url.pathname.startsWith('/analytics/'))) {
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
+
+            const { filters, errors } = parseAnalyticsFilters(url.searchParams);
+            const option = <T extends string>(name: string, allowed: readonly T[], fallback: T): T => {
+                const value = url.searchParams.get(name) || fallback;
+                if ((allowed as readonly string[]).includes(value)) return value as T;
+                errors.push({ field: name, message: `must be one of ${allowed.join(', ')}` });
+                return fallback;
+            };
+            const number = (name: string, fallback: number, min: number, max: number) => {
+                const raw = url.searchParams.get(name);
+                const value = raw === null ? fallback : Number(raw);
+                if (Number.isInteger(value) && value >= min && value <= max) return value;
+                errors.push({ field: name, message: `must be a whole number from ${min} to ${max}` });
+                return fallback;
+            };
+
+            const db = env.FEEDBACK_DB;
+            const report = url.pathname.slice('/analytics'.length);
+            let run: (() => Promise<unknown>) | null = null;
+            if (report === '') run = () => analyticsOverview(db, filters);
+            else if (report === '/volume') {
+                const interval = option<VolumeInterval>('interval', VOLUME_INTERVALS, 'day');
+                const by = option<VolumeGroup>('by', VOLUME_GROUPS, 'category');
+                run = () => volumeByPeriod(db, filters, interval, by);
+            } else if (report === '/sentiment') {
+                const window = number('window', DEFAULT_SENTIMENT_WINDOW, 1, MAX_SENTIMENT_WINDOW);
+                run = () => sentimentTrend(db, filters, window);
+            } else if (report === '/status') run = () => statusCounts(db, filters);
+            else if (report === '/time-to-close') run = () => medianTimeToClose(db, filters);
+            else if (report === '/movers') {
+                const by = option<MoverGroup>('by', MOVER_GROUPS, 'issue');
+                const limit = number('limit', DEFAULT_MOVERS_LIMIT, 1, MAX_MOVERS_LIMIT);
+                run = () => topMovers(db, filters, by, limit);
+            }
+            if (!run) return errorResponse(404, 'not_found', 'Unknown analytics report');
+            if (errors.length) return errorResponse(400, 'validation_failed', 'Query is invalid', errors);
+
+            return new Response(JSON.stringify({ since: filters.since, until: filters.until, data: await run() }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // GET /anomalies - Spikes and sentiment drops seen recently (?since_hours=, default 24)
+        if (request.method === 'GET' && url.pathname === '/anomalies') {
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
+
+            const raw = url.searchParams.get('since_hours');
+            const hours = raw === null ? ANOMALY_BANNER_HOURS : Number(raw);
+            if (!Number.isInteger(hours) || hours < 1 || hours > 720) {
+                return errorResponse(400, 'validation_failed', 'Query is invalid', [{ field: 'since_hours', message: 'must be a whole number from 1 to 720' }]);
             }
+            const anomalies = await listAnomalies(env.FEEDBACK_DB, { since: new Date(Date.now() - hours * 3600 * 1000).toISOString(), limit: 100 });
+            return new Response(JSON.stringify({ anomalies: anomalies.map(a => ({ ...a, summary: describeAnomaly(a) })) }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
 
-            if (!content) {
-                // Pick a random messy sample
-                content = MESSY_SAMPLES[Math.floor(Math.random() * MESSY_SAMPLES.length)];
-                source = 'random-generator';
+        // POST /ingest - Trigger Workflow
+        if (request.method === 'POST' && url.pathname === '/ingest') {
+            // External systems authenticate with a per-source API key instead of Access
+            const auth = await requireAuth(request, env, 'triager', { allowApiKey: true });
+            if (!auth.ok) return auth.response;
+
+            const parsed = await readJsonBody<{ text: string; source?: string; created_at?: string; external_id?: string }>(request, {
+                text: Fields.text,
+                source: Fields.source,
+                created_at: { type: 'string', date: true },
+                external_id: { type: 'string', minLength: 1, maxLength: MAX_EXTERNAL_ID_LENGTH },
+            });
+            if (!parsed.ok) return parsed.response;
+            const body = parsed.value;
+
+            const idempotencyKey = request.headers.get('Idempotency-Key')?.trim();
+            if (idempotencyKey && idempotencyKey.length > MAX_EXTERNAL_ID_LENGTH) {
+                return errorResponse(400, 'validation_failed', 'Request is invalid', [
+                    { field: 'Idempotency-Key', message: `must be at most ${MAX_EXTERNAL_ID_LENGTH} characters` }
+                ]);
             }
 
+            const source = auth.user.source || body.source || 'api';
+            const externalId = body.external_id?.trim() || undefined;
+            const params: FeedbackEvent = {
+                content: body.text.trim(),
+                source,
+                created_at: body.created_at ? new Date(body.created_at).toISOString() : new Date().toISOString(),
+                external_id: externalId
+            };
+
+            // Retries with the same external id and text, or the same key, land on the same workflow instance
+            const dedupeKey = externalId ? await externalDedupeKey(externalId, params.content) : idempotencyKey ? `key:${idempotencyKey}` : null;
+            const { instanceId, duplicate } = await startIngestWorkflow(env.INGEST_WORKFLOW, params, dedupeKey);
+
+            return new Response(JSON.stringify({ ok: true, started: !duplicate, duplicate, instance_id: instanceId }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /demo/ingest-random - Demo data generator, only when DEMO_MODE is on
+        if (request.method === 'POST' && url.pathname === '/demo/ingest-random') {
+            if (env.DEMO_MODE !== 'true') return new Response('Not Found', { status: 404 });
+
+            const auth = await requireAuth(request, env, 'triager');
+            if (!auth.ok) return auth.response;
+
+            // Pick a random messy sample
+            const { text: content } = MESSY_SAMPLES[Math.floor(Math.random() * MESSY_SAMPLES.length)];
             await env.INGEST_WORKFLOW.create({
                 params: {
                     content,
-                    source,
+                    source: 'random-generator',
                     created_at: new Date().toISOString()
                 }
             });
 
-            return new Response(JSON.stringify({ ok: true, started: true }), {
+            return new Response(JSON.stringify({ ok: true, started: true, content }), {
                 headers: { 'Content-Type': 'application/json' }
             });
         }
 
-        // POST /chat - RAG-lite
-        if (request.method === 'POST' && url.pathname === '/chat') {
+        // POST /connectors/<provider> - Native provider webhooks, authenticated by their HMAC signature
+        if (request.method === 'POST' && url.pathname.startsWith('/connectors/')) {
+            const provider = url.pathname.slice('/connectors/'.length);
+            const secret = isConnectorProvider(provider) ? connectorSecret(env, provider) : null;
+            if (!isConnectorProvider(provider) || !secret) {
+                return errorResponse(404, 'not_found', 'Unknown or unconfigured connector');
+            }
+
+            if (Number(request.headers.get('Content-Length')) > MAX_WEBHOOK_BODY_BYTES) {
+                return errorResponse(413, 'payload_too_large', `Body must be at most ${MAX_WEBHOOK_BODY_BYTES} bytes`);
+            }
+            const raw = await request.text();
+            const connector = CONNECTORS[provider];
+            if (!(await connector.verify(request, raw, secret))) {
+                return errorResponse(401, 'invalid_signature', 'Webhook signature does not match');
+            }
+
+            let payload: any;
             try {
-                // const auth = requireAuth(request);
-                // if (!auth) return new Response('Unauthorized', { status: 401 });
-
-                const body = await request.json() as { message: string, query?: string };
-                const query = body.message || body.query;
-
-                // Step 1: Intent Extraction
-                const intentPrompt = `You are an intent router for a Product Feedback Copilot.
-Your only job is to read the user's message and output a SINGLE valid JSON object that matches the schema below exactly. Do not include any other text.
-Schema:
-{
-  "intent": "top_issues" | "bugs_recent" | "search" | "summary" | "issue_drilldown" | "help",
-  "params": { "hours": number, "days": number, "term": string, "id": string }
-}
-Rules:
-- Always output JSON only. No markdown, no explanations.
-- Use only the intents listed. If request does not match, use "help".
-- params must include ALL keys: hours, days, term, id.
-- If not applicable: hours=0, days=0, term="", id="".
-- Interpret time phrases:
-  - today => hours=24
-  - last day/past day/yesterday => hours=24
-  - last 6 hours => hours=6
-  - this week/last week/past week => days=7
-- Prefer hours if both mentioned, unless the user explicitly wants a weekly summary.
-- Map intent:
-  - top_issues: highest priority/highest pull/most urgent
-  - bugs_recent: bugs/breakages in recent window (default 24h if unspecified)
-  - summary: trend summary (default days=7)
-  - If user wants details/analysis for a specific issue ID (UUID), choose issue_drilldown.
-  - params: { id: "extracted_uuid" }
-- If user searches for topic/keyword: search.
-  - params: { term: "search_term" }
-  - help: capabilities/ambiguous
-- If user says show me everything: top_issues.`;
-
-                const intentResp = await runAIWithRetry(env, '@cf/meta/llama-3.1-8b-instruct', {
-                    messages: [
-                        { role: 'system', content: intentPrompt },
-                        { role: 'user', content: query }
-                    ]
+                payload = JSON.parse(raw);
+            } catch (e) {
+                return errorResponse(400, 'invalid_json', 'Body is not valid JSON');
+            }
+
+            const result = connector.map(payload, request);
+            if ('ignored' in result) {
+                return new Response(JSON.stringify({ ok: true, started: false, ignored: result.ignored }), {
+                    status: 202, headers: { 'Content-Type': 'application/json' }
                 });
+            }
 
-                let intentData = { intent: 'help', params: { hours: 0, days: 0, term: '', id: '' } };
-                try {
-                    let jsonStr = (intentResp as any).response;
+            // Provider redeliveries share the external id and text, so they dedupe like /ingest retries; edits start a new run
+            const dedupeKey = await externalDedupeKey(result.event.external_id!, result.event.content);
+            const { instanceId, duplicate } = await startIngestWorkflow(env.INGEST_WORKFLOW, result.event, dedupeKey);
+            return new Response(JSON.stringify({ ok: true, started: !duplicate, duplicate, instance_id: instanceId }), {
+                status: 202, headers: { 'Content-Type': 'application/json' }
+            });
+        }
 
-                    // 1. Strip Markdown Code Blocks
-                    jsonStr = jsonStr.replace(/```json/gi, '').replace(/```/g, '');
+        // POST /ingest/bulk - CSV or NDJSON export, fanned out to the workflow in batches
+        if (request.method === 'POST' && url.pathname === '/ingest/bulk') {
+            const auth = await requireAuth(request, env, 'triager', { allowApiKey: true });
+            if (!auth.ok) return auth.response;
 
-                    // 2. Extract JSON Object (Find outer braces)
-                    const firstOpen = jsonStr.indexOf('{');
-                    const lastClose = jsonStr.lastIndexOf('}');
+            const contentType = request.headers.get('Content-Type') || '';
+            const format = (url.searchParams.get('format') || (contentType.includes('csv') ? 'csv' : contentType.includes('ndjson') ? 'ndjson' : '')) as BulkFormat;
+            if (format !== 'csv' && format !== 'ndjson') {
+                return errorResponse(415, 'unsupported_media_type', 'Send text/csv or application/x-ndjson, or pass ?format=csv|ndjson');
+            }
 
-                    if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
-                        jsonStr = jsonStr.substring(firstOpen, lastClose + 1);
-                        intentData = JSON.parse(jsonStr);
-                    } else {
-                        console.error("Intent parsing: No JSON object found");
-                    }
-                } catch (e) {
-                    // strict default
-                    console.error("Intent parsing failed:", e);
-                }
+            // ?text_column=&source_column=&created_at_column=&external_id_column= map export columns onto feedback fields
+            const mapping = {
+                text: url.searchParams.get('text_column') || 'text',
+                source: auth.user.source ? undefined : url.searchParams.get('source_column') || 'source',
+                created_at: url.searchParams.get('created_at_column') || 'created_at',
+                external_id: url.searchParams.get('external_id_column') || 'external_id',
+            };
+            const defaultSource = auth.user.source || url.searchParams.get('source') || 'bulk';
+
+            // Checked before parsing, so an oversized upload is never held as rows
+            if (Number(request.headers.get('Content-Length')) > MAX_BULK_BODY_BYTES) {
+                return errorResponse(413, 'payload_too_large', `Body must be at most ${MAX_BULK_BODY_BYTES} bytes`);
+            }
+            const body = await request.text();
+            if (new TextEncoder().encode(body).length > MAX_BULK_BODY_BYTES) {
+                return errorResponse(413, 'payload_too_large', `Body must be at most ${MAX_BULK_BODY_BYTES} bytes`);
+            }
+            const rows = format === 'csv' ? parseCsv(body) : parseNdjson(body);
+            if (rows.length === 0) return errorResponse(400, 'empty_body', 'No rows found');
+            if (rows.length > MAX_BULK_ROWS) return errorResponse(413, 'payload_too_large', `At most ${MAX_BULK_ROWS} rows per request`);
+
+            const jobId = crypto.randomUUID();
+            const { accepted, errors } = mapRows(rows, mapping, defaultSource, jobId);
+            await createBulkJob(env.FEEDBACK_DB, jobId, { format, total: rows.length, events: accepted, errors, createdBy: auth.user.email });
+            // If this is cut off, the hourly cron resumes the job from its remaining batches
+            ctx.waitUntil(fanOutBulkJob(env.FEEDBACK_DB, env.INGEST_WORKFLOW, jobId));
+
+            return new Response(JSON.stringify({ ok: true, job_id: jobId, total: rows.length, accepted: accepted.length, rejected: errors.length }), {
+                status: 202, headers: { 'Content-Type': 'application/json' }
+            });
+        }
 
-                // Step 2: D1 Querying
-                let results: any[] = [];
-                const { intent, params } = intentData;
-
-                if (intent === 'top_issues') {
-                    const result = await env.FEEDBACK_DB.prepare(
-                        `SELECT * FROM feedback WHERE status='open' ORDER BY gravity_score DESC, created_at DESC LIMIT 25`
-                    ).all();
-                    results = result.results;
-                } else if (intent === 'bugs_recent') {
-                    const days = params.days || (params.hours ? params.hours / 24 : 1);
-                    const date = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
-                    const res = await env.FEEDBACK_DB.prepare(`SELECT * FROM feedback WHERE status='open' AND category='Bug' AND created_at >= ? ORDER BY gravity_score DESC, created_at DESC LIMIT 25`).bind(date).all();
-                    results = res.results;
-                } else if (intent === 'search') {
-                    const term = intentData.params.term || '';
-                    const result = await env.FEEDBACK_DB.prepare(
-                        `SELECT * FROM feedback WHERE status='open' AND (content LIKE ? OR category LIKE ?) ORDER BY gravity_score DESC LIMIT 25`
-                    ).bind(`%${term}%`, `%${term}%`).all();
-                    results = result.results;
-                } else if (intent === 'issue_drilldown') {
-                    const id = intentData.params.id || '';
-                    if (id) {
-                        const result = await env.FEEDBACK_DB.prepare(
-                            `SELECT * FROM feedback WHERE id = ? LIMIT 1`
-                        ).bind(id).first();
-                        if (result) results = [result];
-                    }
-                } else if (intent === 'summary') {
-                    const days = params.days || 7;
-                    const date = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
-                    const res = await env.FEEDBACK_DB.prepare(`SELECT * FROM feedback WHERE status='open' AND created_at >= ? ORDER BY gravity_score DESC`).bind(date).all();
-                    results = res.results;
-                } else if (intent === 'issue_drilldown') {
-                    const res = await env.FEEDBACK_DB.prepare(`SELECT * FROM feedback WHERE id = ? LIMIT 1`).bind(params.id).all();
-                    results = res.results;
-                }
+        // GET /ingest/jobs - Bulk job progress
+        if (request.method === 'GET' && url.pathname === '/ingest/jobs') {
+            const auth = await requireAuth(request, env, 'triager', { allowApiKey: true });
+            if (!auth.ok) return auth.response;
 
-                // Step 3: Grounded Answer
-                const answerPrompt = `You are a Product Feedback Copilot used by PMs.
-Return ONLY valid JSON that matches the schema exactly. Do not include markdown, tables, or extra keys.
-
-Schema:
-{
-  "summary": {
-    "headline": string,
-    "details": string,
-    "stats": [
-      {"label": string, "value": string}
-    ]
-  },
-  "top_issues": [
-    {
-      "rank": number,
-      "id": string,
-      "pull": number,
-      "heat": "High"|"Medium"|"Low",
-      "category": "Bug"|"UX"|"Feature"|"Other",
-      "source": string,
-      "title": string,
-      "one_liner": string,
-      "next_step": string
-    }
-  ],
-  "patterns": [
-    {"label": string, "evidence": string}
-  ],
-  "follow_up_question": string
-}
+            const id = url.searchParams.get('id');
+            if (!id) return new Response('Missing ID', { status: 400 });
+
+            const progress = await getBulkJobProgress(env.FEEDBACK_DB, id);
+            if (!progress) return new Response(JSON.stringify({ error: "Job not found" }), {
+                status: 404, headers: { 'Content-Type': 'application/json' }
+            });
+
+            return new Response(JSON.stringify(progress), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // GET /chat/conversations - The caller's conversations, or one transcript with ?id=
+        if (request.method === 'GET' && url.pathname === '/chat/conversations') {
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
+            const owner = auth.user.email.toLowerCase();
 
-Rules:
-- Output JSON only.
-- Use ONLY the provided TOOL_DATA. Never invent ids or issues.
-- If TOOL_DATA contains a single issue (issue_drilldown):
-  - summary: Provide a concise "Impact Analysis" and "Recommended Next Steps".
-  - top_issues: Return the single issue with enhanced next_step.
-  - patterns: List specific keywords or entities from this issue.
-  - follow_up_question="Show similar issues"
-- If TOOL_DATA contains items, you MUST include them in "top_issues". Do not filter them out unless they are completely irrelevant.
-- If TOOL_DATA is strictly empty (array length 0), ONLY THEN return:
-  summary.headline='No matching feedback found'
-  top_issues=[]
-  patterns=[]
-  follow_up_question="Show me all feedback"
-- follow_up_question MUST be a valid, executable query string (e.g. "Show me bugs", "Summarize last 7 days", "High priority issues").
-- follow_up_question MUST NOT be a conversational question to the user (e.g. "Would you like to...", "Please specify...").
-- VARY the follow_up_question based on the returned data. Do not always ask for bugs.
-  - If showing bugs -> suggest "Show me features" or "Weekly summary"
-  - If showing summary -> suggest "Show critical issues"
-  - If showing widespread issues -> suggest "Drill down into issue <ID>"
-- title must be short (max 8 words).
-- one_liner max 18 words.
-- next_step max 12 words, action verb first.
-- heat must be derived from pull:
-  pull >= 6 => High
-  pull >= 3 => Medium
-  else => Low
-- stats should include: total_items, bug_count, ux_count, feature_count (as strings).`;
-
-                const toolData = `TOOL_DATA: ${JSON.stringify(results)}`;
-                const answerResp = await runAIWithRetry(env, '@cf/meta/llama-3.1-8b-instruct', {
-                    messages: [
-                        { role: 'system', content: answerPrompt },
-                        { role: 'user', content: `USER_QUESTION: ${query}\nTOOL_DATA: ${toolData}\nNOW_ISO: ${new Date().toISOString()}` }
-                    ],
-                    max_tokens: 2500
+            const id = url.searchParams.get('id');
+            if (id) {
+                const conversation = await getConversation(env.FEEDBACK_DB, id, owner);
+                if (!conversation) return errorResponse(404, 'not_found', 'Conversation not found');
+                return new Response(JSON.stringify({ ...conversation, turns: await listTurns(env.FEEDBACK_DB, id) }), {
+                    headers: { 'Content-Type': 'application/json' }
                 });
+            }
 
-                let parsedAnswer = {};
-                try {
-                    let jsonStr = (answerResp as any).response;
-                    console.log("Raw AI Response:", jsonStr);
+            return new Response(JSON.stringify(await listConversations(env.FEEDBACK_DB, owner)), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
 
-                    // 1. Strip Markdown Code Blocks
-                    jsonStr = jsonStr.replace(/```json/gi, '').replace(/```/g, '');
+        // POST /chat/conversations/delete - Delete one of the caller's conversations
+        if (request.method === 'POST' && url.pathname === '/chat/conversations/delete') {
+            const auth = await requireAuth(request, env, 'viewer');
+            if (!auth.ok) return auth.response;
 
-                    // 2. Extract JSON Object (Find outer braces)
-                    const firstOpen = jsonStr.indexOf('{');
-                    const lastClose = jsonStr.lastIndexOf('}');
+            const parsed = await readJsonBody<{ id: string }>(request, { id: { type: 'string', required: true, pattern: ID_PATTERN, patternHint: 'must be a conversation id' } });
+            if (!parsed.ok) return parsed.response;
 
-                    if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
-                        jsonStr = jsonStr.substring(firstOpen, lastClose + 1);
-                        parsedAnswer = JSON.parse(jsonStr);
-                    } else {
-                        throw new Error("No JSON object found in response");
-                    }
-                } catch (e) {
-                    console.error("Failed to parse Final Answer JSON", e);
-                    parsedAnswer = {
-                        summary: { headline: "Error analyzing data", details: "The AI returned an invalid format.", stats: [] },
-                        top_issues: [], patterns: [], follow_up_question: "Try a simpler query."
-                    };
+            if (!(await deleteConversation(env.FEEDBACK_DB, parsed.value.id, auth.user.email.toLowerCase()))) {
+                return errorResponse(404, 'not_found', 'Conversation not found');
+            }
+            return new Response(JSON.stringify({ ok: true }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // POST /chat - RAG-lite; POST /chat/stream - same pipeline as server-sent events
+        if (request.method === 'POST' && (url.pathname === '/chat' || url.pathname === '/chat/stream')) {
+            try {
+                const auth = await requireAuth(request, env, 'viewer');
+                if (!auth.ok) return auth.response;
+
+                // UI chat sends { query }, Ask Copilot sends { message }; conversation_id continues a conversation
+                const parsed = await readJsonBody<{ message?: string; query?: string; conversation_id?: string }>(request, {
+                    message: { type: 'string', maxLength: 1000 },
+                    query: { type: 'string', maxLength: 1000 },
+                    conversation_id: { type: 'string', pattern: ID_PATTERN, patternHint: 'must be a conversation id' },
+                }, {
+                    check: b => (b.message || b.query || '').trim() ? [] : [{ field: 'message', message: 'is required' }]
+                });
+                if (!parsed.ok) return parsed.response;
+                const query = (parsed.value.message || parsed.value.query || '').trim();
+
+                const owner = auth.user.email.toLowerCase();
+                let conversation;
+                if (parsed.value.conversation_id) {
+                    const existing = await getConversation(env.FEEDBACK_DB, parsed.value.conversation_id, owner);
+                    if (!existing) return errorResponse(404, 'not_found', 'Conversation not found');
+                    conversation = { id: existing.id, history: await recentTurns(env.FEEDBACK_DB, existing.id) };
+                } else {
+                    conversation = { id: (await createConversation(env.FEEDBACK_DB, owner, query)).id, history: [] };
+                }
+
+                if (url.pathname === '/chat/stream') {
+                    const { readable, writable } = new TransformStream();
+                    const writer = writable.getWriter();
+                    const encoder = new TextEncoder();
+                    const send = (event: string, data: unknown) => writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+                    // Stages are written as they finish: intent, rows, token…, final (or error)
+                    ctx.waitUntil((async () => {
+                        try {
+                            await answerChat(env, query, auth.user, send, conversation);
+                        } catch (err: any) {
+                            console.error("Chat Stream Error:", err);
+                            await send('error', chatErrorAnswer("System Error", err.message, "Please try again later.")).catch(() => {});
+                        } finally {
+                            await writer.close().catch(() => {});
+                        }
+                    })());
+
+                    return new Response(readable, {
+                        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+                    });
                 }
 
-                return new Response(JSON.stringify(parsedAnswer), {
+                const answer = await answerChat(env, query, auth.user, undefined, conversation);
+                return new Response(JSON.stringify(answer), {
                     headers: { 'Content-Type': 'application/json' }
                 });
 
             } catch (err: any) {
                 console.error("Chat Error:", err);
-                return new Response(JSON.stringify({
-                    summary: { headline: "System Error", details: err.message, stats: [] },
-                    top_issues: [], patterns: [], follow_up_question: "Please try again later."
-                }), { status: 500, headers: { 'Content-Type': 'application/json' } });
+                return new Response(JSON.stringify(chatErrorAnswer("System Error", err.message, "Please try again later.")), {
+                    status: 500, headers: { 'Content-Type': 'application/json' }
+                });
             }
         }
 
         return new Response('Not Found', { status: 404 });
     },
+
+    // Cron: wake expired snoozes, then decay gravity with real age so stale issues sink; separately, resume cut-off bulk jobs and flag anomalies
+    async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+        const now = new Date(controller.scheduledTime);
+        ctx.waitUntil(
+            wakeSnoozedIssues(env.FEEDBACK_DB, now)
+                .then(woken => woken && console.log(`Woke ${woken} snoozed issues`))
+                .then(() => loadScoringPolicy(env.FEEDBACK_DB))
+                .then(policy => rescoreOpenFeedback(env.FEEDBACK_DB, now, policy))
+                .then(r => console.log(`Rescored ${r.feedback} feedback rows across ${r.issues} issues`))
+        );
+        ctx.waitUntil(
+            resumeBulkJobs(env.FEEDBACK_DB, env.INGEST_WORKFLOW, now)
+                .then(resumed => resumed && console.log(`Resumed ${resumed} bulk jobs`))
+        );
+        ctx.waitUntil(
+            detectAnomalies(env.FEEDBACK_DB, now)
+                .then(r => console.log(r.skipped ? `Skipped anomaly detection: ${r.skipped}` : `Checked ${r.subjects} subjects, ${r.anomalies.length} anomalies`))
+        );
+    },
 };
 
 // -----------------------------------------------------------------------------
 // UI Helpers
 // -----------------------------------------------------------------------------
-function htmlUI(topIssues: any[] = []) {
-    const listItems = topIssues.map(i => `
-        <div onclick="openIssue('${i.id}')" data-issue-id="${i.id}" class="bg-slate-900/50 p-3 rounded border border-slate-700/50 flex justify-between items-start gap-2 cursor-pointer hover:bg-slate-800/80 hover:shadow-lg hover:shadow-purple-900/20 transition-all group">
+// Most anomalies shown as banners on a page
+const MAX_BANNERS = 3;
+
+// Recent anomalies above the page content; on /app each one offers to ask the copilot about it
+function anomalyBanners(anomalies: Anomaly[], ask = false) {
+    if (!anomalies.length) return '';
+    return html`
+            <div class="space-y-2" role="status">
+                ${anomalies.map(a => html`
+                <div class="flex items-center justify-between gap-3 px-4 py-2 rounded-xl border text-sm ${a.kind === 'volume_spike' ? 'bg-amber-900/20 border-amber-500/40 text-amber-200' : 'bg-red-900/20 border-red-500/40 text-red-200'}">
+                    <span><span class="font-bold uppercase tracking-wider text-[10px] mr-2">${a.kind === 'volume_spike' ? 'Volume spike' : 'Sentiment drop'}</span>${describeAnomaly(a)}</span>
+                    ${ask && html`<button data-quick="Anything unusual today?" class="whitespace-nowrap text-xs underline opacity-80 hover:opacity-100">Ask copilot</button>`}
+                </div>`)}
+            </div>`;
+}
+
+// Issue modal for /app and /dashboard: opening, triage, timeline, closing and the copilot analysis.
+// Expects HEAT_BANDS, ISSUE_STATES, CLOSED_STATES, the modal markup and an onIssueClosed() on the page.
+const ISSUE_TRIAGE_SCRIPT = raw(`// Modal Logic
+            let currentIssueId = '';
+
+            async function openIssue(id) {
+                currentIssueId = id;
+                
+                // Reset Copilot Section
+                document.getElementById('copilotSection').classList.add('hidden');
+                document.getElementById('copilotSection').classList.add('animate-pulse');
+                document.getElementById('copilotContent').innerText = 'Thinking...';
+                document.getElementById('askCopilotBtn').disabled = false;
+                document.getElementById('askCopilotBtn').innerHTML = '<span class="text-purple-400">✨</span> Ask Copilot';
+
+                // Reset Close Button
+                const closeBtn = document.getElementById('closeIssueBtn');
+                closeBtn.disabled = false;
+                closeBtn.innerHTML = '<svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7"></path></svg> Close Issue';
+                closeBtn.className = "flex-1 bg-red-900/20 hover:bg-red-900/40 text-red-300 py-2 rounded-lg text-sm font-medium transition-all border border-red-900/50 hover:border-red-500/50 flex items-center justify-center gap-2";
+
+                // Show modal with loading state
+                const modal = document.getElementById('detailModal');
+                modal.classList.remove('hidden');
+                // Small interaction delay to allow display:block to apply before opacity transition
+                setTimeout(() => {
+                    modal.classList.remove('opacity-0');
+                    document.getElementById('modalContent').classList.remove('scale-95');
+                    document.getElementById('modalContent').classList.add('scale-100');
+                }, 10);
+
+                // Reset content
+                document.getElementById('modalTitle').innerText = 'Loading...';
+                document.getElementById('modalContentText').innerText = 'Fetching details...';
+
+                try {
+                    const res = await fetch('/issue?id=' + encodeURIComponent(id));
+                    if(!res.ok) throw new Error('Failed to load');
+                    const data = await res.json();
+
+                    // Populate
+                    document.getElementById('modalTitle').innerText = data.content.substring(0, 50) + (data.content.length > 50 ? '...' : '');
+                    document.getElementById('modalContentText').innerText = data.content;
+                    document.getElementById('modalCategory').innerText = data.category;
+                    document.getElementById('modalPull').innerText = \`Pull: \${data.gravity_score}\`;
+                    document.getElementById('modalSource').innerText = (data.report_count > 1 ? \`\${data.source} (+\${data.report_count - 1} similar)\` : data.source) + (data.author ? ' · ' + data.author : '');
+                    document.getElementById('modalSentiment').innerText = data.sentiment;
+                    document.getElementById('modalDate').innerText = new Date(data.created_at).toLocaleDateString();
+                    document.getElementById('modalExplanation').innerText = data.explanation || "No AI explanation available.";
+                    loadTimeline(id);
+
+                    // Only the chat UI's modal has a suggestion line
+                    const nextStep = document.getElementById('modalNextStep');
+                    if (nextStep) nextStep.innerText = "Triage this issue immediately";
+
+                    // Heat Badge Logic
+                    const badge = document.getElementById('modalBadge');
+                    let badgeClass = 'bg-blue-900/30 text-blue-300 border-blue-700/50';
+                    let heatTxt = 'Low';
+                    if (data.gravity_score >= HEAT_BANDS.high) { badgeClass = 'bg-red-900/30 text-red-300 border-red-500/50'; heatTxt = 'High'; }
+                    else if (data.gravity_score >= HEAT_BANDS.medium) { badgeClass = 'bg-amber-900/30 text-amber-300 border-amber-500/50'; heatTxt = 'Medium'; }
+                    badge.className = \`text-xs font-bold px-2 py-1 rounded border \${badgeClass}\`;
+                    badge.innerText = heatTxt;
+
+                    // Status Check
+                    populateTriage(data);
+                    if (CLOSED_STATES.includes(data.status)) {
+                         closeBtn.disabled = true;
+                         closeBtn.innerHTML = "Closed ✓";
+                         closeBtn.className = "flex-1 bg-slate-800/50 text-slate-500 py-2 rounded-lg text-sm font-medium border border-slate-800 cursor-not-allowed flex items-center justify-center gap-2";
+                    }
+
+                } catch (e) {
+                     document.getElementById('modalContentText').textContent = 'Error: ' + e.message;
+                }
+            }
+
+            // Triage Logic
+            let currentStatus = '';
+
+            function populateTriage(data) {
+                currentStatus = data.status;
+                const select = document.getElementById('statusSelect');
+                select.replaceChildren(...ISSUE_STATES.map(s => {
+                    const opt = document.createElement('option');
+                    opt.value = s;
+                    opt.textContent = s.replace('_', ' ');
+                    return opt;
+                }));
+                select.value = data.status;
+                document.getElementById('assigneeInput').value = data.assignee || '';
+            }
+
+            async function changeStatus(status) {
+                const select = document.getElementById('statusSelect');
+                const body = { id: currentIssueId, status: status };
+                if (status === 'snoozed') {
+                    const until = prompt('Snooze until (YYYY-MM-DD):');
+                    if (!until) { select.value = currentStatus; return; }
+                    body.snoozed_until = until;
+                }
+                const res = await fetch('/issue/transition', {
+                    method: 'POST',
+                    headers: {'Content-Type': 'application/json'},
+                    body: JSON.stringify(body)
+                });
+                if (!res.ok) {
+                    alert(await res.text());
+                    select.value = currentStatus;
+                    return;
+                }
+                currentStatus = status;
+                loadTimeline(currentIssueId);
+            }
+
+            async function assignTo(assignee) {
+                const res = await fetch('/issue/assign', {
+                    method: 'POST',
+                    headers: {'Content-Type': 'application/json'},
+                    body: JSON.stringify({ id: currentIssueId, assignee: assignee || null })
+                });
+                if (!res.ok) { alert(await res.text()); return; }
+                loadTimeline(currentIssueId);
+            }
+
+            // Timeline Logic
+            function describeEvent(e) {
+                const before = e.before_value || {};
+                const after = e.after_value || {};
+                switch (e.type) {
+                    case 'close': return 'closed the issue';
+                    case 'reopen': return 'reopened the issue';
+                    case 'status': return 'moved ' + before.status + ' → ' + after.status + (after.snoozed_until ? ' until ' + new Date(after.snoozed_until).toLocaleDateString() : '');
+                    case 'assign': return after.assignee ? 'assigned ' + after.assignee : 'unassigned the issue';
+                    case 'recategorize': return 'recategorized ' + before.category + ' → ' + after.category;
+                    case 'rescore': return 'rescored ' + before.gravity_score + ' → ' + after.gravity_score;
+                    case 'merge': return after.merged_from ? 'merged another issue into this one' : 'merged this issue into another';
+                    case 'comment': return 'commented: ' + after.comment;
+                    default: return e.type;
+                }
+            }
+
+            async function loadTimeline(id) {
+                const list = document.getElementById('timelineList');
+                list.replaceChildren();
+                try {
+                    const res = await fetch('/issue/history?id=' + encodeURIComponent(id));
+                    if (!res.ok) throw new Error('Failed to load history');
+                    const data = await res.json();
+                    if (!data.events.length) {
+                        const empty = document.createElement('li');
+                        empty.className = 'italic text-slate-600';
+                        empty.textContent = 'No changes recorded yet';
+                        list.appendChild(empty);
+                        return;
+                    }
+                    data.events.forEach(e => {
+                        const li = document.createElement('li');
+                        li.className = 'flex gap-2';
+                        const when = document.createElement('span');
+                        when.className = 'text-slate-600 font-mono whitespace-nowrap';
+                        when.textContent = new Date(e.created_at).toLocaleString();
+                        const what = document.createElement('span');
+                        what.textContent = e.actor + ' ' + describeEvent(e) + (e.reason ? ' (' + e.reason + ')' : '');
+                        li.append(when, what);
+                        list.appendChild(li);
+                    });
+                } catch (e) {
+                    const err = document.createElement('li');
+                    err.className = 'text-red-400';
+                    err.textContent = e.message;
+                    list.appendChild(err);
+                }
+            }
+
+            async function closeIssue() {
+                const reason = prompt("Mark this issue as closed? Optionally add a reason:");
+                if (reason === null) return;
+                
+                const btn = document.getElementById('closeIssueBtn');
+                const originalText = btn.innerHTML;
+                btn.innerHTML = "Closing...";
+                btn.disabled = true;
+
+                try {
+                     const res = await fetch('/issue/close', {
+                        method: 'POST',
+                        headers: {'Content-Type': 'application/json'},
+                        body: JSON.stringify({ id: currentIssueId, reason: reason || undefined })
+                    });
+                    if (!res.ok) throw new Error('Failed to close');
+                    
+                    // Success UI
+                    btn.innerHTML = "Closed ✓";
+                    btn.className = "flex-1 bg-slate-800/50 text-slate-500 py-2 rounded-lg text-sm font-medium border border-slate-800 cursor-not-allowed flex items-center justify-center gap-2";
+                    
+                    onIssueClosed();
+                } catch (e) {
+                    alert(e.message);
+                    btn.innerHTML = originalText;
+                    btn.disabled = false;
+                }
+            }
+
+            function closeModal() {
+                 const modal = document.getElementById('detailModal');
+                 modal.classList.add('opacity-0');
+                 document.getElementById('modalContent').classList.add('scale-95');
+                 setTimeout(() => {
+                    modal.classList.add('hidden');
+                 }, 300);
+            }
+
+            async function askCopilot() {
+                if (!currentIssueId) return;
+                
+                const btn = document.getElementById('askCopilotBtn');
+                const box = document.getElementById('copilotSection');
+                const content = document.getElementById('copilotContent');
+                
+                // Loading State
+                btn.disabled = true;
+                btn.innerHTML = '<span class="animate-spin">⏳</span> Analyzing...';
+                box.classList.remove('hidden');
+                
+                try {
+                    const msg = \`Give me impact analysis and recommended next steps for issue \${currentIssueId}\`;
+                    const res = await fetch('/chat', {
+                        method: 'POST',
+                        headers: {'Content-Type': 'application/json'},
+                        body: JSON.stringify({ message: msg })
+                    });
+                    
+                    if (!res.ok) throw new Error('Analysis failed');
+                    const data = await res.json();
+                    
+                    // Render Output
+                    box.classList.remove('animate-pulse');
+                    const details = data.summary?.details || "No analysis returned.";
+                    content.textContent = details;
+                    
+                    btn.innerHTML = '<span class="text-green-400">✔</span> Analysis Complete';
+                    
+                } catch (e) {
+                    box.classList.add('hidden');
+                    alert('Failed to get analysis: ' + e.message);
+                    btn.disabled = false;
+                    btn.innerHTML = '<span class="text-purple-400">✨</span> Ask Copilot';
+                }
+            }
+
+            // Close with Escape
+            document.addEventListener('keydown', (e) => {
+                if (e.key === 'Escape') closeModal();
+            });
+
+            // Event wiring (no inline handlers: the CSP blocks them)
+            document.addEventListener('click', (e) => {
+                const card = e.target.closest('[data-issue-id]');
+                if (card) openIssue(card.dataset.issueId);
+            });
+            document.getElementById('detailModal').addEventListener('click', (e) => {
+                if (e.target === e.currentTarget) closeModal();
+            });
+            document.getElementById('modalCloseBtn').addEventListener('click', closeModal);
+            document.getElementById('askCopilotBtn').addEventListener('click', askCopilot);
+            document.getElementById('closeIssueBtn').addEventListener('click', closeIssue);
+            document.getElementById('statusSelect').addEventListener('change', (e) => changeStatus(e.target.value));
+            document.getElementById('assigneeForm').addEventListener('submit', (e) => {
+                e.preventDefault();
+                assignTo(document.getElementById('assigneeInput').value);
+            });
+`);
+
+function htmlUI(topIssues: any[] = [], policy: ScoringPolicy, demoMode = false, nonce: string, anomalies: Anomaly[] = []) {
+    const listItems = topIssues.map(i => html`
+        <div data-issue-id="${i.id}" class="bg-slate-900/50 p-3 rounded border border-slate-700/50 flex justify-between items-start gap-2 cursor-pointer hover:bg-slate-800/80 hover:shadow-lg hover:shadow-purple-900/20 transition-all group">
             <div class="min-w-0 flex-1">
                 <div class="text-sm text-slate-300 font-medium truncate group-hover:text-purple-300 transition-colors">${i.content}</div>
-                <div class="text-xs text-slate-500">${i.category} • ${i.source}</div>
+                <div class="text-xs text-slate-500">${i.category} • ${i.source}${i.report_count > 1 && ` • ${i.report_count} reports`}</div>
             </div>
             <span class="text-xs font-mono font-bold text-purple-400 bg-purple-900/30 px-2 py-1 rounded whitespace-nowrap">Pull: ${i.gravity_score}</span>
         </div>
-    `).join('');
+    `);
 
-    return `
+    return html`
 	<!DOCTYPE html>
 	<html lang="en">
 	<head>
 		<meta charset="UTF-8">
 		<meta name="viewport" content="width=device-width, initial-scale=1.0">
 		<title>Feedback Copilot</title>
-		<script src="https://cdn.tailwindcss.com"></script>
+		<script src="https://cdn.tailwindcss.com" nonce="${nonce}"></script>
 	</head>
 	<body class="bg-slate-950 text-white min-h-screen p-8 transition-colors duration-500 font-sans">
 		<div class="max-w-5xl mx-auto space-y-8 flex gap-8">
@@ -493,7 +1349,9 @@ function htmlUI(topIssues: any[] = []) {
             <div class="flex-1 space-y-8">
                 <header class="flex justify-between items-center">
                     <h1 class="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-indigo-400">Feedback Copilot</h1>
+                    <button id="newChatBtn" class="text-xs text-slate-400 hover:text-white border border-slate-700 hover:border-purple-500/50 px-3 py-1.5 rounded-lg transition-all">New conversation</button>
                 </header>
+                ${anomalyBanners(anomalies, true)}
 
                 <div class="bg-slate-900/80 backdrop-blur p-6 rounded-2xl border border-slate-700/50 h-[700px] flex flex-col shadow-2xl shadow-purple-900/10">
                     <div id="chatHistory" class="flex-1 overflow-y-auto space-y-6 mb-4 pr-2">
@@ -505,9 +1363,9 @@ function htmlUI(topIssues: any[] = []) {
                     </div>
                     
                     <div class="flex gap-2 mb-4 overflow-x-auto pb-2 scrollbar-hide">
-                        <button onclick="sendQuick('Show me top issues')" class="whitespace-nowrap bg-slate-800 hover:bg-purple-900/30 hover:border-purple-500/50 px-3 py-1.5 rounded-full text-xs text-purple-300 border border-slate-600 transition-all">🔥 Top Issues</button>
-                        <button onclick="sendQuick('Show me critical bugs from the last 24h')" class="whitespace-nowrap bg-slate-800 hover:bg-red-900/30 hover:border-red-500/50 px-3 py-1.5 rounded-full text-xs text-red-300 border border-slate-600 transition-all">🚨 Bugs 24h</button>
-                        <button onclick="sendQuick('Give me a weekly summary')" class="whitespace-nowrap bg-slate-800 hover:bg-emerald-900/30 hover:border-emerald-500/50 px-3 py-1.5 rounded-full text-xs text-emerald-300 border border-slate-600 transition-all">📊 Weekly Summary</button>
+                        <button data-quick="Show me top issues" class="whitespace-nowrap bg-slate-800 hover:bg-purple-900/30 hover:border-purple-500/50 px-3 py-1.5 rounded-full text-xs text-purple-300 border border-slate-600 transition-all">🔥 Top Issues</button>
+                        <button data-quick="Show me critical bugs from the last 24h" class="whitespace-nowrap bg-slate-800 hover:bg-red-900/30 hover:border-red-500/50 px-3 py-1.5 rounded-full text-xs text-red-300 border border-slate-600 transition-all">🚨 Bugs 24h</button>
+                        <button data-quick="Give me a weekly summary" class="whitespace-nowrap bg-slate-800 hover:bg-emerald-900/30 hover:border-emerald-500/50 px-3 py-1.5 rounded-full text-xs text-emerald-300 border border-slate-600 transition-all">📊 Weekly Summary</button>
                     </div>
 
                     <form id="chatForm" class="flex gap-3 relative">
@@ -528,8 +1386,8 @@ function htmlUI(topIssues: any[] = []) {
                     </a>
                 </div>
 
-                <!-- Mock Ingest -->
-                <div class="bg-slate-900/80 backdrop-blur p-5 rounded-xl border border-slate-700/50 space-y-3 shadow-lg">
+                <!-- Mock Ingest (demo mode only) -->
+                <div class="${demoMode ? '' : 'hidden '}bg-slate-900/80 backdrop-blur p-5 rounded-xl border border-slate-700/50 space-y-3 shadow-lg">
                     <h3 class="text-xs font-bold uppercase tracking-widest text-slate-500">Actions</h3>
                     <button id="mockIngestBtn" class="w-full bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white py-2 rounded-lg text-sm font-bold shadow-lg shadow-purple-900/20 transition-all active:scale-95">
                         🎲 Mock Ingest
@@ -544,14 +1402,14 @@ function htmlUI(topIssues: any[] = []) {
                         <span class="text-purple-400">⚡️</span>
                      </h3>
                      <div class="space-y-3">
-                        ${listItems || '<div class="text-slate-600 text-xs italic text-center py-4">No data yet</div>'}
+                        ${listItems.length ? listItems : html`<div class="text-slate-600 text-xs italic text-center py-4">No data yet</div>`}
                      </div>
                 </div>
             </div>
 		</div>
 
         <!-- Detail Modal -->
-        <div id="detailModal" class="fixed inset-0 bg-black/80 backdrop-blur-sm hidden flex items-center justify-center z-50 p-4 transition-opacity duration-300 opacity-0" onclick="if(event.target === this) closeModal()">
+        <div id="detailModal" class="fixed inset-0 bg-black/80 backdrop-blur-sm hidden flex items-center justify-center z-50 p-4 transition-opacity duration-300 opacity-0">
             <div class="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl shadow-purple-900/50 transform scale-95 transition-all duration-300" id="modalContent">
                 <!-- Header -->
                 <div class="p-6 border-b border-slate-800 flex justify-between items-start">
@@ -563,7 +1421,7 @@ function htmlUI(topIssues: any[] = []) {
                         </div>
                          <h2 class="text-xl font-bold text-white leading-tight mt-2" id="modalTitle">Issue Title</h2>
                     </div>
-                    <button onclick="closeModal()" class="text-slate-500 hover:text-white transition-colors bg-slate-800 hover:bg-slate-700 rounded-lg p-2">
+                    <button id="modalCloseBtn" class="text-slate-500 hover:text-white transition-colors bg-slate-800 hover:bg-slate-700 rounded-lg p-2">
                         <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12"></path></svg>
                     </button>
                 </div>
@@ -602,10 +1460,31 @@ function htmlUI(topIssues: any[] = []) {
                          <h3 class="text-xs font-bold uppercase tracking-widest text-purple-400 flex items-center gap-2">
                             <span>🤖 Copilot Analysis</span>
                         </h3>
-                        <div id="copilotContent" class="text-sm text-slate-300 leading-relaxed space-y-2">
+                        <div id="copilotContent" class="text-sm text-slate-300 leading-relaxed space-y-2 whitespace-pre-line">
                             Thinking...
                         </div>
                     </div>
+
+                    <!-- Triage -->
+                    <div class="grid grid-cols-2 gap-3 border-t border-slate-800 pt-4 text-xs">
+                        <label class="flex flex-col gap-1">
+                            <span class="uppercase tracking-wider font-bold text-slate-500 opacity-50">State</span>
+                            <select id="statusSelect" class="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-300 outline-none focus:border-purple-500"></select>
+                        </label>
+                        <form id="assigneeForm" class="flex flex-col gap-1">
+                            <span class="uppercase tracking-wider font-bold text-slate-500 opacity-50">Assignee</span>
+                            <div class="flex gap-2">
+                                <input id="assigneeInput" type="email" placeholder="Unassigned" class="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-300 outline-none focus:border-purple-500">
+                                <button type="submit" class="bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 rounded-lg border border-slate-700">Save</button>
+                            </div>
+                        </form>
+                    </div>
+
+                    <!-- Timeline -->
+                    <div class="border-t border-slate-800 pt-4">
+                        <h3 class="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Timeline</h3>
+                        <ol id="timelineList" class="space-y-2 text-xs text-slate-400 max-h-40 overflow-y-auto"></ol>
+                    </div>
                 </div>
 
                     <div class="p-4 bg-slate-950/30 rounded-b-2xl border-t border-slate-800 flex flex-col gap-3">
@@ -615,10 +1494,10 @@ function htmlUI(topIssues: any[] = []) {
                     </div>
                     
                     <div class="flex gap-2">
-                         <button id="askCopilotBtn" onclick="askCopilot()" class="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white py-2 rounded-lg text-sm font-medium transition-all border border-slate-700 hover:border-purple-500/50 flex items-center justify-center gap-2">
+                         <button id="askCopilotBtn" class="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white py-2 rounded-lg text-sm font-medium transition-all border border-slate-700 hover:border-purple-500/50 flex items-center justify-center gap-2">
                             <span class="text-purple-400">✨</span> Ask Copilot
                         </button>
-                         <button id="closeIssueBtn" onclick="closeIssue()" class="flex-1 bg-red-900/20 hover:bg-red-900/40 text-red-300 py-2 rounded-lg text-sm font-medium transition-all border border-red-900/50 hover:border-red-500/50 flex items-center justify-center gap-2">
+                         <button id="closeIssueBtn" class="flex-1 bg-red-900/20 hover:bg-red-900/40 text-red-300 py-2 rounded-lg text-sm font-medium transition-all border border-red-900/50 hover:border-red-500/50 flex items-center justify-center gap-2">
                             <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7"></path></svg>
                             Close Issue
                         </button>
@@ -627,16 +1506,21 @@ function htmlUI(topIssues: any[] = []) {
             </div>
         </div>
 
-		<script>
+		<script nonce="${nonce}">
+            const HEAT_BANDS = ${jsonForScript(policy.heatBands)};
+            const ISSUE_STATES = ${jsonForScript(ISSUE_STATES)};
+            const CLOSED_STATES = ${jsonForScript(CLOSED_STATES)};
+
             // Mock Ingest Logic
-            document.getElementById('mockIngestBtn').addEventListener('click', async () => {
+            document.getElementById('mockIngestBtn')?.addEventListener('click', async () => {
                 const btn = document.getElementById('mockIngestBtn');
                 const originalText = btn.innerText;
                 btn.innerText = 'Runing...';
                 btn.disabled = true;
                 
                 try {
-                    await fetch('/ingest', { method: 'POST', body: '{}' }); // Empty body triggers random
+                    const res = await fetch('/demo/ingest-random', { method: 'POST' });
+                    if (!res.ok) throw new Error(\`Server error \${res.status}\`);
                     window.location.reload();
                 } catch(e) {
                     alert('Ingest failed');
@@ -646,244 +1530,178 @@ function htmlUI(topIssues: any[] = []) {
             });
 
 			const chatHistory = document.getElementById('chatHistory');
-			
-			function addMsg(html, isUser) {
-				const div = document.createElement('div');
-				div.className = \`flex \${isUser ? 'justify-end' : 'justify-start w-full'}\`;
-				div.innerHTML = isUser 
-                    ? \`<div class="bg-purple-600 text-white rounded-2xl rounded-tr-sm p-3 max-w-[85%] text-sm shadow-md mb-2">\${html}</div>\` 
-                    : \`<div class="max-w-[100%] w-full animate-fade-in">\${html}</div>\`;
-				chatHistory.appendChild(div);
-				chatHistory.scrollTop = chatHistory.scrollHeight;
-			}
-
-            function renderChatResponse(data) {
-                if (!data || !data.summary) return '<div class="text-red-400 p-2">Invalid response format</div>';
-
-                // 1. Summary Card
-                let html = \`
-                    <div class="bg-slate-800 rounded-xl border border-slate-700 p-4 mb-4 shadow-lg">
-                        <h3 class="text-md font-bold text-white mb-1">\${data.summary.headline}</h3>
-                        <p class="text-slate-400 text-sm mb-3 leading-relaxed">\${data.summary.details}</p>
-                        <div class="flex flex-wrap gap-2">
-                \`;
-                
-                // Stats Chips
-                if (data.summary.stats) {
-                    data.summary.stats.forEach(s => {
-                        html += \`
-                            <span class="px-2 py-1 rounded bg-slate-700/50 border border-slate-600 text-xs text-slate-300 font-mono">
-                                <span class="text-slate-500 mr-1">\${s.label}:</span>\${s.value}
-                            </span>
-                        \`;
-                    });
-                }
-                html += \`</div></div>\`;
+            const chatGreeting = chatHistory.firstElementChild;
 
-                // 2. Top Issues Cards
-                if (data.top_issues && data.top_issues.length > 0) {
-                     html += \`<div class="space-y-3 mb-4">\`;
-                     data.top_issues.forEach(issue => {
-                        let badgeColor = 'bg-blue-900/30 text-blue-300 border-blue-700/50';
-                        if (issue.heat === 'High') badgeColor = 'bg-red-900/30 text-red-300 border-red-500/50';
-                        if (issue.heat === 'Medium') badgeColor = 'bg-amber-900/30 text-amber-300 border-amber-500/50';
+            // Follow-ups are sent with the conversation id the server returned
+            let conversationId = null;
+            document.getElementById('newChatBtn').addEventListener('click', () => {
+                conversationId = null;
+                chatHistory.replaceChildren(chatGreeting);
+            });
 
-                        html += \`
-                            <div onclick="openIssue('\${issue.id}')" data-issue-id="\${issue.id}" class="bg-slate-900/40 rounded-lg border border-slate-700/50 p-3 hover:bg-slate-800/60 transition-colors group cursor-pointer hover:shadow-lg hover:shadow-purple-900/10">
-                                <div class="flex justify-between items-start mb-1">
-                                    <div class="flex items-center gap-2">
-                                        <span class="text-xs font-bold text-slate-500">#\${issue.rank}</span>
-                                        <span class="px-1.5 py-0.5 rounded text-[10px] font-bold border \${badgeColor}">\${issue.heat}</span>
-                                        <span class="text-xs text-slate-400 border border-slate-700 px-1 rounded">\${issue.category}</span>
-                                    </div>
-                                    <span class="text-xs font-mono font-bold text-slate-500 group-hover:text-purple-400 transition-colors">Pull: \${issue.pull}</span>
-                                </div>
-                                <div class="font-medium text-slate-200 text-sm mb-1">\${issue.title}</div>
-                                <div class="text-xs text-slate-500 mb-2 line-clamp-2">\${issue.one_liner}</div>
-                                <div class="flex items-center text-[10px] text-purple-300 gap-1 bg-purple-900/10 px-2 py-1 rounded w-fit">
-                                    <span class="opacity-50 uppercase tracking-widest">Next:</span> \${issue.next_step}
-                                </div>
-                            </div>
-                        \`;
-                     });
-                     html += \`</div>\`;
-                }
+            // DOM-safe element builder: strings become text nodes, never markup
+            function el(tag, className, ...children) {
+                const node = document.createElement(tag);
+                if (className) node.className = className;
+                node.append(...children.filter(c => c !== null && c !== undefined && c !== false).map(c => c instanceof Node ? c : String(c)));
+                return node;
+            }
 
-                // 3. Follow-up
-                if (data.follow_up_question) {
-                     html += \`
-                        <div class="flex justify-end mt-2">
-                            <button onclick="sendQuick('\${data.follow_up_question}')" class="text-xs text-indigo-400 hover:text-indigo-300 hover:underline flex items-center gap-1 transition-colors">
-                                \${data.follow_up_question}
-                                <svg class="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M14 5l7 7m0 0l-7 7m7-7H3"></path></svg>
-                            </button>
-                        </div>
-                     \`;
-                }
+			function addMsg(content, isUser) {
+				const div = el('div', isUser ? 'flex justify-end' : 'flex justify-start w-full');
+				div.appendChild(isUser
+                    ? el('div', 'bg-purple-600 text-white rounded-2xl rounded-tr-sm p-3 max-w-[85%] text-sm shadow-md mb-2', content)
+                    : el('div', 'max-w-[100%] w-full animate-fade-in', content));
+				chatHistory.appendChild(div);
+				chatHistory.scrollTop = chatHistory.scrollHeight;
+			}
 
-                return html;
+            function errorMsg(text, extraClass) {
+                return el('div', 'text-red-400 bg-red-900/20 p-3 rounded border border-red-800' + (extraClass ? ' ' + extraClass : ''), text);
             }
 
-            function sendQuick(text) {
-                document.getElementById('chatInput').value = text;
-                document.getElementById('chatForm').requestSubmit();
+            // Cited reports as chips; the delegated [data-issue-id] click handler opens each one
+            function citationList(ids) {
+                const list = el('div', 'flex flex-wrap items-center gap-1 mt-3');
+                if (!ids || !ids.length) return list;
+                list.appendChild(el('span', 'text-[10px] uppercase tracking-widest text-slate-500 mr-1', 'Sources'));
+                ids.forEach((id, idx) => {
+                    const chip = el('button', 'px-1.5 py-0.5 rounded bg-slate-900/60 border border-slate-700 text-[10px] font-mono text-slate-400 hover:text-purple-300', '[' + (idx + 1) + ']');
+                    chip.title = id;
+                    chip.dataset.issueId = id;
+                    list.appendChild(chip);
+                });
+                return list;
             }
 
-            // Modal Logic
-            let currentIssueId = '';
-
-            async function openIssue(id) {
-                currentIssueId = id;
-                
-                // Reset Copilot Section
-                document.getElementById('copilotSection').classList.add('hidden');
-                document.getElementById('copilotSection').classList.add('animate-pulse');
-                document.getElementById('copilotContent').innerText = 'Thinking...';
-                document.getElementById('askCopilotBtn').disabled = false;
-                document.getElementById('askCopilotBtn').innerHTML = '<span class="text-purple-400">✨</span> Ask Copilot';
-
-                // Reset Close Button
-                const closeBtn = document.getElementById('closeIssueBtn');
-                closeBtn.disabled = false;
-                closeBtn.innerHTML = '<svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7"></path></svg> Close Issue';
-                closeBtn.className = "flex-1 bg-red-900/20 hover:bg-red-900/40 text-red-300 py-2 rounded-lg text-sm font-medium transition-all border border-red-900/50 hover:border-red-500/50 flex items-center justify-center gap-2";
-
-                // Show modal with loading state
-                const modal = document.getElementById('detailModal');
-                modal.classList.remove('hidden');
-                // Small interaction delay to allow display:block to apply before opacity transition
-                setTimeout(() => {
-                    modal.classList.remove('opacity-0');
-                    document.getElementById('modalContent').classList.remove('scale-95');
-                    document.getElementById('modalContent').classList.add('scale-100');
-                }, 10);
-
-                // Reset content
-                document.getElementById('modalTitle').innerText = 'Loading...';
-                document.getElementById('modalContentText').innerText = 'Fetching details...';
-
-                try {
-                    const res = await fetch(\`/issue?id=\${id}\`);
-                    if(!res.ok) throw new Error('Failed to load');
-                    const data = await res.json();
+            function renderChatResponse(data) {
+                if (!data || !data.summary) return el('div', 'text-red-400 p-2', 'Invalid response format');
+                const root = el('div', '');
 
-                    // Populate
-                    document.getElementById('modalTitle').innerText = data.content.substring(0, 50) + (data.content.length > 50 ? '...' : '');
-                    document.getElementById('modalContentText').innerText = data.content;
-                    document.getElementById('modalCategory').innerText = data.category;
-                    document.getElementById('modalPull').innerText = \`Pull: \${data.gravity_score}\`;
-                    document.getElementById('modalSource').innerText = data.source;
-                    document.getElementById('modalSentiment').innerText = data.sentiment;
-                    document.getElementById('modalDate').innerText = new Date(data.created_at).toLocaleDateString();
-                    document.getElementById('modalExplanation').innerText = data.explanation || "No AI explanation available.";
-                    
-                    // Infer next step (mock logic since it's not in DB, or use explanation)
-                    // Ideally this should come from AI, but for now we repurpose the short explanation or a generic msg
-                    // Just purely using explanation as a placeholder for now to match UI requirement
-                    document.getElementById('modalNextStep').innerText = "Triage this issue immediately"; 
+                // 1. Summary Card
+                const chips = el('div', 'flex flex-wrap gap-2');
+                (data.summary.stats || []).forEach(s => {
+                    chips.appendChild(el('span', 'px-2 py-1 rounded bg-slate-700/50 border border-slate-600 text-xs text-slate-300 font-mono',
+                        el('span', 'text-slate-500 mr-1', s.label + ':'), s.value));
+                });
+                root.appendChild(el('div', 'bg-slate-800 rounded-xl border border-slate-700 p-4 mb-4 shadow-lg',
+                    el('h3', 'text-md font-bold text-white mb-1', data.summary.headline),
+                    el('p', 'text-slate-400 text-sm mb-3 leading-relaxed', data.summary.details),
+                    chips,
+                    citationList(data.summary.citations)));
 
-                    // Heat Badge Logic
-                    const badge = document.getElementById('modalBadge');
-                    let badgeClass = 'bg-blue-900/30 text-blue-300 border-blue-700/50';
-                    let heatTxt = 'Low';
-                    if (data.gravity_score >= 6) { badgeClass = 'bg-red-900/30 text-red-300 border-red-500/50'; heatTxt = 'High'; }
-                    else if (data.gravity_score >= 3) { badgeClass = 'bg-amber-900/30 text-amber-300 border-amber-500/50'; heatTxt = 'Medium'; }
-                    badge.className = \`text-xs font-bold px-2 py-1 rounded border \${badgeClass}\`;
-                    badge.innerText = heatTxt;
+                // 2. Top Issues Cards
+                if (data.top_issues && data.top_issues.length > 0) {
+                     const list = el('div', 'space-y-3 mb-4');
+                     data.top_issues.forEach(issue => {
+                        let badgeColor = 'bg-blue-900/30 text-blue-300 border-blue-700/50';
+                        if (issue.heat === 'High') badgeColor = 'bg-red-900/30 text-red-300 border-red-500/50';
+                        if (issue.heat === 'Medium') badgeColor = 'bg-amber-900/30 text-amber-300 border-amber-500/50';
 
-                    // Status Check
-                    if (data.status === 'closed') {
-                         closeBtn.disabled = true;
-                         closeBtn.innerHTML = "Closed ✓";
-                         closeBtn.className = "flex-1 bg-slate-800/50 text-slate-500 py-2 rounded-lg text-sm font-medium border border-slate-800 cursor-not-allowed flex items-center justify-center gap-2";
-                    }
+                        const card = el('div', 'bg-slate-900/40 rounded-lg border border-slate-700/50 p-3 hover:bg-slate-800/60 transition-colors group cursor-pointer hover:shadow-lg hover:shadow-purple-900/10',
+                            el('div', 'flex justify-between items-start mb-1',
+                                el('div', 'flex items-center gap-2',
+                                    el('span', 'text-xs font-bold text-slate-500', '#' + issue.rank),
+                                    el('span', 'px-1.5 py-0.5 rounded text-[10px] font-bold border ' + badgeColor, issue.heat),
+                                    el('span', 'text-xs text-slate-400 border border-slate-700 px-1 rounded', issue.category)),
+                                el('span', 'text-xs font-mono font-bold text-slate-500 group-hover:text-purple-400 transition-colors', 'Pull: ' + issue.pull)),
+                            el('div', 'font-medium text-slate-200 text-sm mb-1', issue.title),
+                            el('div', 'text-xs text-slate-500 mb-2 line-clamp-2', issue.one_liner),
+                            el('div', 'flex items-center text-[10px] text-purple-300 gap-1 bg-purple-900/10 px-2 py-1 rounded w-fit',
+                                el('span', 'opacity-50 uppercase tracking-widest', 'Next:'), issue.next_step));
+                        // dataset assignment is escaped by the DOM; the delegated click handler opens it
+                        card.dataset.issueId = issue.id;
+                        list.appendChild(card);
+                     });
+                     root.appendChild(list);
+                }
+                const dropped = data.grounding ? data.grounding.dropped_issues.length : 0;
+                if (dropped) root.appendChild(el('div', 'text-[11px] text-amber-400/80 mb-3', dropped + ' issue' + (dropped === 1 ? '' : 's') + ' not found in the retrieved feedback ' + (dropped === 1 ? 'was' : 'were') + ' removed from this answer'));
 
-                } catch (e) {
-                     document.getElementById('modalContentText').innerHTML = \`<span class="text-red-400">Error: \${e.message}</span>\`;
+                // 3. Follow-up
+                if (data.follow_up_question) {
+                     const btn = el('button', 'text-xs text-indigo-400 hover:text-indigo-300 hover:underline flex items-center gap-1 transition-colors', data.follow_up_question + ' →');
+                     btn.dataset.quick = data.follow_up_question;
+                     root.appendChild(el('div', 'flex justify-end mt-2', btn));
                 }
-            }
 
-            async function closeIssue() {
-                if (!confirm("Are you sure you want to mark this issue as closed?")) return;
-                
-                const btn = document.getElementById('closeIssueBtn');
-                const originalText = btn.innerHTML;
-                btn.innerHTML = "Closing...";
-                btn.disabled = true;
+                return root;
+            }
 
-                try {
-                     const res = await fetch('/issue/close', {
-                        method: 'POST',
-                        headers: {'Content-Type': 'application/json'},
-                        body: JSON.stringify({ id: currentIssueId })
-                    });
-                    if (!res.ok) throw new Error('Failed to close');
-                    
-                    // Success UI
-                    btn.innerHTML = "Closed ✓";
-                    btn.className = "flex-1 bg-slate-800/50 text-slate-500 py-2 rounded-lg text-sm font-medium border border-slate-800 cursor-not-allowed flex items-center justify-center gap-2";
-                    
-                    // Allow to close modal after short delay or manually
-                } catch (e) {
-                    alert(e.message);
-                    btn.innerHTML = originalText;
-                    btn.disabled = false;
+            // Server-sent events from a fetch body (EventSource cannot POST)
+            async function readEvents(res, onEvent) {
+                const reader = res.body.getReader();
+                const decoder = new TextDecoder();
+                let buffer = '';
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffer += decoder.decode(value, { stream: true });
+                    let sep;
+                    while ((sep = buffer.indexOf('\\n\\n')) !== -1) {
+                        const block = buffer.slice(0, sep);
+                        buffer = buffer.slice(sep + 2);
+                        let event = 'message';
+                        let data = '';
+                        block.split('\\n').forEach(line => {
+                            if (line.startsWith('event:')) event = line.slice(6).trim();
+                            else if (line.startsWith('data:')) data += line.slice(5).trim();
+                        });
+                        if (data) onEvent(event, JSON.parse(data));
+                    }
                 }
             }
 
-            async function askCopilot() {
-                if (!currentIssueId) return;
-                
-                const btn = document.getElementById('askCopilotBtn');
-                const box = document.getElementById('copilotSection');
-                const content = document.getElementById('copilotContent');
-                
-                // Loading State
-                btn.disabled = true;
-                btn.innerHTML = '<span class="animate-spin">⏳</span> Analyzing...';
-                box.classList.remove('hidden');
-                
-                try {
-                    const msg = \`Give me impact analysis and recommended next steps for issue \${currentIssueId}\`;
-                    const res = await fetch('/chat', {
-                        method: 'POST',
-                        headers: {'Content-Type': 'application/json'},
-                        body: JSON.stringify({ message: msg })
-                    });
-                    
-                    if (!res.ok) throw new Error('Analysis failed');
-                    const data = await res.json();
-                    
-                    // Render Output
-                    box.classList.remove('animate-pulse');
-                    // Format the summary details nicely
-                    const details = data.summary?.details || "No analysis returned.";
-                    content.innerHTML = details.replace(/\\n/g, '<br/>');
-                    
-                    btn.innerHTML = '<span class="text-green-400">✔</span> Analysis Complete';
-                    
-                } catch (e) {
-                    box.classList.add('hidden');
-                    alert('Failed to get analysis: ' + e.message);
-                    btn.disabled = false;
-                    btn.innerHTML = '<span class="text-purple-400">✨</span> Ask Copilot about this issue';
-                }
+            // Reads a (possibly unterminated) JSON string field from the partial answer
+            function partialField(text, pattern) {
+                const m = text.match(pattern);
+                if (!m) return '';
+                try { return JSON.parse('"' + m[1] + '"'); } catch (e) { return m[1].replace(/\\\\+$/, ''); }
             }
 
-            function closeModal() {
-                 const modal = document.getElementById('detailModal');
-                 modal.classList.add('opacity-0');
-                 document.getElementById('modalContent').classList.add('scale-95');
-                 setTimeout(() => {
-                    modal.classList.add('hidden');
-                 }, 300);
+            // A bot message that shows each stage, then a live preview, then the final card
+            function streamingMsg() {
+                const statusText = el('span', '', 'Understanding your question...');
+                const status = el('div', 'text-xs text-slate-500 mb-2 flex items-center gap-2', el('span', 'animate-pulse text-purple-400', '●'), statusText);
+                const headline = el('h3', 'text-md font-bold text-white mb-1');
+                const details = el('p', 'text-slate-400 text-sm leading-relaxed');
+                const preview = el('div', 'hidden bg-slate-800 rounded-xl border border-slate-700 p-4 mb-4 shadow-lg', headline, details);
+                const root = el('div', '', status, preview);
+                addMsg(root, false);
+                return {
+                    setStatus(text) { statusText.textContent = text; },
+                    preview(answer) {
+                        const h = partialField(answer, /"headline"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)/);
+                        const d = partialField(answer, /"details"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)/);
+                        if (!h && !d) return;
+                        preview.classList.remove('hidden');
+                        headline.textContent = h;
+                        details.textContent = d;
+                        chatHistory.scrollTop = chatHistory.scrollHeight;
+                    },
+                    done(node) {
+                        root.replaceChildren(node);
+                        chatHistory.scrollTop = chatHistory.scrollHeight;
+                    }
+                };
             }
 
-            // Close with Escape
-            document.addEventListener('keydown', (e) => {
-                if (e.key === 'Escape') closeModal();
+            function sendQuick(text) {
+                document.getElementById('chatInput').value = text;
+                document.getElementById('chatForm').requestSubmit();
+            }
+
+            document.addEventListener('click', (e) => {
+                const quick = e.target.closest('[data-quick]');
+                if (quick) sendQuick(quick.dataset.quick);
             });
 
+            ${ISSUE_TRIAGE_SCRIPT}
+
+            function onIssueClosed() {
+                loadTimeline(currentIssueId);
+            }
+
 			// Add Chat Form Listener
 			document.getElementById('chatForm').addEventListener('submit', async (e) => {
 				e.preventDefault();
@@ -894,37 +1712,42 @@ function htmlUI(topIssues: any[] = []) {
 				addMsg(query, true);
 				input.value = '';
                 
-                // Show loading state
-                const loadingDiv = document.createElement('div');
-                loadingDiv.id = 'loading';
-                loadingDiv.innerHTML = \`<div class="bg-slate-800 rounded-xl p-4 w-48 animate-pulse flex items-center justify-center text-xs text-slate-500 border border-slate-700">Thinking...</div>\`;
-                chatHistory.appendChild(loadingDiv);
-                chatHistory.scrollTop = chatHistory.scrollHeight;
-				
+                const msg = streamingMsg();
 				try {
-					const res = await fetch('/chat', {
+					const res = await fetch('/chat/stream', {
 						method: 'POST',
-						body: JSON.stringify({ query }),
+						body: JSON.stringify(conversationId ? { query, conversation_id: conversationId } : { query }),
 						headers: { 'Content-Type': 'application/json' }
 					});
-                    
-                    document.getElementById('loading').remove();
-                    
-                    if (res.status === 401) {
-                         addMsg('<div class="text-red-400 bg-red-900/20 p-3 rounded border border-red-800">⚠️ Unauthorized</div>', false);
+
+                    if (res.status === 404) {
+                         // The conversation was deleted elsewhere; the next message starts a new one
+                         conversationId = null;
+                         msg.done(errorMsg('This conversation no longer exists. Send your question again to start a new one.', 'text-xs'));
                          return;
                     }
 
-                    if (!res.ok) throw new Error(\`Server error \${res.status}\`);
+                    if (res.status === 401 || res.status === 403) {
+                         msg.done(errorMsg('⚠️ ' + (res.status === 401 ? 'Unauthorized' : 'Forbidden')));
+                         return;
+                    }
 
-					const data = await res.json();
-                    const rendered = renderChatResponse(data);
-                    addMsg(rendered, false);
+                    if (!res.ok) throw new Error('Server error ' + res.status);
+
+                    let answer = '';
+                    let finished = false;
+                    await readEvents(res, (event, data) => {
+                        if (event === 'intent') msg.setStatus('Intent: ' + String(data.intent).replace(/_/g, ' ') + ' · fetching feedback...');
+                        else if (event === 'rows') msg.setStatus((data.matched > data.count ? data.count + ' of ' + data.matched : data.count) + ' matching rows · writing answer...');
+                        else if (event === 'token') { answer += data.text; msg.preview(answer); }
+                        else if (event === 'final') { finished = true; conversationId = data.conversation_id || conversationId; msg.done(renderChatResponse(data)); }
+                        else if (event === 'error') { finished = true; msg.done(errorMsg(data.summary?.details || 'Chat failed', 'text-xs')); }
+                    });
+                    if (!finished) throw new Error('Answer stream ended early');
 
 				} catch(err) {
                     console.error(err);
-                    if(document.getElementById('loading')) document.getElementById('loading').remove();
-					addMsg(\`<div class="text-red-400 bg-red-900/20 p-3 rounded border border-red-800 text-xs">\${err.message}</div>\`, false);
+					msg.done(errorMsg(err.message, 'text-xs'));
 				}
 			});
 		</script>
@@ -933,22 +1756,27 @@ function htmlUI(topIssues: any[] = []) {
 	`;
 }
 
-function htmlDashboard(items: any[]) {
+function htmlDashboard(items: any[], policy: ScoringPolicy, state = 'active', nonce: string, anomalies: Anomaly[] = []) {
+    const filters = ['active', ...ISSUE_STATES, 'all'].map(s => html`
+        <a href="/dashboard?state=${s}" class="px-3 py-1.5 rounded-full text-xs border transition-colors ${s === state ? 'bg-purple-900/40 text-purple-300 border-purple-500/50' : 'bg-slate-900 text-slate-400 border-slate-700 hover:border-slate-500'}">${s.replace('_', ' ')}</a>
+    `);
+
     const cards = items.map(i => {
         // Physics Theme Badges
+        const heat = heatFor(i.gravity_score, policy);
         let badgeClass = 'bg-blue-900/30 text-blue-300 border-blue-700/50';
         let badgeLabel = 'Low Pull';
 
-        if (i.gravity_score >= 6) {
+        if (heat === 'High') {
             badgeClass = 'bg-red-900/30 text-red-300 border-red-500/50';
             badgeLabel = 'High Pull';
-        } else if (i.gravity_score >= 3) {
+        } else if (heat === 'Medium') {
             badgeClass = 'bg-amber-900/30 text-amber-300 border-amber-500/50';
             badgeLabel = 'Medium Pull';
         }
 
-        return `
-		<div onclick="openIssue('${i.id}')" class="bg-slate-900/50 rounded-xl border border-slate-700/50 p-5 hover:bg-slate-800/50 transition-all hover:scale-[1.01] hover:shadow-xl hover:shadow-purple-900/10 flex flex-col gap-3 group cursor-pointer">
+        return html`
+		<div data-issue-id="${i.id}" class="bg-slate-900/50 rounded-xl border border-slate-700/50 p-5 hover:bg-slate-800/50 transition-all hover:scale-[1.01] hover:shadow-xl hover:shadow-purple-900/10 flex flex-col gap-3 group cursor-pointer">
             <div class="flex justify-between items-start">
                 <div class="flex flex-col">
                     <span class="text-2xl font-bold text-white group-hover:text-purple-400 transition-colors">${i.gravity_score}</span>
@@ -959,28 +1787,31 @@ function htmlDashboard(items: any[]) {
             
             <div class="flex-1">
                 <p class="text-slate-200 text-sm leading-relaxed">${i.content}</p>
-                ${i.explanation ? `<p class="mt-2 text-xs text-slate-500 font-mono border-l-2 border-slate-700 pl-2">${i.explanation}</p>` : ''}
+                ${i.explanation && html`<p class="mt-2 text-xs text-slate-500 font-mono border-l-2 border-slate-700 pl-2">${i.explanation}</p>`}
             </div>
 
             <div class="pt-3 border-t border-slate-800 flex justify-between items-center text-xs">
                 <div class="flex gap-2">
                     <span class="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-slate-400 font-medium">${i.category}</span>
                     <span class="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-slate-500">${i.source}</span>
+                    ${i.report_count > 1 && html`<span class="px-2 py-1 rounded bg-purple-900/30 border border-purple-700/50 text-purple-300">×${i.report_count} reports</span>`}
+                    ${i.status !== 'open' && html`<span class="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-slate-400">${i.status.replace('_', ' ')}</span>`}
+                    ${i.assignee && html`<span class="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-slate-500">@${i.assignee.split('@')[0]}</span>`}
                 </div>
                 <span class="text-slate-600 font-mono">${new Date(i.created_at).toLocaleDateString()}</span>
             </div>
 		</div>
 		`;
-    }).join('');
+    });
 
-    return `
+    return html`
 	<!DOCTYPE html>
 	<html lang="en">
 	<head>
 		<meta charset="UTF-8">
 		<meta name="viewport" content="width=device-width, initial-scale=1.0">
 		<title>Feedback Dashboard</title>
-		<script src="https://cdn.tailwindcss.com"></script>
+		<script src="https://cdn.tailwindcss.com" nonce="${nonce}"></script>
 	</head>
 	<body class="bg-slate-950 text-white min-h-screen p-8 font-sans">
 		<div class="max-w-6xl mx-auto space-y-8">
@@ -993,6 +1824,12 @@ function htmlDashboard(items: any[]) {
                     <span>← Back to Copilot</span>
                 </a>
 			</header>
+            ${anomalyBanners(anomalies)}
+
+            <!-- State Filter -->
+            <nav class="flex flex-wrap gap-2">
+                ${filters}
+            </nav>
 
             <!-- Stats Grid -->
             <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -1002,7 +1839,7 @@ function htmlDashboard(items: any[]) {
                 </div>
                 <div class="bg-slate-900/50 p-4 rounded-xl border border-slate-700/50">
                     <div class="text-slate-500 text-xs uppercase tracking-wider font-bold mb-1">High Pull</div>
-                    <div class="text-2xl font-bold text-red-400">${items.filter(i => i.gravity_score >= 6).length}</div>
+                    <div class="text-2xl font-bold text-red-400">${items.filter(i => heatFor(i.gravity_score, policy) === 'High').length}</div>
                 </div>
                  <div class="bg-slate-900/50 p-4 rounded-xl border border-slate-700/50">
                     <div class="text-slate-500 text-xs uppercase tracking-wider font-bold mb-1">Avg Pull</div>
@@ -1014,11 +1851,11 @@ function htmlDashboard(items: any[]) {
 				${cards}
 			</div>
             
-            ${items.length === 0 ? '<div class="text-center text-slate-600 py-12 italic">No feedback signals detected in sector.</div>' : ''}
+            ${items.length === 0 && html`<div class="text-center text-slate-600 py-12 italic">No feedback signals detected in sector.</div>`}
 		</div>
 
         <!-- Detail Modal -->
-        <div id="detailModal" class="fixed inset-0 bg-black/80 backdrop-blur-sm hidden flex items-center justify-center z-50 p-4 transition-opacity duration-300 opacity-0" onclick="if(event.target === this) closeModal()">
+        <div id="detailModal" class="fixed inset-0 bg-black/80 backdrop-blur-sm hidden flex items-center justify-center z-50 p-4 transition-opacity duration-300 opacity-0">
             <div class="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl shadow-purple-900/50 transform scale-95 transition-all duration-300" id="modalContent">
                 <!-- Header -->
                 <div class="p-6 border-b border-slate-800 flex justify-between items-start">
@@ -1030,7 +1867,7 @@ function htmlDashboard(items: any[]) {
                         </div>
                          <h2 class="text-xl font-bold text-white leading-tight mt-2" id="modalTitle">Issue Title</h2>
                     </div>
-                    <button onclick="closeModal()" class="text-slate-500 hover:text-white transition-colors bg-slate-800 hover:bg-slate-700 rounded-lg p-2">
+                    <button id="modalCloseBtn" class="text-slate-500 hover:text-white transition-colors bg-slate-800 hover:bg-slate-700 rounded-lg p-2">
                         <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12"></path></svg>
                     </button>
                 </div>
@@ -1069,18 +1906,39 @@ function htmlDashboard(items: any[]) {
                          <h3 class="text-xs font-bold uppercase tracking-widest text-purple-400 flex items-center gap-2">
                             <span>🤖 Copilot Analysis</span>
                         </h3>
-                        <div id="copilotContent" class="text-sm text-slate-300 leading-relaxed space-y-2">
+                        <div id="copilotContent" class="text-sm text-slate-300 leading-relaxed space-y-2 whitespace-pre-line">
                             Thinking...
                         </div>
                     </div>
+
+                    <!-- Triage -->
+                    <div class="grid grid-cols-2 gap-3 border-t border-slate-800 pt-4 text-xs">
+                        <label class="flex flex-col gap-1">
+                            <span class="uppercase tracking-wider font-bold text-slate-500 opacity-50">State</span>
+                            <select id="statusSelect" class="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-300 outline-none focus:border-purple-500"></select>
+                        </label>
+                        <form id="assigneeForm" class="flex flex-col gap-1">
+                            <span class="uppercase tracking-wider font-bold text-slate-500 opacity-50">Assignee</span>
+                            <div class="flex gap-2">
+                                <input id="assigneeInput" type="email" placeholder="Unassigned" class="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-300 outline-none focus:border-purple-500">
+                                <button type="submit" class="bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 rounded-lg border border-slate-700">Save</button>
+                            </div>
+                        </form>
+                    </div>
+
+                    <!-- Timeline -->
+                    <div class="border-t border-slate-800 pt-4">
+                        <h3 class="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Timeline</h3>
+                        <ol id="timelineList" class="space-y-2 text-xs text-slate-400 max-h-40 overflow-y-auto"></ol>
+                    </div>
                 </div>
 
                 <!-- Footer -->
                 <div class="p-4 bg-slate-950/30 rounded-b-2xl border-t border-slate-800 flex gap-2">
-                     <button id="askCopilotBtn" onclick="askCopilot()" class="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white py-2 rounded-lg text-sm font-medium transition-all border border-slate-700 hover:border-purple-500/50 flex items-center justify-center gap-2">
+                     <button id="askCopilotBtn" class="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white py-2 rounded-lg text-sm font-medium transition-all border border-slate-700 hover:border-purple-500/50 flex items-center justify-center gap-2">
                         <span class="text-purple-400">✨</span> Ask Copilot
                     </button>
-                     <button id="closeIssueBtn" onclick="closeIssue()" class="flex-1 bg-red-900/20 hover:bg-red-900/40 text-red-300 py-2 rounded-lg text-sm font-medium transition-all border border-red-900/50 hover:border-red-500/50 flex items-center justify-center gap-2">
+                     <button id="closeIssueBtn" class="flex-1 bg-red-900/20 hover:bg-red-900/40 text-red-300 py-2 rounded-lg text-sm font-medium transition-all border border-red-900/50 hover:border-red-500/50 flex items-center justify-center gap-2">
                         <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7"></path></svg>
                         Close Issue
                     </button>
@@ -1088,184 +1946,22 @@ function htmlDashboard(items: any[]) {
             </div>
         </div>
 
-        <script>
-            let currentIssueId = '';
-
-            async function openIssue(id) {
-                currentIssueId = id;
-                
-                // Reset Copilot Section
-                document.getElementById('copilotSection').classList.add('hidden');
-                document.getElementById('copilotSection').classList.add('animate-pulse');
-                document.getElementById('copilotContent').innerText = 'Thinking...';
-                document.getElementById('askCopilotBtn').disabled = false;
-                document.getElementById('askCopilotBtn').innerHTML = '<span class="text-purple-400">✨</span> Ask Copilot';
+        <script nonce="${nonce}">
+            const HEAT_BANDS = ${jsonForScript(policy.heatBands)};
+            const ISSUE_STATES = ${jsonForScript(ISSUE_STATES)};
+            const CLOSED_STATES = ${jsonForScript(CLOSED_STATES)};
 
-                // Reset Close Button
-                const closeBtn = document.getElementById('closeIssueBtn');
-                closeBtn.disabled = false;
-                closeBtn.innerHTML = '<svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7"></path></svg> Close Issue';
-                closeBtn.className = "flex-1 bg-red-900/20 hover:bg-red-900/40 text-red-300 py-2 rounded-lg text-sm font-medium transition-all border border-red-900/50 hover:border-red-500/50 flex items-center justify-center gap-2";
+            ${ISSUE_TRIAGE_SCRIPT}
 
-                // Show modal with loading state
-                const modal = document.getElementById('detailModal');
-                modal.classList.remove('hidden');
+            // The list on this page changes, so reload it after a short delay
+            function onIssueClosed() {
                 setTimeout(() => {
-                    modal.classList.remove('opacity-0');
-                    document.getElementById('modalContent').classList.remove('scale-95');
-                    document.getElementById('modalContent').classList.add('scale-100');
-                }, 10);
-
-                // Reset content
-                document.getElementById('modalTitle').innerText = 'Loading...';
-                document.getElementById('modalContentText').innerText = 'Fetching details...';
-
-                try {
-                    const res = await fetch(\`/issue?id=\${id}\`);
-                    if(!res.ok) throw new Error('Failed to load');
-                    const data = await res.json();
-
-                    // Populate
-                    document.getElementById('modalTitle').innerText = data.content.substring(0, 50) + (data.content.length > 50 ? '...' : '');
-                    document.getElementById('modalContentText').innerText = data.content;
-                    document.getElementById('modalCategory').innerText = data.category;
-                    document.getElementById('modalPull').innerText = \`Pull: \${data.gravity_score}\`;
-                    document.getElementById('modalSource').innerText = data.source;
-                    document.getElementById('modalSentiment').innerText = data.sentiment;
-                    document.getElementById('modalDate').innerText = new Date(data.created_at).toLocaleDateString();
-                    document.getElementById('modalExplanation').innerText = data.explanation || "No AI explanation available.";
-
-                    // Heat Badge Logic
-                    const badge = document.getElementById('modalBadge');
-                    let badgeClass = 'bg-blue-900/30 text-blue-300 border-blue-700/50';
-                    let heatTxt = 'Low';
-                    if (data.gravity_score >= 6) { badgeClass = 'bg-red-900/30 text-red-300 border-red-500/50'; heatTxt = 'High'; }
-                    else if (data.gravity_score >= 3) { badgeClass = 'bg-amber-900/30 text-amber-300 border-amber-500/50'; heatTxt = 'Medium'; }
-                    badge.className = \`text-xs font-bold px-2 py-1 rounded border \${badgeClass}\`;
-                    badge.innerText = heatTxt;
-
-                    // Status Check
-                    if (data.status === 'closed') {
-                         closeBtn.disabled = true;
-                         closeBtn.innerHTML = "Closed ✓";
-                         closeBtn.className = "flex-1 bg-slate-800/50 text-slate-500 py-2 rounded-lg text-sm font-medium border border-slate-800 cursor-not-allowed flex items-center justify-center gap-2";
-                    }
-
-                } catch (e) {
-                     document.getElementById('modalContentText').innerHTML = \`<span class="text-red-400">Error: \${e.message}</span>\`;
-                }
-            }
-
-            async function closeIssue() {
-                if (!confirm("Are you sure you want to mark this issue as closed?")) return;
-                
-                const btn = document.getElementById('closeIssueBtn');
-                const originalText = btn.innerHTML;
-                btn.innerHTML = "Closing...";
-                btn.disabled = true;
-
-                try {
-                     const res = await fetch('/issue/close', {
-                        method: 'POST',
-                        headers: {'Content-Type': 'application/json'},
-                        body: JSON.stringify({ id: currentIssueId })
-                    });
-                    if (!res.ok) throw new Error('Failed to close');
-                    
-                    // Success UI
-                    btn.innerHTML = "Closed ✓";
-                    btn.className = "flex-1 bg-slate-800/50 text-slate-500 py-2 rounded-lg text-sm font-medium border border-slate-800 cursor-not-allowed flex items-center justify-center gap-2";
-                    
-                    // Reload the page after a short delay to reflect the change
-                    setTimeout(() => {
-                        closeModal();
-                        window.location.reload();
-                    }, 1000);
-                } catch (e) {
-                    alert(e.message);
-                    btn.innerHTML = originalText;
-                    btn.disabled = false;
-                }
-            }
-
-            function closeModal() {
-                 const modal = document.getElementById('detailModal');
-                 modal.classList.add('opacity-0');
-                 document.getElementById('modalContent').classList.add('scale-95');
-                 setTimeout(() => {
-                    modal.classList.add('hidden');
-                 }, 300);
-            }
-
-            async function askCopilot() {
-                if (!currentIssueId) return;
-                
-                const btn = document.getElementById('askCopilotBtn');
-                const box = document.getElementById('copilotSection');
-                const content = document.getElementById('copilotContent');
-                
-                // Loading State
-                btn.disabled = true;
-                btn.innerHTML = '<span class="animate-spin">⏳</span> Analyzing...';
-                box.classList.remove('hidden');
-                
-                try {
-                    const msg = \`Give me impact analysis and recommended next steps for issue \${currentIssueId}\`;
-                    const res = await fetch('/chat', {
-                        method: 'POST',
-                        headers: {'Content-Type': 'application/json'},
-                        body: JSON.stringify({ message: msg })
-                    });
-                    
-                    if (!res.ok) throw new Error('Analysis failed');
-                    const data = await res.json();
-                    
-                    // Render Output
-                    box.classList.remove('animate-pulse');
-                    const details = data.summary?.details || "No analysis returned.";
-                    content.innerHTML = details.replace(/\\n/g, '<br/>');
-                    
-                    btn.innerHTML = '<span class="text-green-400">✔</span> Analysis Complete';
-                    
-                } catch (e) {
-                    box.classList.add('hidden');
-                    alert('Failed to get analysis: ' + e.message);
-                    btn.disabled = false;
-                    btn.innerHTML = '<span class="text-purple-400">✨</span> Ask Copilot';
-                }
+                    closeModal();
+                    window.location.reload();
+                }, 1000);
             }
-
-            // Close with Escape
-            document.addEventListener('keydown', (e) => {
-                if (e.key === 'Escape') closeModal();
-            });
         </script>
 	</body>
 	</html>
 	`;
 }
-
-
-
-async function runAIWithRetry(env: Env, model: any, inputs: any, retries = 2) {
-    for (let i = 0; i <= retries; i++) {
-        try {
-            return await env.AI.run(model, inputs);
-        } catch (e: any) {
-            console.error(`AI Attempt ${i + 1} failed:`, e.message);
-            if (i === retries) throw e;
-            // Linear backoff: 1s, 2s...
-            await new Promise(r => setTimeout(r, 1000 * (i + 1)));
-        }
-    }
-}
-
-// function requireAuth(request: Request): boolean {
-// 	const url = new URL(request.url);
-// 	// Allow local dev without headers
-// 	if (url.hostname === 'localhost' || url.hostname === '127.0.0.1') return true;
-
-// 	const email = request.headers.get('Cf-Access-Authenticated-User-Email') ||
-// 		request.headers.get('cf-access-authenticated-user-email');
-// 	return !!email;
-// }
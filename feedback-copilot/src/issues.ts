@@ -0,0 +1,175 @@
+import { issueEventStatement } from './events';
+import { clusterGravity, ScoringPolicy } from './scoring';
+
+// -----------------------------------------------------------------------------
+// Issue State Changes: every mutation is batched with its audit event
+// -----------------------------------------------------------------------------
+
+export const CATEGORIES = ['Bug', 'UX', 'Feature', 'Other'] as const;
+
+// -----------------------------------------------------------------------------
+// Lifecycle: triage states and the transitions allowed between them
+// -----------------------------------------------------------------------------
+
+export const ISSUE_STATES = ['open', 'triaged', 'in_progress', 'snoozed', 'wont_fix', 'resolved', 'reopened'] as const;
+export type IssueState = typeof ISSUE_STATES[number];
+
+// Active issues are ranked, clustered into and rescored; the rest are parked or done
+export const ACTIVE_STATES: IssueState[] = ['open', 'triaged', 'in_progress', 'reopened'];
+export const CLOSED_STATES: IssueState[] = ['wont_fix', 'resolved'];
+export const ACTIVE_STATUS_SQL = `(${ACTIVE_STATES.map(s => `'${s}'`).join(', ')})`;
+
+const TRANSITIONS: Record<IssueState, IssueState[]> = {
+    open: ['triaged', 'in_progress', 'snoozed', 'wont_fix', 'resolved'],
+    triaged: ['in_progress', 'snoozed', 'wont_fix', 'resolved'],
+    in_progress: ['triaged', 'snoozed', 'wont_fix', 'resolved'],
+    snoozed: ['open', 'triaged', 'in_progress', 'wont_fix', 'resolved'],
+    wont_fix: ['reopened'],
+    resolved: ['reopened'],
+    reopened: ['triaged', 'in_progress', 'snoozed', 'wont_fix', 'resolved'],
+};
+
+export function isIssueState(value: unknown): value is IssueState {
+    return (ISSUE_STATES as readonly unknown[]).includes(value);
+}
+
+export function canTransition(from: string, to: IssueState): boolean {
+    return isIssueState(from) && TRANSITIONS[from].includes(to);
+}
+
+type IssueTarget = {
+    id: string;
+    issue_id: string | null;
+    category: string;
+    status: string;
+    assignee: string | null;
+};
+
+// Resolves the UI-facing feedback id to its row plus the state of its cluster
+export async function findIssueTarget(db: D1Database, feedbackId: string): Promise<IssueTarget | null> {
+    return db.prepare(
+        `SELECT f.id, f.issue_id, f.category, COALESCE(i.status, f.status) AS status, i.assignee
+         FROM feedback f LEFT JOIN issues i ON i.id = f.issue_id WHERE f.id = ?`
+    ).bind(feedbackId).first<IssueTarget>();
+}
+
+// Status updates apply to the whole cluster when the report belongs to one
+function statusStatements(db: D1Database, target: IssueTarget, status: IssueState, at: string, snoozedUntil: string | null): D1PreparedStatement[] {
+    const closedAt = CLOSED_STATES.includes(status) ? at : null;
+    if (target.issue_id) {
+        return [
+            db.prepare(`UPDATE issues SET status = ?, snoozed_until = ?, updated_at = ? WHERE id = ?`).bind(status, snoozedUntil, at, target.issue_id),
+            db.prepare(`UPDATE feedback SET status = ?, closed_at = ? WHERE issue_id = ?`).bind(status, closedAt, target.issue_id)
+        ];
+    }
+    return [db.prepare(`UPDATE feedback SET status = ?, closed_at = ? WHERE id = ?`).bind(status, closedAt, target.id)];
+}
+
+function eventTypeFor(status: IssueState) {
+    if (CLOSED_STATES.includes(status)) return 'close';
+    if (status === 'reopened') return 'reopen';
+    return 'status';
+}
+
+/**
+ * Moves an issue to a new lifecycle state. Callers validate the transition
+ * with `canTransition` first; `snoozedUntil` is required for `snoozed`.
+ */
+export async function transitionIssue(db: D1Database, target: IssueTarget, status: IssueState, actor: string, opts: { reason?: string; snoozedUntil?: string } = {}) {
+    const at = new Date().toISOString();
+    const snoozedUntil = status === 'snoozed' ? opts.snoozedUntil || null : null;
+    await db.batch([
+        ...statusStatements(db, target, status, at, snoozedUntil),
+        issueEventStatement(db, {
+            feedbackId: target.id, issueId: target.issue_id, type: eventTypeFor(status),
+            actor, before: { status: target.status }, after: snoozedUntil ? { status, snoozed_until: snoozedUntil } : { status },
+            reason: opts.reason
+        })
+    ]);
+}
+
+export async function assignIssue(db: D1Database, target: IssueTarget, assignee: string | null, actor: string, reason?: string) {
+    if (!target.issue_id) throw new Error('Only clustered issues can be assigned');
+    await db.batch([
+        db.prepare(`UPDATE issues SET assignee = ?, updated_at = ? WHERE id = ?`).bind(assignee, new Date().toISOString(), target.issue_id),
+        issueEventStatement(db, {
+            feedbackId: target.id, issueId: target.issue_id, type: 'assign',
+            actor, before: { assignee: target.assignee }, after: { assignee }, reason
+        })
+    ]);
+}
+
+// Cron: snoozed issues whose date has passed come back as open
+export async function wakeSnoozedIssues(db: D1Database, now: Date = new Date()) {
+    const at = now.toISOString();
+    const { results } = await db.prepare(
+        `SELECT id, lead_feedback_id, snoozed_until FROM issues WHERE status='snoozed' AND snoozed_until IS NOT NULL AND snoozed_until <= ?`
+    ).bind(at).all<{ id: string; lead_feedback_id: string; snoozed_until: string }>();
+
+    for (const issue of results) {
+        await db.batch([
+            db.prepare(`UPDATE issues SET status='open', snoozed_until = NULL, updated_at = ? WHERE id = ?`).bind(at, issue.id),
+            db.prepare(`UPDATE feedback SET status='open' WHERE issue_id = ?`).bind(issue.id),
+            issueEventStatement(db, {
+                feedbackId: issue.lead_feedback_id, issueId: issue.id, type: 'status', actor: 'system',
+                before: { status: 'snoozed', snoozed_until: issue.snoozed_until }, after: { status: 'open' }, reason: 'snooze expired'
+            })
+        ]);
+    }
+    return results.length;
+}
+
+export async function recategorizeIssue(db: D1Database, target: IssueTarget, category: string, actor: string, reason?: string) {
+    const statements = target.issue_id
+        ? [
+            db.prepare(`UPDATE issues SET category = ?, updated_at = ? WHERE id = ?`).bind(category, new Date().toISOString(), target.issue_id),
+            db.prepare(`UPDATE feedback SET category = ? WHERE issue_id = ?`).bind(category, target.issue_id)
+        ]
+        : [db.prepare(`UPDATE feedback SET category = ? WHERE id = ?`).bind(category, target.id)];
+
+    await db.batch([
+        ...statements,
+        issueEventStatement(db, {
+            feedbackId: target.id, issueId: target.issue_id, type: 'recategorize',
+            actor, before: { category: target.category }, after: { category }, reason
+        })
+    ]);
+}
+
+export async function commentOnIssue(db: D1Database, target: IssueTarget, comment: string, actor: string) {
+    await issueEventStatement(db, {
+        feedbackId: target.id, issueId: target.issue_id, type: 'comment', actor, after: { comment }
+    }).run();
+}
+
+/**
+ * Moves every report of `source` into the cluster of `into`, marks the source
+ * cluster as merged and re-rolls the target's count and gravity.
+ */
+export async function mergeIssues(db: D1Database, source: IssueTarget, into: IssueTarget, actor: string, policy: ScoringPolicy, reason?: string) {
+    if (!source.issue_id || !into.issue_id) throw new Error('Only clustered issues can be merged');
+    const at = new Date().toISOString();
+
+    await db.batch([
+        // Moved reports take the target's state, including when (and whether) it was closed
+        db.prepare(`UPDATE feedback SET issue_id = ?, status = ?, closed_at = (SELECT closed_at FROM feedback WHERE id = ?) WHERE issue_id = ?`)
+            .bind(into.issue_id, into.status, into.id, source.issue_id),
+        db.prepare(`UPDATE issues SET status = 'merged', report_count = 0, updated_at = ? WHERE id = ?`).bind(at, source.issue_id),
+        issueEventStatement(db, {
+            feedbackId: source.id, issueId: source.issue_id, type: 'merge',
+            actor, before: { issue_id: source.issue_id }, after: { issue_id: into.issue_id }, reason
+        }),
+        issueEventStatement(db, {
+            feedbackId: into.id, issueId: into.issue_id, type: 'merge',
+            actor, before: null, after: { merged_from: source.issue_id }, reason
+        })
+    ]);
+
+    const stats = await db.prepare(
+        `SELECT COUNT(*) AS report_count, MAX(gravity_score) AS max_gravity FROM feedback WHERE issue_id = ?`
+    ).bind(into.issue_id).first<{ report_count: number; max_gravity: number }>();
+    const reportCount = stats?.report_count || 1;
+    await db.prepare(
+        `UPDATE issues SET report_count = ?, gravity_score = ?, updated_at = ? WHERE id = ?`
+    ).bind(reportCount, clusterGravity(stats?.max_gravity || 0, reportCount, policy), at, into.issue_id).run();
+}
@@ -0,0 +1,465 @@
+// -----------------------------------------------------------------------------
+// LLM Providers: Workers AI, OpenAI-compatible HTTP and a deterministic mock
+// -----------------------------------------------------------------------------
+
+// Each task picks its own model, so e.g. routing can use a smaller model than answering
+export const AI_TASKS = ['enrichment', 'routing', 'answering', 'embedding'] as const;
+export type AITask = typeof AI_TASKS[number];
+
+export const AI_PROVIDERS = ['workers-ai', 'openai', 'mock'] as const;
+export type AIProviderName = typeof AI_PROVIDERS[number];
+
+export const DEFAULT_MODELS: Record<AIProviderName, Record<AITask, string>> = {
+    'workers-ai': {
+        enrichment: '@cf/meta/llama-3.1-8b-instruct',
+        routing: '@cf/meta/llama-3.1-8b-instruct',
+        answering: '@cf/meta/llama-3.1-8b-instruct',
+        embedding: '@cf/baai/bge-base-en-v1.5',
+    },
+    openai: {
+        enrichment: 'gpt-4o-mini',
+        routing: 'gpt-4o-mini',
+        answering: 'gpt-4o-mini',
+        embedding: 'text-embedding-3-small',
+    },
+    mock: {
+        enrichment: 'mock/enrichment',
+        routing: 'mock/routing',
+        answering: 'mock/answering',
+        embedding: 'mock/embedding',
+    },
+};
+
+export type LLMMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export type LLMTool = { name: string; description: string; parameters: Record<string, unknown> };
+
+export type LLMToolCall = { name: string; arguments: unknown };
+
+export type LLMChatRequest = {
+    messages: LLMMessage[];
+    maxTokens?: number;
+    tools?: LLMTool[];
+    // JSON mode: a JSON Schema the reply must follow, for providers that can enforce one
+    jsonSchema?: Record<string, unknown>;
+};
+
+export type LLMChatResponse = { text: string; toolCalls: LLMToolCall[] };
+
+export type TokenHandler = (token: string) => void | Promise<void>;
+
+export interface LLMProvider {
+    readonly name: AIProviderName;
+    chat(model: string, request: LLMChatRequest): Promise<LLMChatResponse>;
+    // Calls onToken for each chunk and resolves with the full text
+    stream(model: string, request: LLMChatRequest, onToken: TokenHandler): Promise<string>;
+    embed(model: string, texts: string[]): Promise<number[][]>;
+}
+
+// Reads `data:` payloads from an SSE body until `[DONE]` or the end of the stream
+async function readSSEData(body: ReadableStream<Uint8Array>, onData: (data: string) => Promise<void>) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Keep the trailing partial line for the next chunk
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') {
+                await reader.cancel().catch(() => {});
+                return;
+            }
+            await onData(data);
+        }
+    }
+}
+
+function parseArguments(args: unknown): unknown {
+    if (typeof args !== 'string') return args ?? {};
+    try {
+        return JSON.parse(args);
+    } catch {
+        return {};
+    }
+}
+
+// Workers AI may hand back the parsed object instead of text in JSON mode
+type WorkersAIChatOutput = Omit<AiTextGenerationOutput, 'response'> & { response?: string | Record<string, unknown> };
+
+// The binding's run() as used here. Models come from AI_MODELS, so their names are plain strings
+// and the binding falls back to untyped replies; these are the shapes Workers AI returns per task.
+type WorkersAIRun = {
+    (model: string, inputs: AiTextGenerationInput & { stream: true }): Promise<ReadableStream<Uint8Array>>;
+    (model: string, inputs: AiTextGenerationInput): Promise<WorkersAIChatOutput>;
+    (model: string, inputs: AiTextEmbeddingsInput): Promise<AiTextEmbeddingsOutput>;
+};
+
+/**
+ * Workers AI through the AI binding. Tool calls use the binding's native
+ * function calling; JSON mode maps to `response_format` (not available while
+ * streaming, so streamed replies rely on the prompt alone).
+ */
+export function createWorkersAIProvider(ai: Ai): LLMProvider {
+    const run = ((model: string, inputs: Record<string, unknown>) => ai.run(model, inputs)) as WorkersAIRun;
+    const inputs = (request: LLMChatRequest): AiTextGenerationInput => ({
+        messages: request.messages,
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        ...(request.tools ? { tools: request.tools } : {}),
+    });
+
+    return {
+        name: 'workers-ai',
+        async chat(model, request) {
+            const resp = await run(model, {
+                ...inputs(request),
+                ...(request.jsonSchema ? { response_format: { type: 'json_schema', json_schema: request.jsonSchema } } : {}),
+            });
+            const text = typeof resp.response === 'string' ? resp.response : resp.response ? JSON.stringify(resp.response) : '';
+            const toolCalls = (resp.tool_calls || []).map(c => ({ name: c.name, arguments: parseArguments(c.arguments) }));
+            return { text, toolCalls };
+        },
+        async stream(model, request, onToken) {
+            const body = await run(model, { ...inputs(request), stream: true });
+            let text = '';
+            await readSSEData(body, async data => {
+                try {
+                    const token = JSON.parse(data).response;
+                    if (typeof token === 'string' && token) {
+                        text += token;
+                        await onToken(token);
+                    }
+                } catch (e) {
+                    console.error("Unparseable AI stream chunk:", data);
+                }
+            });
+            return text;
+        },
+        async embed(model, texts) {
+            const resp = await run(model, { text: texts });
+            return resp.data;
+        }
+    };
+}
+
+/**
+ * Any OpenAI-compatible HTTP API (OpenAI, Azure OpenAI, vLLM, Ollama, …)
+ * via /chat/completions and /embeddings under `baseUrl`.
+ */
+export function createOpenAICompatibleProvider(opts: { baseUrl: string; apiKey?: string; fetcher?: typeof fetch }): LLMProvider {
+    const baseUrl = opts.baseUrl.replace(/\/+$/, '');
+    const fetcher = opts.fetcher || fetch;
+
+    async function post(path: string, body: unknown): Promise<Response> {
+        const res = await fetcher(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+        if (!res.ok) throw new Error(`${path} returned ${res.status}: ${(await res.text()).slice(0, 200)}`);
+        return res;
+    }
+
+    const body = (model: string, request: LLMChatRequest, stream: boolean) => ({
+        model,
+        messages: request.messages,
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        ...(request.tools ? { tools: request.tools.map(t => ({ type: 'function', function: t })) } : {}),
+        ...(request.jsonSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'output', schema: request.jsonSchema } } } : {}),
+        ...(stream ? { stream: true } : {}),
+    });
+
+    return {
+        name: 'openai',
+        async chat(model, request) {
+            const data: any = await (await post('/chat/completions', body(model, request, false))).json();
+            const message = data.choices?.[0]?.message || {};
+            const toolCalls = (message.tool_calls || []).map((c: any) => ({ name: c.function?.name, arguments: parseArguments(c.function?.arguments) }));
+            return { text: message.content || '', toolCalls };
+        },
+        async stream(model, request, onToken) {
+            const res = await post('/chat/completions', body(model, request, true));
+            let text = '';
+            await readSSEData(res.body!, async data => {
+                try {
+                    const token = JSON.parse(data).choices?.[0]?.delta?.content;
+                    if (typeof token === 'string' && token) {
+                        text += token;
+                        await onToken(token);
+                    }
+                } catch (e) {
+                    console.error("Unparseable AI stream chunk:", data);
+                }
+            });
+            return text;
+        },
+        async embed(model, texts) {
+            const data: any = await (await post('/embeddings', { model, input: texts })).json();
+            return (data.data as { index: number; embedding: number[] }[])
+                .sort((a, b) => a.index - b.index)
+                .map(d => d.embedding);
+        }
+    };
+}
+
+// Bag-of-words hashing: similar texts get similar vectors, with no model involved
+export function hashEmbedding(text: string, dims = 256): number[] {
+    const vec = new Array(dims).fill(0);
+    for (const token of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        let h = 0;
+        for (let i = 0; i < token.length; i++) h = (h * 31 + token.charCodeAt(i)) >>> 0;
+        vec[h % dims] += 1;
+    }
+    return vec;
+}
+
+/**
+ * A canned reply. `model` matches the exact model id or the mock task name
+ * (e.g. "routing"); `match` is a case-insensitive substring of any user
+ * message, so it keeps matching through repair attempts. The first fixture
+ * that matches wins.
+ */
+export type MockFixture = {
+    model?: string;
+    match?: string;
+    text?: string;
+    tool_calls?: LLMToolCall[];
+};
+
+export type MockProvider = LLMProvider & { calls: { model: string; request: LLMChatRequest }[] };
+
+function lastUserMessage(request: LLMChatRequest): string {
+    return [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+}
+
+function mockEnrichment(content: string) {
+    const text = content.toLowerCase();
+    const [category, sentiment] =
+        /\b(crash\w*|broken|error|bug|fail\w*|500|can'?t log ?in)\b/.test(text) ? ['Bug', -0.7] :
+        /\b(confus\w*|slow|hard|can'?t find|too many|unclear)\b/.test(text) ? ['UX', -0.4] :
+        /\b(add|need|want|would love|please|support for|integration)\b/.test(text) ? ['Feature', 0.1] :
+        ['Other', 0.5];
+    return JSON.stringify({ sentiment, category, explanation: `Mock analysis classified this as ${category}.` });
+}
+
+function mockRouting(message: string): LLMChatResponse {
+    // With history the question follows USER_MESSAGE:, otherwise it is the whole message
+    const marker = message.lastIndexOf('USER_MESSAGE:');
+    const text = (marker === -1 ? message : message.slice(marker + 'USER_MESSAGE:'.length)).toLowerCase();
+    const id = text.match(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/)?.[0];
+    const call = (name: string, args: Record<string, unknown> = {}) => ({ text: '', toolCalls: [{ name, arguments: args }] });
+
+    if (id) return call('issue_drilldown', { id });
+    if (/assigned|my queue|my issues/.test(text)) return call('assigned_to_me');
+    if (/\b(help|what can you)\b/.test(text)) return call('help');
+    if (/unusual|anomal|spike|sudden|out of the ordinary/.test(text)) {
+        return call('anomalies', /week/.test(text) ? { since_hours: 168 } : {});
+    }
+    if (/\b(top|priority|urgent|everything)\b/.test(text)) return call('top_issues');
+
+    const args: Record<string, unknown> = {};
+    if (/\bbugs?\b|crash/.test(text)) args.category = ['Bug'];
+    else if (/\bux\b/.test(text)) args.category = ['UX'];
+    else if (/feature/.test(text)) args.category = ['Feature'];
+    if (/24h|today|last day/.test(text)) args.since_hours = 24;
+    else if (/week/.test(text)) args.since_hours = 168;
+    else if (/month/.test(text)) args.since_hours = 720;
+    if (/summar|overview|trend|recap|how many/.test(text)) return call('summary', args);
+    const term = text.match(/\babout ([a-z0-9 -]+)/)?.[1]?.trim();
+    if (term) args.terms = [term];
+    return call('query_feedback', args);
+}
+
+// Answers from TOOL_DATA (with ANALYTICS for summaries and ANOMALIES for anomalies) alone, so grounded answers can be checked in tests
+function mockAnswer(message: string): string {
+    const dataAt = message.indexOf('\nTOOL_DATA:');
+    const nowAt = message.indexOf('\nNOW_ISO:');
+    const start = dataAt === -1 ? -1 : message.indexOf('[', dataAt);
+    const end = message.lastIndexOf(']', nowAt === -1 ? undefined : nowAt);
+    let rows: any[] = [];
+    try {
+        rows = start === -1 || end < start ? [] : JSON.parse(message.slice(start, end + 1));
+    } catch {
+        rows = [];
+    }
+    const plural = (n: number) => n === 1 ? '' : 's';
+    const topIssues = () => rows.slice(0, 10).map((r, idx) => ({
+        rank: idx + 1, id: String(r.id), pull: Number(r.gravity_score) || 0, heat: 'Low',
+        category: r.category || 'Other', source: r.source || '',
+        title: String(r.content || '').split(/\s+/).slice(0, 8).join(' '),
+        one_liner: String(r.content || '').slice(0, 100), next_step: 'Review this report'
+    }));
+    // Anomaly answers lead with the flagged signals, even when no reports are attached
+    const anomalies = message.match(/\nANOMALIES: (.*)\n/)?.[1];
+    if (anomalies) {
+        const flagged: { summary: string }[] = JSON.parse(anomalies);
+        return JSON.stringify({
+            summary: {
+                headline: flagged.length ? `${flagged.length} unusual signal${plural(flagged.length)}` : 'Nothing unusual detected',
+                details: flagged.map(a => a.summary).join('; '), stats: [], citations: rows.slice(0, 3).map(r => String(r.id))
+            },
+            top_issues: topIssues(),
+            patterns: [],
+            follow_up_question: 'Show me top issues'
+        });
+    }
+    if (!rows.length) {
+        return JSON.stringify({
+            summary: { headline: 'No matching feedback found', details: '', stats: [] },
+            top_issues: [], patterns: [], follow_up_question: 'Show me all feedback'
+        });
+    }
+    const count = (category: string) => String(rows.filter(r => r.category === category).length);
+    // Summaries report the window's total from ANALYTICS, as the prompt asks
+    const analytics = message.match(/\nANALYTICS: (.*)\n/)?.[1];
+    const total = analytics ? Number(JSON.parse(analytics).total) : 0;
+    return JSON.stringify({
+        summary: {
+            headline: analytics ? `${total} report${plural(total)} in this window` : `${rows.length} matching report${plural(rows.length)}`,
+            details: `Mock answer built from ${rows.length} rows.`,
+            stats: [
+                { label: 'total_items', value: String(rows.length) },
+                { label: 'bug_count', value: count('Bug') },
+                { label: 'ux_count', value: count('UX') },
+                { label: 'feature_count', value: count('Feature') },
+            ],
+            citations: rows.slice(0, 3).map(r => String(r.id))
+        },
+        top_issues: topIssues(),
+        patterns: [],
+        follow_up_question: 'Show me top issues'
+    });
+}
+
+/**
+ * Deterministic provider for tests and offline runs. Fixtures take priority;
+ * otherwise each mock model has a rule-based default, and embeddings are
+ * bag-of-words hashes. Every request is recorded in `calls`.
+ */
+export function createMockProvider(fixtures: MockFixture[] = []): MockProvider {
+    const calls: MockProvider['calls'] = [];
+
+    function reply(model: string, request: LLMChatRequest): LLMChatResponse {
+        calls.push({ model, request });
+        const message = lastUserMessage(request);
+        const userText = request.messages.filter(m => m.role === 'user').map(m => m.content.toLowerCase());
+        const fixture = fixtures.find(f =>
+            (!f.model || f.model === model || `mock/${f.model}` === model) &&
+            (!f.match || userText.some(text => text.includes(f.match!.toLowerCase())))
+        );
+        if (fixture) return { text: fixture.text || '', toolCalls: fixture.tool_calls || [] };
+
+        if (model === 'mock/enrichment') return { text: mockEnrichment(message), toolCalls: [] };
+        if (model === 'mock/routing') return mockRouting(message);
+        if (model === 'mock/answering') return { text: mockAnswer(message), toolCalls: [] };
+        return { text: '', toolCalls: [] };
+    }
+
+    return {
+        name: 'mock',
+        calls,
+        async chat(model, request) {
+            return reply(model, request);
+        },
+        async stream(model, request, onToken) {
+            const { text } = reply(model, request);
+            // Word-sized chunks, like a real stream
+            for (const token of text.match(/\S+\s*/g) || []) await onToken(token);
+            return text;
+        },
+        async embed(_model, texts) {
+            return texts.map(t => hashEmbedding(t));
+        }
+    };
+}
+
+export type LLMEnv = {
+    AI: Ai;
+    AI_PROVIDER?: string;
+    AI_MODELS?: string;
+    OPENAI_BASE_URL?: string;
+    OPENAI_API_KEY?: string;
+    AI_MOCK_FIXTURES?: string;
+};
+
+/**
+ * The provider plus per-task models, with retries. Calls name a task rather
+ * than a model so configuration decides which model serves it.
+ */
+export type LLM = {
+    provider: LLMProvider;
+    model(task: AITask): string;
+    chat(task: AITask, request: LLMChatRequest): Promise<LLMChatResponse>;
+    stream(task: AITask, request: LLMChatRequest, onToken: TokenHandler): Promise<string>;
+    embed(texts: string[]): Promise<number[][]>;
+};
+
+async function withRetry<T>(fn: () => Promise<T>, canRetry: () => boolean = () => true, retries = 2): Promise<T> {
+    for (let i = 0; ; i++) {
+        try {
+            return await fn();
+        } catch (e: any) {
+            console.error(`AI Attempt ${i + 1} failed:`, e.message);
+            if (i === retries || !canRetry()) throw e;
+            // Linear backoff: 1s, 2s...
+            await new Promise(r => setTimeout(r, 1000 * (i + 1)));
+        }
+    }
+}
+
+function parseJsonVar<T>(name: string, value: string | undefined, fallback: T): T {
+    if (!value) return fallback;
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        console.error(`${name} is not valid JSON:`, e);
+        return fallback;
+    }
+}
+
+export function createLLM(provider: LLMProvider, models: Partial<Record<AITask, string>> = {}): LLM {
+    const resolved = { ...DEFAULT_MODELS[provider.name], ...models };
+    return {
+        provider,
+        model: task => resolved[task],
+        chat: (task, request) => withRetry(() => provider.chat(resolved[task], request)),
+        // Only starting the stream is retried; tokens already sent cannot be taken back
+        stream: (task, request, onToken) => {
+            let started = false;
+            return withRetry(() => provider.stream(resolved[task], request, token => {
+                started = true;
+                return onToken(token);
+            }), () => !started);
+        },
+        embed: texts => withRetry(() => provider.embed(resolved.embedding, texts)),
+    };
+}
+
+/**
+ * Builds the configured LLM. AI_PROVIDER picks `workers-ai` (default),
+ * `openai` (OPENAI_BASE_URL, OPENAI_API_KEY) or `mock` (AI_MOCK_FIXTURES);
+ * AI_MODELS is a JSON map of task to model id overriding the defaults.
+ */
+export function llmFromEnv(env: LLMEnv): LLM {
+    const name = (AI_PROVIDERS as readonly string[]).includes(env.AI_PROVIDER || '') ? env.AI_PROVIDER as AIProviderName : 'workers-ai';
+    const models = parseJsonVar<Partial<Record<AITask, string>>>('AI_MODELS', env.AI_MODELS, {});
+
+    if (name === 'openai') {
+        if (!env.OPENAI_BASE_URL) throw new Error('AI_PROVIDER is openai but OPENAI_BASE_URL is not set');
+        return createLLM(createOpenAICompatibleProvider({ baseUrl: env.OPENAI_BASE_URL, apiKey: env.OPENAI_API_KEY }), models);
+    }
+    if (name === 'mock') {
+        return createLLM(createMockProvider(parseJsonVar<MockFixture[]>('AI_MOCK_FIXTURES', env.AI_MOCK_FIXTURES, [])), models);
+    }
+    return createLLM(createWorkersAIProvider(env.AI), models);
+}
@@ -0,0 +1,280 @@
+// -----------------------------------------------------------------------------
+// Notifications: outbound Slack and signed webhook alerts from the workflow
+// -----------------------------------------------------------------------------
+
+import { hmac, toHex } from './connectors';
+import { FieldError } from './validation';
+
+export type SubscriptionKind = 'slack' | 'webhook';
+export type NotificationTrigger = 'gravity_threshold' | 'new_bug_cluster' | 'volume_spike';
+
+// Volume spikes compare the last hour against the hourly average of the day before
+const SPIKE_WINDOW_HOURS = 1;
+const SPIKE_BASELINE_HOURS = 24;
+const DEFAULT_SPIKE_MULTIPLIER = 3;
+const DEFAULT_SPIKE_MIN_REPORTS = 5;
+
+export const DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type Subscription = {
+    id: string;
+    kind: SubscriptionKind;
+    url: string;
+    secret: string | null;
+    // Fires when an issue's gravity rises from below to at or above this value; null disables it
+    gravity_threshold: number | null;
+    new_bug_cluster: number;
+    volume_spike: number;
+    spike_multiplier: number | null;
+    spike_min_reports: number | null;
+    // Optional category filter applied to every trigger
+    category: string | null;
+    created_by: string;
+    created_at: string;
+};
+
+export type SubscriptionInput = {
+    kind: SubscriptionKind;
+    url: string;
+    secret?: string;
+    gravity_threshold?: number | null;
+    new_bug_cluster?: boolean;
+    volume_spike?: boolean;
+    spike_multiplier?: number;
+    spike_min_reports?: number;
+    category?: string | null;
+};
+
+// What calculate-and-store hands to the notify step
+export type StoredReport = {
+    feedbackId: string;
+    issueId: string;
+    content: string;
+    source: string;
+    url?: string | null;
+    category: string;
+    isNewIssue: boolean;
+    gravityBefore: number;
+    gravityAfter: number;
+    reportCount: number;
+};
+
+export type Notification = {
+    trigger: NotificationTrigger;
+    summary: string;
+    details: Record<string, unknown>;
+};
+
+export function checkSubscription(input: SubscriptionInput): FieldError[] {
+    const errors: FieldError[] = [];
+    if (!/^https:\/\//i.test(input.url)) errors.push({ field: 'url', message: 'must be an https URL' });
+    if (input.kind === 'slack' && input.secret) errors.push({ field: 'secret', message: 'is only used by webhook subscriptions' });
+    if ((input.gravity_threshold ?? null) === null && !input.new_bug_cluster && !input.volume_spike) {
+        errors.push({ field: 'gravity_threshold', message: 'enable at least one of gravity_threshold, new_bug_cluster or volume_spike' });
+    }
+    return errors;
+}
+
+/**
+ * Creates a subscription. Webhooks get a generated signing secret unless one
+ * is supplied; the caller returns it once and it is never listed again.
+ */
+export async function createSubscription(db: D1Database, input: SubscriptionInput, createdBy: string): Promise<Subscription> {
+    const subscription: Subscription = {
+        id: crypto.randomUUID(),
+        kind: input.kind,
+        url: input.url,
+        secret: input.kind === 'webhook' ? input.secret || toHex(crypto.getRandomValues(new Uint8Array(32))) : null,
+        gravity_threshold: input.gravity_threshold ?? null,
+        new_bug_cluster: input.new_bug_cluster ? 1 : 0,
+        volume_spike: input.volume_spike ? 1 : 0,
+        spike_multiplier: input.spike_multiplier ?? null,
+        spike_min_reports: input.spike_min_reports ?? null,
+        category: input.category ?? null,
+        created_by: createdBy,
+        created_at: new Date().toISOString(),
+    };
+    await db.prepare(
+        `INSERT INTO notification_subscriptions (id, kind, url, secret, gravity_threshold, new_bug_cluster, volume_spike, spike_multiplier, spike_min_reports, category, created_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+        subscription.id, subscription.kind, subscription.url, subscription.secret, subscription.gravity_threshold, subscription.new_bug_cluster,
+        subscription.volume_spike, subscription.spike_multiplier, subscription.spike_min_reports, subscription.category, subscription.created_by, subscription.created_at
+    ).run();
+    return subscription;
+}
+
+// Secrets are write-only
+export async function listSubscriptions(db: D1Database) {
+    const { results } = await db.prepare(
+        `SELECT id, kind, url, gravity_threshold, new_bug_cluster, volume_spike, spike_multiplier, spike_min_reports, category, created_by, created_at
+         FROM notification_subscriptions ORDER BY created_at DESC`
+    ).all();
+    return results;
+}
+
+export async function deleteSubscription(db: D1Database, id: string): Promise<boolean> {
+    const res = await db.prepare(`DELETE FROM notification_subscriptions WHERE id = ?`).bind(id).run();
+    return res.meta.changes > 0;
+}
+
+async function volumeSpike(db: D1Database, sub: Subscription, category: string, now: Date): Promise<Notification | null> {
+    const windowStart = new Date(now.getTime() - SPIKE_WINDOW_HOURS * 3600 * 1000).toISOString();
+    const baselineStart = new Date(now.getTime() - (SPIKE_WINDOW_HOURS + SPIKE_BASELINE_HOURS) * 3600 * 1000).toISOString();
+
+    const counts = await db.prepare(
+        `SELECT SUM(CASE WHEN last_seen_at >= ?1 THEN 1 ELSE 0 END) AS recent,
+                SUM(CASE WHEN last_seen_at < ?1 THEN 1 ELSE 0 END) AS baseline
+         FROM feedback WHERE category = ?2 AND last_seen_at >= ?3`
+    ).bind(windowStart, category, baselineStart).first<{ recent: number | null; baseline: number | null }>();
+
+    const recent = counts?.recent || 0;
+    const hourly = (counts?.baseline || 0) / SPIKE_BASELINE_HOURS;
+    const multiplier = sub.spike_multiplier ?? DEFAULT_SPIKE_MULTIPLIER;
+    if (recent < (sub.spike_min_reports ?? DEFAULT_SPIKE_MIN_REPORTS) || recent < multiplier * Math.max(hourly, 1)) return null;
+
+    // One alert per category per window, however many reports keep arriving
+    const recentAlert = await db.prepare(
+        `SELECT id FROM notification_deliveries WHERE subscription_id = ? AND trigger = 'volume_spike' AND category = ? AND created_at >= ? LIMIT 1`
+    ).bind(sub.id, category, windowStart).first();
+    if (recentAlert) return null;
+
+    return {
+        trigger: 'volume_spike',
+        summary: `${recent} ${category} reports in the last hour (usual: ${hourly.toFixed(1)}/hour)`,
+        details: { category, recent, baseline_per_hour: Number(hourly.toFixed(2)), window_hours: SPIKE_WINDOW_HOURS }
+    };
+}
+
+/**
+ * Evaluates every subscription against a freshly stored report and returns
+ * the notifications each one should receive.
+ */
+export async function evaluateTriggers(db: D1Database, report: StoredReport, now: Date = new Date()) {
+    const { results } = await db.prepare(`SELECT * FROM notification_subscriptions`).all<Subscription>();
+    const matches: { subscription: Subscription; notification: Notification }[] = [];
+
+    for (const sub of results) {
+        if (sub.category && sub.category !== report.category) continue;
+
+        const threshold = sub.gravity_threshold;
+        if (threshold !== null && report.gravityBefore < threshold && report.gravityAfter >= threshold) {
+            matches.push({
+                subscription: sub, notification: {
+                    trigger: 'gravity_threshold',
+                    summary: `${report.category} issue crossed gravity ${threshold} (now ${report.gravityAfter.toFixed(2)}, ${report.reportCount} reports)`,
+                    details: { threshold, before: report.gravityBefore, after: report.gravityAfter }
+                }
+            });
+        }
+        if (sub.new_bug_cluster && report.isNewIssue && report.category === 'Bug') {
+            matches.push({
+                subscription: sub, notification: { trigger: 'new_bug_cluster', summary: 'New Bug cluster', details: {} }
+            });
+        }
+        if (sub.volume_spike) {
+            const spike = await volumeSpike(db, sub, report.category, now);
+            if (spike) matches.push({ subscription: sub, notification: spike });
+        }
+    }
+    return matches;
+}
+
+function buildPayload(kind: SubscriptionKind, notification: Notification, report: StoredReport, publicUrl?: string) {
+    const link = publicUrl ? `${publicUrl.replace(/\/$/, '')}/dashboard` : null;
+    const quote = report.content.length > 280 ? `${report.content.slice(0, 277)}...` : report.content;
+
+    if (kind === 'slack') {
+        // Slack treats & < > as control characters in mrkdwn
+        const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        const lines = [
+            `*${escape(notification.summary)}*`,
+            `>${escape(quote).replace(/\n/g, '\n>')}`,
+            `Source: ${escape(report.source)}${report.url ? ` · <${report.url}|original>` : ''}${link ? ` · <${link}|dashboard>` : ''}`
+        ];
+        return { text: notification.summary, blocks: [{ type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } }] };
+    }
+
+    return {
+        type: notification.trigger,
+        summary: notification.summary,
+        details: notification.details,
+        issue: { id: report.issueId, lead_feedback_id: report.feedbackId, category: report.category, gravity_score: report.gravityAfter, report_count: report.reportCount },
+        feedback: { id: report.feedbackId, source: report.source, content: report.content, url: report.url ?? null },
+        dashboard_url: link,
+        sent_at: new Date().toISOString()
+    };
+}
+
+/**
+ * Records a pending delivery per matched subscription. The workflow then
+ * sends each one in its own retried step.
+ */
+export async function queueDeliveries(db: D1Database, report: StoredReport, matches: { subscription: Subscription; notification: Notification }[], publicUrl?: string) {
+    const at = new Date().toISOString();
+    const ids: string[] = [];
+    const statements = matches.map(({ subscription, notification }) => {
+        const id = crypto.randomUUID();
+        ids.push(id);
+        return db.prepare(
+            `INSERT INTO notification_deliveries (id, subscription_id, trigger, issue_id, category, payload, status, attempts, created_at) VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?)`
+        ).bind(id, subscription.id, notification.trigger, report.issueId, report.category, JSON.stringify(buildPayload(subscription.kind, notification, report, publicUrl)), at);
+    });
+    if (statements.length) await db.batch(statements);
+    return ids;
+}
+
+/**
+ * Sends one delivery. Webhooks are signed as "sha256=" + hex(HMAC-SHA256(timestamp + "." + body)).
+ * Throws on failure so the workflow step retries it with backoff.
+ */
+export async function sendDelivery(db: D1Database, deliveryId: string) {
+    const row = await db.prepare(
+        `SELECT d.payload, d.status, s.kind, s.url, s.secret FROM notification_deliveries d
+         JOIN notification_subscriptions s ON s.id = d.subscription_id WHERE d.id = ?`
+    ).bind(deliveryId).first<{ payload: string; status: string; kind: SubscriptionKind; url: string; secret: string | null }>();
+    // Subscription deleted since the delivery was queued, or already sent by an earlier attempt
+    if (!row || row.status === 'delivered') return;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (row.kind === 'webhook' && row.secret) {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        headers['X-Feedback-Timestamp'] = timestamp;
+        headers['X-Feedback-Signature'] = `sha256=${toHex(await hmac('SHA-256', row.secret, `${timestamp}.${row.payload}`))}`;
+        headers['X-Feedback-Delivery'] = deliveryId;
+    }
+
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+        const res = await fetch(row.url, { method: 'POST', headers, body: row.payload });
+        status = res.status;
+        if (!res.ok) error = `HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`;
+    } catch (e: any) {
+        error = e.message || String(e);
+    }
+
+    await db.prepare(
+        `UPDATE notification_deliveries SET attempts = attempts + 1, response_status = ?, last_error = ?, status = ?, delivered_at = ? WHERE id = ?`
+    ).bind(status, error, error ? 'pending' : 'delivered', error ? null : new Date().toISOString(), deliveryId).run();
+    if (error) throw new Error(`Delivery ${deliveryId} failed: ${error}`);
+}
+
+export async function markDeliveryFailed(db: D1Database, deliveryId: string) {
+    await db.prepare(`UPDATE notification_deliveries SET status = 'failed' WHERE id = ? AND status = 'pending'`).bind(deliveryId).run();
+}
+
+// Delivery log, newest first
+export async function listDeliveries(db: D1Database, opts: { subscriptionId?: string; status?: string; limit?: number } = {}) {
+    const where: string[] = [];
+    const binds: any[] = [];
+    if (opts.subscriptionId) { where.push(`subscription_id = ?`); binds.push(opts.subscriptionId); }
+    if (opts.status) { where.push(`status = ?`); binds.push(opts.status); }
+
+    const { results } = await db.prepare(
+        `SELECT id, subscription_id, trigger, issue_id, category, status, attempts, response_status, last_error, created_at, delivered_at
+         FROM notification_deliveries ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+         ORDER BY created_at DESC LIMIT ?`
+    ).bind(...binds, opts.limit ?? 50).all();
+    return results;
+}
@@ -0,0 +1,70 @@
+import { DEFAULT_POLICY, ScoringPolicy } from './scoring';
+import { FieldError } from './validation';
+
+// -----------------------------------------------------------------------------
+// Scoring Policy Storage: one policy for the deployment, stored as JSON in D1
+// -----------------------------------------------------------------------------
+
+// scoring_policies is keyed by a workspace column, but there is one policy: the 'default' row
+const POLICY_ROW = 'default';
+
+export async function loadScoringPolicy(db: D1Database): Promise<ScoringPolicy> {
+    const row = await db.prepare(
+        `SELECT policy FROM scoring_policies WHERE workspace = ?`
+    ).bind(POLICY_ROW).first<{ policy: string }>();
+    if (!row) return DEFAULT_POLICY;
+
+    try {
+        return { ...DEFAULT_POLICY, ...JSON.parse(row.policy) };
+    } catch (e) {
+        console.error("Stored scoring policy is not valid JSON, using defaults:", e);
+        return DEFAULT_POLICY;
+    }
+}
+
+export async function saveScoringPolicy(db: D1Database, policy: ScoringPolicy) {
+    await db.prepare(
+        `INSERT INTO scoring_policies (workspace, policy, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(workspace) DO UPDATE SET policy = excluded.policy, updated_at = excluded.updated_at`
+    ).bind(POLICY_ROW, JSON.stringify(policy), new Date().toISOString()).run();
+}
+
+function isWeightMap(value: unknown): value is Record<string, number> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && Object.values(value).every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0);
+}
+
+/**
+ * Merges a (partial) policy from an admin request over the current one.
+ * Returns the list of problems instead when any field is out of range.
+ */
+export function mergeScoringPolicy(current: ScoringPolicy, input: any): { policy: ScoringPolicy } | { errors: FieldError[] } {
+    const errors: FieldError[] = [];
+    const next: ScoringPolicy = { ...current, heatBands: { ...current.heatBands } };
+
+    if (!input || typeof input !== 'object') return { errors: [{ field: '(body)', message: 'must be a JSON object' }] };
+
+    if (input.categoryWeights !== undefined) {
+        if (isWeightMap(input.categoryWeights)) next.categoryWeights = input.categoryWeights;
+        else errors.push({ field: 'categoryWeights', message: 'must map category names to non-negative numbers' });
+    }
+    if (input.sourceWeights !== undefined) {
+        if (isWeightMap(input.sourceWeights)) next.sourceWeights = input.sourceWeights;
+        else errors.push({ field: 'sourceWeights', message: 'must map source names to non-negative numbers' });
+    }
+    if (input.halfLifeHours !== undefined) {
+        if (input.halfLifeHours === null || (typeof input.halfLifeHours === 'number' && input.halfLifeHours > 0)) next.halfLifeHours = input.halfLifeHours;
+        else errors.push({ field: 'halfLifeHours', message: 'must be a positive number or null' });
+    }
+    if (input.cap !== undefined) {
+        if (typeof input.cap === 'number' && input.cap > 0) next.cap = input.cap;
+        else errors.push({ field: 'cap', message: 'must be a positive number' });
+    }
+    if (input.heatBands !== undefined) {
+        const { high, medium } = input.heatBands || {};
+        if (typeof high === 'number' && typeof medium === 'number' && high > medium && medium >= 0) next.heatBands = { high, medium };
+        else errors.push({ field: 'heatBands', message: 'must be { high, medium } with high > medium >= 0' });
+    }
+
+    return errors.length ? { errors } : { policy: next };
+}
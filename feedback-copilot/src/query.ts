@@ -0,0 +1,246 @@
+// -----------------------------------------------------------------------------
+// Query Planner: typed feedback query specs and the parameterized SQL builder
+// -----------------------------------------------------------------------------
+
+import { ACTIVE_STATES, CATEGORIES, ISSUE_STATES } from './issues';
+import { SOURCE_PATTERN } from './validation';
+
+export const QUERY_SORTS = ['relevance', 'gravity', 'newest', 'oldest', 'most_negative', 'most_positive'] as const;
+export type QuerySort = typeof QUERY_SORTS[number];
+
+export const DEFAULT_QUERY_LIMIT = 25;
+export const MAX_QUERY_LIMIT = 100;
+
+export const MAX_TERMS = 5;
+export const MAX_TERM_LENGTH = 100;
+const MAX_LIST_VALUES = 20;
+// A year of history is the widest window a relative time range may ask for
+const MAX_SINCE_HOURS = 24 * 365;
+// Gravity at which a match's relevance is boosted by half; the boost approaches 2x for the hottest rows
+export const RELEVANCE_GRAVITY_HALF = 10;
+
+/**
+ * What the planner may ask for. Every field is optional: empty lists and
+ * missing bounds mean "any". `ids` is never filled by the model; chat sets it
+ * to narrow the previous answer's results.
+ */
+export type QuerySpec = {
+    category?: string[];
+    source?: string[];
+    status?: string[];
+    since_hours?: number;
+    since?: string;
+    until?: string;
+    sentiment_min?: number;
+    sentiment_max?: number;
+    gravity_min?: number;
+    gravity_max?: number;
+    terms?: string[];
+    sort?: QuerySort;
+    limit?: number;
+    ids?: string[];
+};
+
+// JSON schema for the query_feedback tool; mirrors QuerySpec minus ids
+export const QUERY_SPEC_PARAMETERS = {
+    type: 'object',
+    properties: {
+        category: { type: 'array', items: { type: 'string', enum: CATEGORIES }, description: 'Only these categories' },
+        source: { type: 'array', items: { type: 'string' }, description: 'Only these sources, e.g. "support", "github", "app-store"' },
+        status: { type: 'array', items: { type: 'string', enum: ISSUE_STATES }, description: 'Only these statuses; omit for open work' },
+        since_hours: { type: 'number', description: 'Only feedback from the last N hours (3 days = 72)' },
+        since: { type: 'string', description: 'ISO date: only feedback on or after this' },
+        until: { type: 'string', description: 'ISO date: only feedback before this' },
+        sentiment_min: { type: 'number', description: 'Sentiment from -1 (negative) to 1 (positive)' },
+        sentiment_max: { type: 'number', description: 'Sentiment from -1 (negative) to 1 (positive)' },
+        gravity_min: { type: 'number', description: 'Minimum gravity (priority) score' },
+        gravity_max: { type: 'number', description: 'Maximum gravity (priority) score' },
+        terms: { type: 'array', items: { type: 'string' }, description: 'Words or phrases that must all appear in the text; end a word with * to match prefixes' },
+        sort: { type: 'string', enum: QUERY_SORTS },
+        limit: { type: 'number', description: `1-${MAX_QUERY_LIMIT}, default ${DEFAULT_QUERY_LIMIT}` },
+    },
+} as const;
+
+function finite(value: unknown): number | undefined {
+    const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+function clamp(value: number | undefined, min: number, max: number): number | undefined {
+    return value === undefined ? undefined : Math.min(Math.max(value, min), max);
+}
+
+function isoDate(value: unknown): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Models send a bare string where a list is expected; accept both
+function stringList(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : [];
+    return items.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean).slice(0, MAX_LIST_VALUES);
+}
+
+// Case-insensitive match against an allowed list, returning the canonical spelling
+function oneOf(values: string[], allowed: readonly string[]): string[] {
+    const out = new Set<string>();
+    for (const value of values) {
+        const match = allowed.find(a => a.toLowerCase() === value.toLowerCase());
+        if (match) out.add(match);
+    }
+    return [...out];
+}
+
+/**
+ * Turns planner output into a QuerySpec. Model output is untrusted, so
+ * unknown keys and values outside the allowed sets are dropped rather than
+ * rejected, numbers are clamped, and inverted ranges are swapped.
+ */
+export function parseQuerySpec(input: unknown): QuerySpec {
+    const raw = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : {};
+    const spec: QuerySpec = {};
+
+    const category = oneOf(stringList(raw.category), CATEGORIES);
+    if (category.length) spec.category = category;
+    const source = stringList(raw.source).filter(s => SOURCE_PATTERN.test(s));
+    if (source.length) spec.source = source;
+    const status = oneOf(stringList(raw.status), ISSUE_STATES);
+    if (status.length) spec.status = status;
+
+    const sinceHours = clamp(finite(raw.since_hours), 0, MAX_SINCE_HOURS);
+    if (sinceHours) spec.since_hours = sinceHours;
+    const since = isoDate(raw.since);
+    if (since) spec.since = since;
+    const until = isoDate(raw.until);
+    if (until) spec.until = until;
+
+    let sentimentMin = clamp(finite(raw.sentiment_min), -1, 1);
+    let sentimentMax = clamp(finite(raw.sentiment_max), -1, 1);
+    if (sentimentMin !== undefined && sentimentMax !== undefined && sentimentMin > sentimentMax) [sentimentMin, sentimentMax] = [sentimentMax, sentimentMin];
+    if (sentimentMin !== undefined) spec.sentiment_min = sentimentMin;
+    if (sentimentMax !== undefined) spec.sentiment_max = sentimentMax;
+
+    let gravityMin = clamp(finite(raw.gravity_min), 0, Number.MAX_SAFE_INTEGER);
+    let gravityMax = clamp(finite(raw.gravity_max), 0, Number.MAX_SAFE_INTEGER);
+    if (gravityMin !== undefined && gravityMax !== undefined && gravityMin > gravityMax) [gravityMin, gravityMax] = [gravityMax, gravityMin];
+    if (gravityMin !== undefined) spec.gravity_min = gravityMin;
+    if (gravityMax !== undefined) spec.gravity_max = gravityMax;
+
+    const terms = stringList(raw.terms).map(t => t.slice(0, MAX_TERM_LENGTH)).slice(0, MAX_TERMS);
+    if (terms.length) spec.terms = terms;
+
+    if (typeof raw.sort === 'string' && (QUERY_SORTS as readonly string[]).includes(raw.sort)) spec.sort = raw.sort as QuerySort;
+    const limit = finite(raw.limit);
+    if (limit !== undefined) spec.limit = Math.round(clamp(limit, 1, MAX_QUERY_LIMIT)!);
+
+    return spec;
+}
+
+/**
+ * FTS5 MATCH expression requiring every term. Each term is quoted as a
+ * phrase, so FTS operators typed by users or models are plain text; a
+ * trailing * is kept as a prefix search. Terms without letters or digits
+ * can't match anything in the index and are dropped.
+ */
+export function ftsMatchExpression(terms: string[]): string | null {
+    const phrases = terms.flatMap(term => {
+        const prefix = /\*\s*$/.test(term);
+        const text = term.replace(/\*+\s*$/, '').trim();
+        if (!/[\p{L}\p{N}]/u.test(text)) return [];
+        return [`"${text.replace(/"/g, '""')}"${prefix ? ' *' : ''}`];
+    });
+    return phrases.length ? phrases.join(' AND ') : null;
+}
+
+// BM25 (content weighted above the model's explanation, negated so higher is better) boosted by gravity
+const RELEVANCE_SQL = `-bm25(feedback_fts, 1.0, 0.5) * (1.0 + COALESCE(feedback.gravity_score, 0) / (COALESCE(feedback.gravity_score, 0) + ${RELEVANCE_GRAVITY_HALF}))`;
+
+// Highlighted matches are wrapped in these control characters and split into segments by the caller
+export const SNIPPET_OPEN = '\u0002';
+export const SNIPPET_CLOSE = '\u0003';
+const SNIPPET_SQL = `snippet(feedback_fts, -1, char(2), char(3), '…', 16)`;
+
+const ORDER_BY: Record<QuerySort, string> = {
+    relevance: 'relevance DESC, created_at DESC',
+    gravity: 'gravity_score DESC, created_at DESC',
+    newest: 'created_at DESC',
+    oldest: 'created_at ASC',
+    most_negative: 'sentiment ASC, gravity_score DESC',
+    most_positive: 'sentiment DESC, gravity_score DESC',
+};
+
+function placeholders(values: unknown[]): string {
+    return values.map(() => '?').join(', ');
+}
+
+/**
+ * Builds the feedback query for a spec. Only fixed SQL fragments are
+ * concatenated; every value from the spec is a bound parameter. Feedback in
+ * closed or snoozed states is left out unless the spec asks for a status.
+ *
+ * Terms search the full-text index and add a `relevance` column, which is
+ * the default sort when terms are given. `snippets` adds a highlighted
+ * `snippet` of the matching text.
+ */
+export function buildFeedbackQuery(spec: QuerySpec, now: Date = new Date(), opts: { snippets?: boolean } = {}): { sql: string; binds: (string | number)[] } {
+    const where: string[] = [];
+    const binds: (string | number)[] = [];
+    const match = ftsMatchExpression(spec.terms || []);
+
+    // Rows whose enrichment failed have no analysis to filter or rank on
+    where.push(`enrichment_status = 'ok'`);
+    const status = spec.status?.length ? spec.status : ACTIVE_STATES;
+    where.push(`status IN (${placeholders(status)})`);
+    binds.push(...status);
+
+    if (spec.ids) {
+        // An empty restriction matches nothing rather than everything
+        if (!spec.ids.length) return { sql: `SELECT * FROM feedback WHERE 0`, binds: [] };
+        where.push(`id IN (${placeholders(spec.ids)})`);
+        binds.push(...spec.ids);
+    }
+    if (spec.category?.length) {
+        where.push(`category IN (${placeholders(spec.category)})`);
+        binds.push(...spec.category);
+    }
+    if (spec.source?.length) {
+        where.push(`source IN (${placeholders(spec.source)})`);
+        binds.push(...spec.source);
+    }
+
+    // A relative window and an absolute start both apply; the later one wins in practice
+    if (spec.since_hours) {
+        where.push(`created_at >= ?`);
+        binds.push(new Date(now.getTime() - spec.since_hours * 3600 * 1000).toISOString());
+    }
+    if (spec.since) { where.push(`created_at >= ?`); binds.push(spec.since); }
+    if (spec.until) { where.push(`created_at < ?`); binds.push(spec.until); }
+
+    if (spec.sentiment_min !== undefined) { where.push(`sentiment >= ?`); binds.push(spec.sentiment_min); }
+    if (spec.sentiment_max !== undefined) { where.push(`sentiment <= ?`); binds.push(spec.sentiment_max); }
+    if (spec.gravity_min !== undefined) { where.push(`gravity_score >= ?`); binds.push(spec.gravity_min); }
+    if (spec.gravity_max !== undefined) { where.push(`gravity_score <= ?`); binds.push(spec.gravity_max); }
+
+    if (match) { where.push(`feedback_fts MATCH ?`); binds.push(match); }
+
+    const limit = Math.round(clamp(spec.limit ?? DEFAULT_QUERY_LIMIT, 1, MAX_QUERY_LIMIT)!);
+    binds.push(limit);
+    const sort = spec.sort ?? (match ? 'relevance' : 'gravity');
+    const orderBy = (sort !== 'relevance' || match) && ORDER_BY[sort] || ORDER_BY.gravity;
+    if (!match) {
+        return { sql: `SELECT * FROM feedback WHERE ${where.join(' AND ')} ORDER BY ${orderBy} LIMIT ?`, binds };
+    }
+    // feedback_fts shares the content and explanation column names, so the row comes from feedback.*
+    const columns = `feedback.*, ${RELEVANCE_SQL} AS relevance${opts.snippets ? `, ${SNIPPET_SQL} AS snippet` : ''}`;
+    return {
+        sql: `SELECT ${columns} FROM feedback JOIN feedback_fts ON feedback_fts.rowid = feedback.rowid WHERE ${where.join(' AND ')} ORDER BY ${orderBy} LIMIT ?`,
+        binds,
+    };
+}
+
+export async function runFeedbackQuery(db: D1Database, spec: QuerySpec, now?: Date, opts?: { snippets?: boolean }): Promise<any[]> {
+    const { sql, binds } = buildFeedbackQuery(spec, now, opts);
+    const { results } = await db.prepare(sql).bind(...binds).all();
+    return results;
+}
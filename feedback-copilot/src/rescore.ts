@@ -0,0 +1,43 @@
+import { ACTIVE_STATUS_SQL } from './issues';
+import { clusterGravity, computeGravity, DEFAULT_POLICY, ScoringPolicy } from './scoring';
+
+// D1 caps statements per batch; keep well under it
+const BATCH_SIZE = 50;
+
+/**
+ * Recomputes gravity for every active feedback row using its real current age,
+ * then rolls the new scores up into the active issue clusters.
+ */
+export async function rescoreOpenFeedback(db: D1Database, now: Date = new Date(), policy: ScoringPolicy = DEFAULT_POLICY) {
+    const { results: rows } = await db.prepare(
+        `SELECT id, sentiment, category, source, created_at FROM feedback WHERE status IN ${ACTIVE_STATUS_SQL} AND enrichment_status = 'ok'`
+    ).all<{ id: string; sentiment: number; category: string; source: string; created_at: string }>();
+
+    const updates = rows.map(r =>
+        db.prepare(`UPDATE feedback SET gravity_score = ? WHERE id = ?`).bind(computeGravity(r, now, policy), r.id)
+    );
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+        await db.batch(updates.slice(i, i + BATCH_SIZE));
+    }
+
+    const { results: clusters } = await db.prepare(
+        `SELECT i.id, i.lead_feedback_id, i.gravity_score, COUNT(f.id) AS report_count, MAX(f.gravity_score) AS max_gravity
+         FROM issues i JOIN feedback f ON f.issue_id = i.id
+         WHERE i.status IN ${ACTIVE_STATUS_SQL} GROUP BY i.id`
+    ).all<{ id: string; lead_feedback_id: string; gravity_score: number; report_count: number; max_gravity: number }>();
+
+    const changes: { issueId: string; feedbackId: string; before: number; after: number }[] = [];
+    const issueUpdates = clusters.map(c => {
+        const gravity = clusterGravity(c.max_gravity || 0, c.report_count, policy);
+        if (gravity !== c.gravity_score) {
+            changes.push({ issueId: c.id, feedbackId: c.lead_feedback_id, before: c.gravity_score, after: gravity });
+        }
+        return db.prepare(`UPDATE issues SET gravity_score = ?, report_count = ? WHERE id = ?`)
+            .bind(gravity, c.report_count, c.id);
+    });
+    for (let i = 0; i < issueUpdates.length; i += BATCH_SIZE) {
+        await db.batch(issueUpdates.slice(i, i + BATCH_SIZE));
+    }
+
+    return { feedback: rows.length, issues: clusters.length, changes };
+}
@@ -0,0 +1,111 @@
+// -----------------------------------------------------------------------------
+// Retrieval: hybrid keyword and semantic candidates, fitted to a token budget
+// -----------------------------------------------------------------------------
+
+import { Embedder, VectorIndex } from './clusters';
+import { DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT, QuerySort, QuerySpec, runFeedbackQuery } from './query';
+
+// Nearest reports fetched from the report index before the structured filters apply
+export const SEMANTIC_TOP_K = 50;
+// Cosine similarity below which a report is not considered related to the question
+export const SEMANTIC_MIN_SCORE = 0.5;
+// Default size of TOOL_DATA; leaves room for the prompt and the answer in an 8k context
+export const DEFAULT_CONTEXT_TOKENS = 3000;
+// Reciprocal rank fusion constant: damps the difference between the very top ranks
+const RRF_K = 60;
+const MAX_CONTENT_CHARS = 600;
+
+export type SemanticSearch = { embedder: Embedder; index: VectorIndex };
+
+// Columns the answer model needs; everything else on a row is bookkeeping
+const CONTEXT_COLUMNS = [
+    'id', 'issue_id', 'source', 'category', 'sentiment', 'gravity_score', 'status', 'assignee', 'report_count', 'repeat_count',
+    'created_at', 'closed_at', 'content', 'explanation', 'relevance', 'similarity',
+] as const;
+
+const desc = (a: unknown, b: unknown) => (Number(b) || 0) - (Number(a) || 0);
+const SORTS: Record<Exclude<QuerySort, 'relevance'>, (a: any, b: any) => number> = {
+    gravity: (a, b) => desc(a.gravity_score, b.gravity_score) || String(b.created_at).localeCompare(String(a.created_at)),
+    newest: (a, b) => String(b.created_at).localeCompare(String(a.created_at)),
+    oldest: (a, b) => String(a.created_at).localeCompare(String(b.created_at)),
+    most_negative: (a, b) => -desc(a.sentiment, b.sentiment) || desc(a.gravity_score, b.gravity_score),
+    most_positive: (a, b) => desc(a.sentiment, b.sentiment) || desc(a.gravity_score, b.gravity_score),
+};
+
+// Rough token count for JSON sent to a model (about four characters per token)
+export function estimateTokens(value: unknown): number {
+    return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+// The fields of a feedback or issue row worth showing the model, with long text cut
+export function compactRow(row: Record<string, unknown>): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (const column of CONTEXT_COLUMNS) {
+        let value = row[column];
+        if (value === null || value === undefined) continue;
+        if (typeof value === 'string' && value.length > MAX_CONTENT_CHARS) value = `${value.slice(0, MAX_CONTENT_CHARS)}…`;
+        if (typeof value === 'number' && (column === 'relevance' || column === 'similarity')) value = Math.round(value * 1000) / 1000;
+        out[column] = value;
+    }
+    return out;
+}
+
+/**
+ * Compacts rows and keeps them, in order, while they fit in `budget`
+ * tokens. `matched` is how many there were before the cut.
+ */
+export function fitToBudget(rows: Record<string, unknown>[], budget: number) {
+    const kept: Record<string, unknown>[] = [];
+    let tokens = 1;
+    for (const row of rows) {
+        const compact = compactRow(row);
+        const cost = estimateTokens(compact) + 1;
+        if (tokens + cost > budget) break;
+        kept.push(compact);
+        tokens += cost;
+    }
+    return { rows: kept, matched: rows.length, truncated: kept.length < rows.length, tokens };
+}
+
+// Reciprocal rank fusion: ids ranked high in any list come first, ids in several lists get a boost
+export function fuseRankings(lists: string[][]): string[] {
+    const scores = new Map<string, number>();
+    for (const list of lists) {
+        list.forEach((id, rank) => scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + rank + 1)));
+    }
+    return [...scores.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+}
+
+/**
+ * Runs a planned feedback query and, when it has topic terms and a report
+ * index is available, widens it with reports whose meaning is close to the
+ * terms even if the words differ. Semantic candidates go back through the
+ * same structured filters in D1, so category, time, status and narrowing
+ * to earlier results still hold. Both lists are fused by rank unless the
+ * spec asks for a specific sort.
+ */
+export async function retrieveFeedback(db: D1Database, spec: QuerySpec, semantic: SemanticSearch | null, now?: Date): Promise<any[]> {
+    const keyword = await runFeedbackQuery(db, spec, now);
+    if (!semantic || !spec.terms?.length) return keyword;
+
+    const [vector] = await semantic.embedder.embed([spec.terms.join(' ')]);
+    let matches = (await semantic.index.query(vector, SEMANTIC_TOP_K)).filter(m => m.score >= SEMANTIC_MIN_SCORE);
+    if (spec.ids) matches = matches.filter(m => spec.ids!.includes(m.id));
+    if (!matches.length) return keyword;
+
+    const { terms, ...filters } = spec;
+    const similar = await runFeedbackQuery(db, { ...filters, ids: matches.map(m => m.id), sort: undefined, limit: MAX_QUERY_LIMIT }, now);
+    const similarity = new Map(matches.map(m => [m.id, m.score]));
+    const byId = new Map<string, any>();
+    for (const row of [...keyword, ...similar]) {
+        const id = String(row.id);
+        byId.set(id, { ...byId.get(id), ...row, ...(similarity.has(id) ? { similarity: similarity.get(id) } : {}) });
+    }
+
+    const semanticOrder = similar.map(r => String(r.id)).sort((a, b) => similarity.get(b)! - similarity.get(a)!);
+    const sort = spec.sort && spec.sort !== 'relevance' ? SORTS[spec.sort] : null;
+    const merged = sort
+        ? [...byId.values()].sort(sort)
+        : fuseRankings([keyword.map(r => String(r.id)), semanticOrder]).map(id => byId.get(id));
+    return merged.slice(0, spec.limit ?? DEFAULT_QUERY_LIMIT);
+}
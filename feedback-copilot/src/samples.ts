@@ -0,0 +1,57 @@
+// -----------------------------------------------------------------------------
+// Sample Feedback: demo ingest texts, labelled so they double as eval cases
+// -----------------------------------------------------------------------------
+
+import { AnalysisResult } from './types';
+
+export type SentimentSign = 'negative' | 'neutral' | 'positive';
+
+export type LabelledFeedback = { text: string; category: AnalysisResult['category']; sentiment: SentimentSign };
+
+export const MESSY_SAMPLES: LabelledFeedback[] = [
+    // Bugs
+    { text: "login completely broken fix it!!!", category: 'Bug', sentiment: 'negative' },
+    { text: "app crashes when I upload large images", category: 'Bug', sentiment: 'negative' },
+    { text: "api returns 500 error on tuesdays", category: 'Bug', sentiment: 'negative' },
+    { text: "documentation link is broken", category: 'Bug', sentiment: 'negative' },
+    { text: "payment failed but still got charged twice", category: 'Bug', sentiment: 'negative' },
+    { text: "password reset email never arrives", category: 'Bug', sentiment: 'negative' },
+    { text: "search results show deleted items", category: 'Bug', sentiment: 'negative' },
+    { text: "notifications are 2 hours delayed", category: 'Bug', sentiment: 'negative' },
+    { text: "mobile app freezes after update", category: 'Bug', sentiment: 'negative' },
+    { text: "SSO integration stopped working yesterday", category: 'Bug', sentiment: 'negative' },
+
+    // UX Issues
+    { text: "where is the export button? cant find it", category: 'UX', sentiment: 'negative' },
+    { text: "pricing page is confusing as hell", category: 'UX', sentiment: 'negative' },
+    { text: "loading takes forever on my phone", category: 'UX', sentiment: 'negative' },
+    { text: "the onboarding flow has too many steps", category: 'UX', sentiment: 'negative' },
+    { text: "can't figure out how to change my timezone", category: 'UX', sentiment: 'negative' },
+    { text: "why do I need to click 5 times to archive?", category: 'UX', sentiment: 'negative' },
+    { text: "font is way too small on the reports page", category: 'UX', sentiment: 'negative' },
+    { text: "navigation menu keeps jumping around", category: 'UX', sentiment: 'negative' },
+    { text: "error messages don't explain what went wrong", category: 'UX', sentiment: 'negative' },
+    { text: "took me 20 minutes to find billing settings", category: 'UX', sentiment: 'negative' },
+
+    // Feature Requests
+    { text: "please add dark mode support", category: 'Feature', sentiment: 'neutral' },
+    { text: "can I invite more than 5 users?", category: 'Feature', sentiment: 'neutral' },
+    { text: "need slack integration desperately", category: 'Feature', sentiment: 'negative' },
+    { text: "would love to see a calendar view", category: 'Feature', sentiment: 'neutral' },
+    { text: "can you add webhook support?", category: 'Feature', sentiment: 'neutral' },
+    { text: "please let us customize email templates", category: 'Feature', sentiment: 'neutral' },
+    { text: "need ability to bulk delete old records", category: 'Feature', sentiment: 'neutral' },
+    { text: "API rate limits are too restrictive", category: 'Feature', sentiment: 'negative' },
+    { text: "want to export reports as PDF", category: 'Feature', sentiment: 'neutral' },
+    { text: "need two-factor authentication option", category: 'Feature', sentiment: 'neutral' },
+
+    // Positive/Other
+    { text: "I love the new dashboard, very clean", category: 'Other', sentiment: 'positive' },
+    { text: "best tool I've used all year", category: 'Other', sentiment: 'positive' },
+    { text: "delete my account immediately", category: 'Other', sentiment: 'negative' },
+    { text: "your support team is amazing, solved my issue in 5 min", category: 'Other', sentiment: 'positive' },
+    { text: "finally a product that just works", category: 'Other', sentiment: 'positive' },
+    { text: "switched from competitor, night and day difference", category: 'Other', sentiment: 'positive' },
+    { text: "the AI suggestions are surprisingly accurate", category: 'Other', sentiment: 'positive' },
+    { text: "clean UI, fast performance, exactly what we needed", category: 'Other', sentiment: 'positive' }
+];
@@ -0,0 +1,70 @@
+// -----------------------------------------------------------------------------
+// Gravity Scoring: shared by the ingest workflow and the scheduled recompute
+// -----------------------------------------------------------------------------
+
+export type ScoringInput = {
+    sentiment: number;
+    category: string;
+    source?: string | null;
+    created_at?: string | null;
+};
+
+export type Heat = 'High' | 'Medium' | 'Low';
+
+export type ScoringPolicy = {
+    // Multipliers applied to negative feedback of a category (Bug: 2 doubles negative bugs)
+    categoryWeights: Record<string, number>;
+    // Multipliers applied by source, e.g. enterprise support outranks twitter
+    sourceWeights: Record<string, number>;
+    // null keeps the original 1/age_hours decay; a number switches to exponential half-life decay
+    halfLifeHours: number | null;
+    cap: number;
+    heatBands: { high: number; medium: number };
+};
+
+export const DEFAULT_POLICY: ScoringPolicy = {
+    categoryWeights: { Bug: 2 },
+    sourceWeights: {},
+    halfLifeHours: null,
+    cap: 50,
+    heatBands: { high: 6, medium: 3 },
+};
+
+// Whole hours since creation, floored at 1 so fresh (or future-dated) items don't divide by zero
+export function ageInHours(createdAt: string | null | undefined, now: Date): number {
+    const created = createdAt ? new Date(createdAt) : now;
+    const ageMs = now.getTime() - created.getTime();
+    if (!Number.isFinite(ageMs)) return 1;
+    return Math.max(1, Math.floor(ageMs / (1000 * 60 * 60)));
+}
+
+function decayFactor(ageHours: number, policy: ScoringPolicy): number {
+    if (policy.halfLifeHours) {
+        return Math.pow(0.5, (ageHours - 1) / policy.halfLifeHours);
+    }
+    return 1 / ageHours;
+}
+
+export function computeGravity(input: ScoringInput, now: Date = new Date(), policy: ScoringPolicy = DEFAULT_POLICY): number {
+    const sentiment = Number(input.sentiment) || 0;
+    let base = Math.abs(sentiment) * 10 * decayFactor(ageInHours(input.created_at, now), policy);
+    if (sentiment < 0) {
+        base *= policy.categoryWeights[input.category] ?? 1;
+    }
+    if (input.source) {
+        base *= policy.sourceWeights[input.source] ?? 1;
+    }
+    return Math.min(policy.cap, Math.round(base * 100) / 100);
+}
+
+// Cluster gravity: the strongest single report, boosted logarithmically by volume
+export function clusterGravity(maxReportGravity: number, reportCount: number, policy: ScoringPolicy = DEFAULT_POLICY): number {
+    const boosted = maxReportGravity * (1 + Math.log2(Math.max(1, reportCount)));
+    return Math.min(policy.cap, Math.round(boosted * 100) / 100);
+}
+
+export function heatFor(score: number, policy: ScoringPolicy = DEFAULT_POLICY): Heat {
+    if (score >= policy.heatBands.high) return 'High';
+    if (score >= policy.heatBands.medium) return 'Medium';
+    return 'Low';
+}
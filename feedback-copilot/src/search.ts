@@ -0,0 +1,117 @@
+// -----------------------------------------------------------------------------
+// Search: search-box queries over the full-text index with highlighted snippets
+// -----------------------------------------------------------------------------
+
+import { CATEGORIES, ISSUE_STATES } from './issues';
+import { MAX_QUERY_LIMIT, MAX_TERM_LENGTH, MAX_TERMS, parseQuerySpec, QuerySpec, runFeedbackQuery, SNIPPET_CLOSE, SNIPPET_OPEN } from './query';
+import { FieldError, SOURCE_PATTERN } from './validation';
+
+export type SnippetSegment = { text: string; match: boolean };
+
+export type SearchResult = {
+    id: string;
+    source: string;
+    category: string;
+    sentiment: number;
+    gravity_score: number;
+    status: string;
+    issue_id: string | null;
+    created_at: string;
+    relevance: number;
+    snippet: SnippetSegment[];
+};
+
+export type SearchFilters = Pick<QuerySpec, 'category' | 'source' | 'status' | 'since' | 'until' | 'limit'>;
+
+/**
+ * Reads /search filters from a query string. Lists accept repeated params or
+ * comma-separated values. Unlike planner output, invalid values are reported
+ * instead of dropped, so a typo cannot widen the search; the same goes for
+ * search terms the query would otherwise cut.
+ */
+export function parseSearchFilters(params: URLSearchParams): { filters: SearchFilters; errors: FieldError[] } {
+    const errors: FieldError[] = [];
+    const filters: SearchFilters = {};
+    const list = (name: string) => params.getAll(name).flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+    const oneOf = (name: 'category' | 'status', allowed: readonly string[]) => {
+        const values = list(name);
+        if (values.some(v => !allowed.includes(v))) errors.push({ field: name, message: `must be one of ${allowed.join(', ')}` });
+        else if (values.length) filters[name] = values;
+    };
+    const date = (name: 'since' | 'until') => {
+        const raw = params.get(name);
+        if (!raw) return;
+        if (isNaN(Date.parse(raw))) errors.push({ field: name, message: 'must be an ISO 8601 date' });
+        else filters[name] = new Date(raw).toISOString();
+    };
+
+    oneOf('category', CATEGORIES);
+    const source = list('source');
+    if (source.some(s => !SOURCE_PATTERN.test(s))) errors.push({ field: 'source', message: 'has an invalid format' });
+    else if (source.length) filters.source = source;
+    oneOf('status', ISSUE_STATES);
+    date('since');
+    date('until');
+    if (filters.since && filters.until && filters.since >= filters.until) errors.push({ field: 'since', message: 'must be before until' });
+
+    const limit = params.get('limit');
+    if (limit !== null) {
+        const value = Number(limit);
+        if (Number.isInteger(value) && value >= 1 && value <= MAX_QUERY_LIMIT) filters.limit = value;
+        else errors.push({ field: 'limit', message: `must be a whole number from 1 to ${MAX_QUERY_LIMIT}` });
+    }
+
+    const terms = parseSearchTerms(params.get('q') || '');
+    if (terms.length > MAX_TERMS) errors.push({ field: 'terms', message: `must be at most ${MAX_TERMS} words or phrases` });
+    if (terms.some(t => t.length > MAX_TERM_LENGTH)) errors.push({ field: 'terms', message: `must each be at most ${MAX_TERM_LENGTH} characters` });
+    return { filters, errors };
+}
+
+/**
+ * Splits a search-box query into terms that must all match. "Quoted text"
+ * is one phrase, and a word ending in * matches by prefix (`export*`
+ * finds "exports" and "exporting"). Words are stemmed by the index, so
+ * "crash" also finds "crashes".
+ */
+export function parseSearchTerms(q: string): string[] {
+    const terms: string[] = [];
+    for (const [, phrase, word] of q.matchAll(/"([^"]*)"?|(\S+)/g)) {
+        const term = (phrase ?? word).trim();
+        if (term) terms.push(term);
+    }
+    return terms;
+}
+
+/**
+ * Splits an FTS snippet into plain and matched segments. Clients render
+ * each segment as text, so highlighted feedback never becomes markup.
+ */
+export function snippetSegments(snippet: string | null): SnippetSegment[] {
+    const segments: SnippetSegment[] = [];
+    for (const [i, part] of (snippet || '').split(new RegExp(`[${SNIPPET_OPEN}${SNIPPET_CLOSE}]`)).entries()) {
+        // Parts alternate between plain text and matches, starting with plain text
+        if (part) segments.push({ text: part, match: i % 2 === 1 });
+    }
+    return segments;
+}
+
+/**
+ * Ranked search across feedback in every state, including closed and
+ * snoozed work, unless the filters name statuses. Filters are checked
+ * like planner output. Returns null when the query has nothing searchable.
+ */
+export async function searchFeedback(db: D1Database, q: string, filters: SearchFilters = {}): Promise<SearchResult[] | null> {
+    const spec = parseQuerySpec({ ...filters, terms: parseSearchTerms(q) });
+    const terms = spec.terms?.filter(t => /[\p{L}\p{N}]/u.test(t));
+    if (!terms?.length) return null;
+
+    const rows = await runFeedbackQuery(db, {
+        ...spec, terms, status: spec.status ?? [...ISSUE_STATES], sort: 'relevance'
+    }, undefined, { snippets: true });
+    return rows.map(r => ({
+        id: r.id, source: r.source, category: r.category, sentiment: r.sentiment, gravity_score: r.gravity_score,
+        status: r.status, issue_id: r.issue_id, created_at: r.created_at,
+        relevance: r.relevance,
+        snippet: snippetSegments(r.snippet),
+    }));
+}
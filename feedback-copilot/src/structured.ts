@@ -0,0 +1,257 @@
+// -----------------------------------------------------------------------------
+// Structured Output: JSON extraction, schema checks and repair retries for model replies
+// -----------------------------------------------------------------------------
+
+import { AITask, LLM, LLMMessage, TokenHandler } from './llm';
+
+export type OutputField =
+    // clamp: out-of-range numbers are pulled into range instead of rejected
+    | { type: 'number'; required?: boolean; min?: number; max?: number; clamp?: boolean }
+    // oneOf matches case-insensitively and stores the canonical spelling; truncate cuts instead of rejecting
+    | { type: 'string'; required?: boolean; oneOf?: readonly string[]; maxLength?: number; truncate?: boolean }
+    | { type: 'boolean'; required?: boolean }
+    | { type: 'array'; required?: boolean; items?: OutputField }
+    | { type: 'object'; required?: boolean; fields?: OutputSchema };
+
+export type OutputSchema = Record<string, OutputField>;
+
+export type Checked<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export type StructuredResult<T> =
+    | { ok: true; value: T; attempts: number; repaired: boolean }
+    | { ok: false; errors: string[]; attempts: number; raw: string };
+
+/**
+ * Every complete top-level JSON object in a reply, in order. Models wrap JSON
+ * in markdown fences or prose, so braces are matched (ignoring those inside
+ * strings) rather than trusting the first "{" and the last "}".
+ */
+export function jsonObjects(text: string): any[] {
+    const body = String(text ?? '').replace(/```(?:json)?/gi, '');
+    const found: any[] = [];
+    let start = body.indexOf('{');
+    while (start !== -1) {
+        let depth = 0;
+        let inString = false;
+        let end = -1;
+        for (let i = start; i < body.length && end === -1; i++) {
+            const ch = body[i];
+            if (inString) {
+                if (ch === '\\') i++;
+                else if (ch === '"') inString = false;
+            } else if (ch === '"') {
+                inString = true;
+            } else if (ch === '{') {
+                depth++;
+            } else if (ch === '}' && --depth === 0) {
+                end = i;
+            }
+        }
+        if (end === -1) break;
+        try {
+            found.push(JSON.parse(body.slice(start, end + 1)));
+            start = body.indexOf('{', end + 1);
+        } catch {
+            // Not JSON after all (e.g. "{junk}" in prose): try the next brace inside it
+            start = body.indexOf('{', start + 1);
+        }
+    }
+    return found;
+}
+
+export function extractJsonObject(text: string): any {
+    const [first] = jsonObjects(text);
+    if (first === undefined) throw new Error("No JSON object found in response");
+    return first;
+}
+
+function checkValue(path: string, value: unknown, rule: OutputField, errors: string[]): unknown {
+    if (value === undefined || value === null) {
+        if (rule.required) errors.push(`${path} is required`);
+        return undefined;
+    }
+
+    if (rule.type === 'number') {
+        const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+        if (typeof n !== 'number' || !Number.isFinite(n)) {
+            errors.push(`${path} must be a number`);
+            return undefined;
+        }
+        if ((rule.min !== undefined && n < rule.min) || (rule.max !== undefined && n > rule.max)) {
+            if (!rule.clamp) {
+                errors.push(`${path} must be between ${rule.min ?? '-∞'} and ${rule.max ?? '∞'}`);
+                return undefined;
+            }
+            return Math.min(Math.max(n, rule.min ?? -Infinity), rule.max ?? Infinity);
+        }
+        return n;
+    }
+    if (rule.type === 'string') {
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            errors.push(`${path} must be a string`);
+            return undefined;
+        }
+        let s = String(value).trim();
+        if (rule.oneOf) {
+            const match = rule.oneOf.find(o => o.toLowerCase() === s.toLowerCase());
+            if (!match) {
+                errors.push(`${path} must be one of ${rule.oneOf.join(', ')}`);
+                return undefined;
+            }
+            s = match;
+        }
+        if (rule.required && !s) errors.push(`${path} must not be empty`);
+        if (rule.maxLength !== undefined && s.length > rule.maxLength) {
+            if (!rule.truncate) errors.push(`${path} must be at most ${rule.maxLength} characters`);
+            s = s.slice(0, rule.maxLength);
+        }
+        return s;
+    }
+    if (rule.type === 'boolean') {
+        if (typeof value !== 'boolean') errors.push(`${path} must be true or false`);
+        return value;
+    }
+    if (rule.type === 'array') {
+        if (!Array.isArray(value)) {
+            errors.push(`${path} must be an array`);
+            return undefined;
+        }
+        return rule.items ? value.map((item, idx) => checkValue(`${path}[${idx}]`, item, rule.items!, errors)) : value;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        return undefined;
+    }
+    return rule.fields ? checkObject(path, value as Record<string, unknown>, rule.fields, errors) : value;
+}
+
+// Extra keys are kept; models often add harmless fields the schema does not declare
+function checkObject(path: string, input: Record<string, unknown>, schema: OutputSchema, errors: string[]) {
+    const out: Record<string, unknown> = { ...input };
+    for (const [key, rule] of Object.entries(schema)) {
+        const value = checkValue(path ? `${path}.${key}` : key, input[key], rule, errors);
+        if (value === undefined) delete out[key];
+        else out[key] = value;
+    }
+    return out;
+}
+
+// Validates a parsed reply, returning the normalized value (clamped, canonical enums)
+export function checkOutput<T>(value: unknown, schema: OutputSchema): Checked<T> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { ok: false, errors: ['reply must be a JSON object'] };
+    const errors: string[] = [];
+    const out = checkObject('', value as Record<string, unknown>, schema, errors);
+    return errors.length ? { ok: false, errors } : { ok: true, value: out as T };
+}
+
+// The first object in the reply that passes; otherwise the errors for the first one found
+export function parseOutput<T>(text: string, schema: OutputSchema): Checked<T> {
+    const candidates = jsonObjects(text);
+    if (!candidates.length) return { ok: false, errors: ['No JSON object found in response'] };
+    let firstFailure: Checked<T> | null = null;
+    for (const candidate of candidates) {
+        const checked = checkOutput<T>(candidate, schema);
+        if (checked.ok) return checked;
+        firstFailure ??= checked;
+    }
+    return firstFailure!;
+}
+
+/**
+ * Counts outcomes per task per day in ai_output_metrics. Metrics never fail
+ * the caller: a write error is only logged.
+ */
+export async function recordOutputMetric(db: D1Database, task: string, outcome: 'ok' | 'repaired' | 'failed', error?: string) {
+    const now = new Date().toISOString();
+    try {
+        await db.prepare(
+            `INSERT INTO ai_output_metrics (task, day, ok, repaired, failed, last_error, updated_at)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
+             ON CONFLICT (task, day) DO UPDATE SET
+                ok = ok + excluded.ok, repaired = repaired + excluded.repaired, failed = failed + excluded.failed,
+                last_error = COALESCE(excluded.last_error, last_error), updated_at = excluded.updated_at`
+        ).bind(task, now.slice(0, 10), outcome === 'ok' ? 1 : 0, outcome === 'repaired' ? 1 : 0, outcome === 'failed' ? 1 : 0, error ?? null, now).run();
+    } catch (e) {
+        console.error("Failed to record output metric:", e);
+    }
+}
+
+export async function listOutputMetrics(db: D1Database, days: number) {
+    const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString().slice(0, 10);
+    const { results } = await db.prepare(
+        `SELECT task, day, ok, repaired, failed, last_error FROM ai_output_metrics WHERE day >= ? ORDER BY day DESC, task`
+    ).bind(since).all();
+    return results;
+}
+
+/**
+ * The JSON Schema equivalent of an OutputSchema, for providers with a JSON
+ * mode. Clamped and truncated limits are left out since those are fixed up
+ * after the fact rather than rejected.
+ */
+export function toJsonSchema(schema: OutputSchema): Record<string, unknown> {
+    const field = (rule: OutputField): Record<string, unknown> => {
+        if (rule.type === 'number') {
+            return { type: 'number', ...(!rule.clamp && rule.min !== undefined ? { minimum: rule.min } : {}), ...(!rule.clamp && rule.max !== undefined ? { maximum: rule.max } : {}) };
+        }
+        if (rule.type === 'string') {
+            return { type: 'string', ...(rule.oneOf ? { enum: rule.oneOf } : {}), ...(!rule.truncate && rule.maxLength !== undefined ? { maxLength: rule.maxLength } : {}) };
+        }
+        if (rule.type === 'array') return { type: 'array', ...(rule.items ? { items: field(rule.items) } : {}) };
+        if (rule.type === 'object') return rule.fields ? toJsonSchema(rule.fields) : { type: 'object' };
+        return { type: 'boolean' };
+    };
+    return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(schema).map(([key, rule]) => [key, field(rule)])),
+        required: Object.entries(schema).filter(([, rule]) => rule.required).map(([key]) => key),
+    };
+}
+
+function repairPrompt(errors: string[]): string {
+    return `Your previous reply could not be used:
+${errors.map(e => `- ${e}`).join('\n')}
+Reply again with ONLY the corrected JSON object. Keep the same schema and do not add any other text.`;
+}
+
+/**
+ * Asks the model serving `aiTask` for JSON matching `schema`. Invalid replies
+ * are sent back with the validation errors for up to `repairs` more attempts.
+ * With `onToken` the first attempt is streamed; repairs are plain calls.
+ * Every outcome is recorded under `task`.
+ */
+export async function generateStructured<T>(llm: LLM, db: D1Database, opts: {
+    task: string;
+    aiTask: AITask;
+    messages: LLMMessage[];
+    schema: OutputSchema;
+    maxTokens?: number;
+    repairs?: number;
+    onToken?: TokenHandler;
+}): Promise<StructuredResult<T>> {
+    const repairs = opts.repairs ?? 1;
+    const messages = [...opts.messages];
+    const jsonSchema = toJsonSchema(opts.schema);
+    let raw = '';
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= repairs + 1; attempt++) {
+        const request = { messages: [...messages], maxTokens: opts.maxTokens, jsonSchema };
+        raw = attempt === 1 && opts.onToken
+            ? await llm.stream(opts.aiTask, request, opts.onToken)
+            : (await llm.chat(opts.aiTask, request)).text;
+
+        const checked = parseOutput<T>(raw, opts.schema);
+        if (checked.ok) {
+            await recordOutputMetric(db, opts.task, attempt === 1 ? 'ok' : 'repaired');
+            return { ok: true, value: checked.value, attempts: attempt, repaired: attempt > 1 };
+        }
+
+        errors = checked.errors;
+        console.error(`Invalid ${opts.task} output (attempt ${attempt}):`, errors.join('; '));
+        messages.push({ role: 'assistant', content: raw }, { role: 'user', content: repairPrompt(errors) });
+    }
+
+    await recordOutputMetric(db, opts.task, 'failed', errors.join('; ').slice(0, 500));
+    return { ok: false, errors, attempts: repairs + 1, raw };
+}
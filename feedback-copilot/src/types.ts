@@ -0,0 +1,24 @@
+// -----------------------------------------------------------------------------
+// Shared Types
+// -----------------------------------------------------------------------------
+
+export type FeedbackEvent = {
+    source: string;
+    content: string;
+    created_at?: string;
+    // Set when the item arrived through a bulk ingest job
+    job_id?: string;
+    // Upstream id; (source, external_id) is unique so retries and edits upsert
+    external_id?: string;
+    // Preserved from connector payloads (requester, GitHub login, ticket URL, …)
+    author?: string;
+    url?: string;
+    // Set by /admin/reprocess: re-enrich and rescore this stored row in place
+    reprocess_id?: string;
+};
+
+export type AnalysisResult = {
+    sentiment: number;
+    category: "Bug" | "UX" | "Feature" | "Other";
+    explanation: string;
+};
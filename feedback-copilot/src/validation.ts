@@ -0,0 +1,114 @@
+// -----------------------------------------------------------------------------
+// Request Validation: schema checks and typed 4xx responses for JSON routes
+// -----------------------------------------------------------------------------
+
+export const MAX_JSON_BODY_BYTES = 64 * 1024;
+export const MAX_CONTENT_LENGTH = 5000;
+export const SOURCE_PATTERN = /^[a-z0-9][a-z0-9_.:-]{0,63}$/i;
+export const ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+export type FieldError = { field: string; message: string };
+
+export type FieldRule =
+    | { type: 'string'; required?: boolean; nullable?: boolean; minLength?: number; maxLength?: number; pattern?: RegExp; patternHint?: string; oneOf?: readonly string[]; date?: boolean }
+    | { type: 'number'; required?: boolean; nullable?: boolean; min?: number; max?: number }
+    | { type: 'boolean'; required?: boolean }
+    | { type: 'object'; required?: boolean };
+
+export type Schema = Record<string, FieldRule>;
+
+export type Validated<T> = { ok: true; value: T } | { ok: false; response: Response };
+
+export function errorResponse(status: number, error: string, message: string, fields?: FieldError[]): Response {
+    return new Response(JSON.stringify({ error, message, ...(fields ? { fields } : {}) }), {
+        status, headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+function checkField(field: string, value: unknown, rule: FieldRule): string | null {
+    if (value === undefined || (value === null && (rule.type === 'string' || rule.type === 'number') && rule.nullable)) {
+        return rule.required ? 'is required' : null;
+    }
+
+    if (rule.type === 'string') {
+        if (typeof value !== 'string') return 'must be a string';
+        const trimmed = value.trim();
+        if (rule.required && !trimmed) return 'must not be empty';
+        if (rule.minLength !== undefined && trimmed.length < rule.minLength) return `must be at least ${rule.minLength} characters`;
+        if (rule.maxLength !== undefined && value.length > rule.maxLength) return `must be at most ${rule.maxLength} characters`;
+        if (rule.oneOf && !rule.oneOf.includes(value)) return `must be one of ${rule.oneOf.join(', ')}`;
+        if (rule.pattern && trimmed && !rule.pattern.test(trimmed)) return rule.patternHint || 'has an invalid format';
+        if (rule.date && trimmed && isNaN(Date.parse(trimmed))) return 'must be an ISO 8601 date';
+        return null;
+    }
+    if (rule.type === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+        if (rule.min !== undefined && value < rule.min) return `must be >= ${rule.min}`;
+        if (rule.max !== undefined && value > rule.max) return `must be <= ${rule.max}`;
+        return null;
+    }
+    if (rule.type === 'boolean') return typeof value === 'boolean' ? null : 'must be true or false';
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return 'must be an object';
+    return null;
+}
+
+// Unknown keys are rejected so typos surface instead of being ignored
+export function validate(input: unknown, schema: Schema): FieldError[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return [{ field: '(body)', message: 'must be a JSON object' }];
+    }
+    const body = input as Record<string, unknown>;
+    const errors: FieldError[] = [];
+
+    for (const [field, rule] of Object.entries(schema)) {
+        const message = checkField(field, body[field], rule);
+        if (message) errors.push({ field, message });
+    }
+    for (const key of Object.keys(body)) {
+        if (!(key in schema)) errors.push({ field: key, message: 'is not allowed' });
+    }
+    return errors;
+}
+
+/**
+ * Reads and validates a JSON body. Wrong content type, oversized bodies,
+ * malformed JSON and schema violations each get their own typed error.
+ */
+export async function readJsonBody<T>(request: Request, schema: Schema, opts: { maxBytes?: number; check?: (body: T) => FieldError[] } = {}): Promise<Validated<T>> {
+    const maxBytes = opts.maxBytes ?? MAX_JSON_BODY_BYTES;
+    const contentType = request.headers.get('Content-Type') || '';
+    if (!contentType.toLowerCase().startsWith('application/json')) {
+        return { ok: false, response: errorResponse(415, 'unsupported_media_type', 'Content-Type must be application/json') };
+    }
+
+    const declared = Number(request.headers.get('Content-Length'));
+    if (declared > maxBytes) {
+        return { ok: false, response: errorResponse(413, 'payload_too_large', `Body must be at most ${maxBytes} bytes`) };
+    }
+    const raw = await request.text();
+    if (new TextEncoder().encode(raw).length > maxBytes) {
+        return { ok: false, response: errorResponse(413, 'payload_too_large', `Body must be at most ${maxBytes} bytes`) };
+    }
+
+    let body: unknown;
+    try {
+        body = JSON.parse(raw);
+    } catch (e) {
+        return { ok: false, response: errorResponse(400, 'invalid_json', 'Body is not valid JSON') };
+    }
+
+    const errors = validate(body, schema);
+    if (!errors.length && opts.check) errors.push(...opts.check(body as T));
+    if (errors.length) {
+        return { ok: false, response: errorResponse(400, 'validation_failed', 'Request body is invalid', errors) };
+    }
+    return { ok: true, value: body as T };
+}
+
+// Field rules shared across routes
+export const Fields = {
+    id: { type: 'string', required: true, pattern: ID_PATTERN, patternHint: 'must be an issue id' },
+    reason: { type: 'string', maxLength: 500 },
+    source: { type: 'string', pattern: SOURCE_PATTERN, patternHint: 'must be 1-64 letters, digits or _ . : -' },
+    text: { type: 'string', required: true, maxLength: MAX_CONTENT_LENGTH },
+} satisfies Record<string, FieldRule>;
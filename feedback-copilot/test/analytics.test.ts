@@ -0,0 +1,130 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import {
+    AnalyticsFilters, analyticsOverview, medianTimeToClose, parseAnalyticsFilters, sentimentTrend, statusCounts, topMovers, volumeByPeriod
+} from '../src/analytics';
+import { seedFeedback, seedIssue } from './helpers';
+
+const RANGE: AnalyticsFilters = { since: '2026-03-01T00:00:00.000Z', until: '2026-03-15T00:00:00.000Z' };
+
+const day = (d: number, hour = 12) => `2026-03-${String(d).padStart(2, '0')}T${String(hour).padStart(2, '0')}:00:00.000Z`;
+
+// Closes a seeded report at the given time
+async function close(id: string, at: string, status = 'resolved') {
+    await env.FEEDBACK_DB.prepare(`UPDATE feedback SET status = ?, closed_at = ? WHERE id = ?`).bind(status, at, id).run();
+}
+
+describe('parseAnalyticsFilters', () => {
+    const now = new Date('2026-03-31T00:00:00.000Z');
+
+    it('defaults to the last 30 days and splits list values', () => {
+        const { filters, errors } = parseAnalyticsFilters(new URLSearchParams('category=Bug,UX&source=github'), now);
+        expect(errors).toEqual([]);
+        expect(filters).toEqual({ since: '2026-03-01T00:00:00.000Z', until: '2026-03-31T00:00:00.000Z', category: ['Bug', 'UX'], source: ['github'] });
+    });
+
+    it('rejects bad dates, inverted ranges and unknown categories', () => {
+        expect(parseAnalyticsFilters(new URLSearchParams('since=soon'), now).errors).toEqual([{ field: 'since', message: 'must be an ISO 8601 date' }]);
+        expect(parseAnalyticsFilters(new URLSearchParams('since=2026-04-01'), now).errors).toEqual([{ field: 'since', message: 'must be before until' }]);
+        expect(parseAnalyticsFilters(new URLSearchParams('since=2024-01-01'), now).errors[0].field).toBe('since');
+        expect(parseAnalyticsFilters(new URLSearchParams('category=Bugs'), now).errors[0].field).toBe('category');
+    });
+});
+
+describe('volumeByPeriod', () => {
+    it('counts reports per day or Monday-based week, by category or source', async () => {
+        await seedFeedback({ created_at: day(2), category: 'Bug' });
+        await seedFeedback({ created_at: day(2, 20), category: 'Bug', source: 'github' });
+        await seedFeedback({ created_at: day(3), category: 'UX' });
+        await seedFeedback({ created_at: day(9), category: 'Bug' });
+        await seedFeedback({ created_at: day(16), category: 'Bug' });
+        await seedFeedback({ created_at: day(4), category: null, sentiment: null, enrichment_status: 'failed' });
+
+        expect(await volumeByPeriod(env.FEEDBACK_DB, RANGE)).toEqual([
+            { period: '2026-03-02', key: 'Bug', count: 2 },
+            { period: '2026-03-03', key: 'UX', count: 1 },
+            { period: '2026-03-09', key: 'Bug', count: 1 },
+        ]);
+        expect(await volumeByPeriod(env.FEEDBACK_DB, RANGE, 'week', 'source')).toEqual([
+            { period: '2026-03-02', key: 'github', count: 1 },
+            { period: '2026-03-02', key: 'support', count: 2 },
+            { period: '2026-03-09', key: 'support', count: 1 },
+        ]);
+        expect(await volumeByPeriod(env.FEEDBACK_DB, { ...RANGE, source: ['github'] })).toEqual([{ period: '2026-03-02', key: 'Bug', count: 1 }]);
+    });
+});
+
+describe('sentimentTrend', () => {
+    it('weights the moving average by reports and looks back before the range', async () => {
+        await seedFeedback({ created_at: '2026-02-28T12:00:00.000Z', sentiment: -1 });
+        await seedFeedback({ created_at: day(1), sentiment: 0.5 });
+        await seedFeedback({ created_at: day(3), sentiment: 0 });
+        await seedFeedback({ created_at: day(3), sentiment: 0.3 });
+        await seedFeedback({ created_at: day(10), sentiment: 0.6 });
+
+        expect(await sentimentTrend(env.FEEDBACK_DB, RANGE, 3)).toEqual([
+            { day: '2026-03-01', count: 1, average: 0.5, moving_average: -0.25 },
+            { day: '2026-03-03', count: 2, average: 0.15, moving_average: 0.267 },
+            { day: '2026-03-10', count: 1, average: 0.6, moving_average: 0.6 },
+        ]);
+    });
+});
+
+describe('statusCounts', () => {
+    it('groups current statuses and counts closures in the range', async () => {
+        await seedFeedback({ created_at: day(2) });
+        await seedFeedback({ created_at: day(2), status: 'in_progress' });
+        await seedFeedback({ created_at: day(2), status: 'snoozed' });
+        await close(await seedFeedback({ created_at: day(3) }), day(4));
+        await close(await seedFeedback({ created_at: '2026-02-01T00:00:00.000Z' }), day(5), 'wont_fix');
+
+        const counts = await statusCounts(env.FEEDBACK_DB, RANGE);
+        expect(counts).toMatchObject({ open: 2, closed: 1, snoozed: 1, closed_in_range: 2 });
+        expect(counts.by_status).toMatchObject({ open: 1, in_progress: 1, snoozed: 1, resolved: 1, wont_fix: 0 });
+    });
+});
+
+describe('medianTimeToClose', () => {
+    it('takes the median overall and per category, averaging the middle pair', async () => {
+        await close(await seedFeedback({ created_at: day(1, 0), category: 'Bug' }), day(1, 2));
+        await close(await seedFeedback({ created_at: day(1, 0), category: 'Bug' }), day(1, 6));
+        await close(await seedFeedback({ created_at: day(1, 0), category: 'Bug' }), day(2, 0));
+        await close(await seedFeedback({ created_at: day(1, 0), category: 'UX' }), day(1, 10));
+        await close(await seedFeedback({ created_at: day(1, 0), category: 'UX' }), day(20, 0));
+
+        expect(await medianTimeToClose(env.FEEDBACK_DB, RANGE)).toEqual([
+            { key: 'all', closed: 4, median_hours: 8 },
+            { key: 'Bug', closed: 3, median_hours: 6 },
+            { key: 'UX', closed: 1, median_hours: 10 },
+        ]);
+    });
+});
+
+describe('topMovers', () => {
+    it('ranks week-over-week changes by size', async () => {
+        const { issueId: rising } = await seedIssue({ content: 'Checkout spinner never stops', created_at: day(10) });
+        const { issueId: falling } = await seedIssue({ content: 'Login loop', created_at: day(2) });
+        for (const d of [11, 12, 13]) await seedFeedback({ created_at: day(d), issue_id: rising, category: 'UX' });
+        for (const d of [3, 4]) await seedFeedback({ created_at: day(d), issue_id: falling });
+
+        expect(await topMovers(env.FEEDBACK_DB, RANGE)).toEqual([
+            { key: rising, label: 'Checkout spinner never stops', current: 4, previous: 0, change: 4 },
+            { key: falling, label: 'Login loop', current: 0, previous: 3, change: -3 },
+        ]);
+        expect(await topMovers(env.FEEDBACK_DB, RANGE, 'category', 1)).toEqual([{ key: 'UX', label: null, current: 3, previous: 0, change: 3 }]);
+    });
+});
+
+describe('analyticsOverview', () => {
+    it('totals the range by category and source', async () => {
+        await seedFeedback({ created_at: day(2), category: 'Bug', sentiment: -0.5 });
+        await seedFeedback({ created_at: day(3), category: 'Feature', source: 'github', sentiment: 0.3 });
+
+        const overview = await analyticsOverview(env.FEEDBACK_DB, RANGE);
+        expect(overview).toMatchObject({
+            total: 2, by_category: { Bug: 1, UX: 0, Feature: 1, Other: 0 }, by_source: { support: 1, github: 1 }, average_sentiment: -0.1,
+            status: { open: 2 },
+        });
+        expect(overview.volume).toHaveLength(2);
+    });
+});
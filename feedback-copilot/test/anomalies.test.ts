@@ -0,0 +1,102 @@
+import { createExecutionContext, createScheduledController, env, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { Anomaly, describeAnomaly, detectAnomalies, listAnomalies, scoreSubject } from '../src/anomalies';
+import worker from '../src/index';
+import { FeedbackRow, seedFeedback, seedIssue } from './helpers';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3600 * 1000).toISOString();
+
+// `perDay` reports on each of the 14 baseline days, then `today` in the last 24 hours
+async function seedHistory(perDay: number, today: number, baseline: Partial<FeedbackRow> = {}, current: Partial<FeedbackRow> = {}) {
+    for (let day = 1; day <= 14; day++) {
+        for (let i = 0; i < perDay; i++) await seedFeedback({ source: 'support', created_at: hoursAgo(day * 24 + 2 + i), ...baseline });
+    }
+    for (let i = 0; i < today; i++) await seedFeedback({ source: 'support', created_at: hoursAgo(2 + i), ...current });
+}
+
+describe('scoreSubject', () => {
+    const days = (reports: number[]) => reports.map((r, i) => ({ subject: 'Bug', bucket: i + 1, reports: r, total: -0.5 * r, squares: 0.25 * r }));
+
+    it('flags a count three deviations above the daily mean, counting empty days as zero', () => {
+        const [spike] = scoreSubject([{ subject: 'Bug', bucket: 0, reports: 9, total: -4.5, squares: 2.25 }, ...days([2, 2, 2, 2, 2, 2, 2])]);
+        expect(spike).toMatchObject({ kind: 'volume_spike', observed: 9, expected: 1, deviation: 1, score: 8 });
+    });
+
+    it('ignores quiet subjects and normal days', () => {
+        expect(scoreSubject([{ subject: 'Bug', bucket: 0, reports: 4, total: -2, squares: 1 }])).toEqual([]);
+        expect(scoreSubject([{ subject: 'Bug', bucket: 0, reports: 6, total: -3, squares: 1.5 }, ...days(Array(14).fill(5))])).toEqual([]);
+    });
+
+    it('flags a drop in average sentiment', () => {
+        const [drop] = scoreSubject([{ subject: 'Bug', bucket: 0, reports: 5, total: -4, squares: 3.2 }, ...days(Array(14).fill(5))]);
+        expect(drop).toMatchObject({ kind: 'sentiment_drop', observed: -0.8, expected: -0.5 });
+        expect(drop.score).toBeLessThanOrEqual(-3);
+    });
+});
+
+describe('detectAnomalies', () => {
+    it('records a volume spike for the category, source and issue', async () => {
+        await seedHistory(1, 0, { category: 'Bug' });
+        const { issueId } = await seedIssue({ created_at: hoursAgo(1), source: 'github', content: 'Checkout fails on submit' });
+        for (let i = 0; i < 7; i++) await seedFeedback({ created_at: hoursAgo(2 + i), source: 'github', issue_id: issueId });
+
+        const { anomalies } = await detectAnomalies(env.FEEDBACK_DB, NOW);
+
+        expect(anomalies.map(a => [a.kind, a.dimension, a.subject])).toEqual(expect.arrayContaining([
+            ['volume_spike', 'category', 'Bug'], ['volume_spike', 'source', 'github'], ['volume_spike', 'issue', issueId],
+        ]));
+        expect(anomalies.find(a => a.dimension === 'issue')).toMatchObject({ label: 'Checkout fails on submit', observed: 8, expected: 0 });
+        expect(anomalies.some(a => a.dimension === 'source' && a.subject === 'support')).toBe(false);
+    });
+
+    it('records a sentiment drop', async () => {
+        await seedHistory(4, 5, { category: 'UX', sentiment: 0.5 }, { category: 'UX', sentiment: -0.5 });
+
+        const { anomalies } = await detectAnomalies(env.FEEDBACK_DB, NOW);
+
+        expect(anomalies.find(a => a.dimension === 'category')).toMatchObject({ kind: 'sentiment_drop', subject: 'UX', observed: -0.5, expected: 0.5 });
+        expect(anomalies.some(a => a.kind === 'volume_spike')).toBe(false);
+    });
+
+    it('waits for a week of history', async () => {
+        for (let i = 0; i < 10; i++) await seedFeedback({ created_at: hoursAgo(2 + i * 6) });
+
+        const result = await detectAnomalies(env.FEEDBACK_DB, NOW);
+
+        expect(result).toMatchObject({ subjects: 0, anomalies: [], skipped: 'needs 7 days of feedback' });
+    });
+
+    it('keeps one row per signal a day and refreshes it on later runs', async () => {
+        await seedHistory(1, 8, { category: 'Bug' }, { category: 'Bug' });
+
+        await detectAnomalies(env.FEEDBACK_DB, NOW);
+        const later = new Date(NOW.getTime() + 3600 * 1000);
+        await detectAnomalies(env.FEEDBACK_DB, later);
+
+        const { results } = await env.FEEDBACK_DB.prepare(`SELECT * FROM anomalies WHERE dimension = 'category'`).all<Anomaly>();
+        expect(results).toHaveLength(1);
+        expect(results[0]).toMatchObject({ first_seen_at: NOW.toISOString(), last_seen_at: later.toISOString() });
+    });
+
+    it('runs from the hourly cron', async () => {
+        await seedHistory(1, 8, { category: 'Bug' }, { category: 'Bug' });
+
+        const ctx = createExecutionContext();
+        await worker.scheduled(createScheduledController({ scheduledTime: NOW, cron: '0 * * * *' }), env, ctx);
+        await waitOnExecutionContext(ctx);
+
+        const anomalies = await listAnomalies(env.FEEDBACK_DB, { now: NOW });
+        expect(anomalies.map(a => [a.kind, a.subject])).toContainEqual(['volume_spike', 'Bug']);
+    });
+});
+
+describe('describeAnomaly', () => {
+    it('names the subject and compares with the baseline', () => {
+        const base = { kind: 'volume_spike', dimension: 'category', subject: 'Bug', label: 'Bug', observed: 14, expected: 2.14 } as const;
+        expect(describeAnomaly(base)).toBe('Bug: 14 reports in 24h, usually 2.1 a day');
+        expect(describeAnomaly({ ...base, dimension: 'issue', subject: 'issue-1', label: 'Checkout fails' })).toBe('Issue "Checkout fails": 14 reports in 24h, usually 2.1 a day');
+        expect(describeAnomaly({ ...base, kind: 'sentiment_drop', dimension: 'source', subject: 'github', label: 'github', observed: -0.62, expected: 0.1 }))
+            .toBe('Source github: sentiment -0.62 in 24h, usually 0.10');
+    });
+});
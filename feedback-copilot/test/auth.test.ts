@@ -0,0 +1,56 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { authenticate, verifyAccessJwt } from '../src/auth';
+import { ADMIN } from './helpers';
+
+const now = () => Math.floor(Date.now() / 1000);
+const base64Url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+let keys: CryptoKeyPair;
+let accessEnv: Env;
+
+// An RS256 token signed with the test key
+async function sign(claims: Record<string, unknown>): Promise<string> {
+    const body = `${encodeJson({ alg: 'RS256', kid: 'test' })}.${encodeJson(claims)}`;
+    const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keys.privateKey, new TextEncoder().encode(body));
+    return `${body}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function accessRequest(email: string, token: string) {
+    return new Request('https://copilot.test/app', { headers: { 'Cf-Access-Authenticated-User-Email': email, 'Cf-Access-Jwt-Assertion': token } });
+}
+
+beforeAll(async () => {
+    keys = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }, true, ['sign', 'verify']
+    ) as CryptoKeyPair;
+    const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey) as JsonWebKey;
+    accessEnv = { ...env, ACCESS_JWKS: JSON.stringify({ keys: [{ ...jwk, kid: 'test' }] }) };
+});
+
+describe('verifyAccessJwt', () => {
+    it('accepts a signed, current token', async () => {
+        expect(await verifyAccessJwt(await sign({ email: ADMIN, exp: now() + 60, nbf: now() - 60 }), accessEnv)).toMatchObject({ email: ADMIN });
+    });
+
+    it('rejects tokens without an expiry, expired or not yet valid', async () => {
+        expect(await verifyAccessJwt(await sign({ email: ADMIN }), accessEnv)).toBeNull();
+        expect(await verifyAccessJwt(await sign({ email: ADMIN, exp: String(now() + 60) }), accessEnv)).toBeNull();
+        expect(await verifyAccessJwt(await sign({ email: ADMIN, exp: now() - 60 }), accessEnv)).toBeNull();
+        expect(await verifyAccessJwt(await sign({ email: ADMIN, exp: now() + 600, nbf: now() + 300 }), accessEnv)).toBeNull();
+    });
+});
+
+describe('authenticate', () => {
+    it('takes the identity from a token whose email matches the header', async () => {
+        expect(await authenticate(accessRequest(ADMIN, await sign({ email: ADMIN.toUpperCase(), exp: now() + 60 })), accessEnv))
+            .toEqual({ email: ADMIN, role: 'admin' });
+    });
+
+    it('does not let a token without an email, or with another one, vouch for the header', async () => {
+        const serviceToken = await sign({ common_name: 'ci-bot', exp: now() + 60 });
+        expect(await authenticate(accessRequest(ADMIN, serviceToken), accessEnv)).toBeNull();
+        expect(await authenticate(accessRequest(ADMIN, await sign({ email: 'someone@example.com', exp: now() + 60 })), accessEnv)).toBeNull();
+    });
+});
@@ -0,0 +1,239 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { answerChat } from '../src/chat';
+import { createConversation, listTurns } from '../src/conversations';
+import { listOutputMetrics } from '../src/structured';
+import { ADMIN, call, seedAnomaly, seedFeedback, seedIssue, TRIAGER, VIEWER } from './helpers';
+
+const uuid = () => crypto.randomUUID();
+
+// Asks one question and returns the answer with the turn the conversation stored for it
+async function ask(query: string, opts: { as?: string; conversation_id?: string } = {}) {
+    const as = opts.as ?? VIEWER;
+    const res = await call('/chat', { as, body: { query, conversation_id: opts.conversation_id } });
+    expect(res.status).toBe(200);
+    const answer = await res.json<any>();
+    const transcript = await (await call(`/chat/conversations?id=${answer.conversation_id}`, { as })).json<any>();
+    return { answer, turn: transcript.turns.at(-1) };
+}
+
+// Reads a server-sent event stream into [event, data] pairs
+async function readEvents(res: Response): Promise<[string, any][]> {
+    const text = await res.text();
+    return text.split('\n\n').filter(Boolean).map(block => {
+        const [event, data] = block.split('\n');
+        return [event.slice('event: '.length), JSON.parse(data.slice('data: '.length))];
+    });
+}
+
+describe('chat intents', () => {
+    it('query_feedback filters with the planned spec and leaves out closed and failed rows', async () => {
+        const open = await seedFeedback({ content: 'Crash when saving', category: 'Bug', gravity_score: 8 });
+        const lower = await seedFeedback({ content: 'Crash on startup', category: 'Bug', gravity_score: 3 });
+        await seedFeedback({ content: 'Crash fixed last week', category: 'Bug', status: 'resolved' });
+        await seedFeedback({ content: 'Crash?', category: null, sentiment: null, enrichment_status: 'failed' });
+        await seedFeedback({ content: 'Make buttons bigger', category: 'UX' });
+
+        const { answer, turn } = await ask('show me bugs');
+        expect(turn).toMatchObject({ intent: 'query_feedback', params: { category: ['Bug'] }, result_ids: [open, lower] });
+        expect(answer.summary.headline).toBe('2 matching reports');
+    });
+
+    it('query_feedback narrows to rows mentioning the asked-about terms', async () => {
+        const match = await seedFeedback({ content: 'Invoice totals ignore sales tax', category: 'Bug' });
+        await seedFeedback({ content: 'Invoice PDF is blank', category: 'Bug' });
+
+        const { turn } = await ask('anything about sales tax');
+        expect(turn).toMatchObject({ params: { terms: ['sales tax'] }, result_ids: [match] });
+    });
+
+    it('query_feedback applies relative time windows', async () => {
+        const recent = await seedFeedback({ category: 'UX', created_at: new Date().toISOString() });
+        await seedFeedback({ category: 'UX', created_at: '2020-01-01T00:00:00.000Z' });
+
+        const { turn } = await ask('ux complaints today');
+        expect(turn).toMatchObject({ params: { category: ['UX'], since_hours: 24 }, result_ids: [recent] });
+    });
+
+    it('top_issues ranks active clusters by gravity', async () => {
+        const low = await seedIssue({ gravity_score: 2 });
+        const high = await seedIssue({ gravity_score: 9 });
+        await seedIssue({ gravity_score: 20 }, { status: 'resolved' });
+
+        const { answer, turn } = await ask('what are the top issues?');
+        expect(turn.intent).toBe('top_issues');
+        expect(answer.top_issues.map((i: any) => i.pull)).toEqual([9, 2]);
+        expect(turn.result_ids).toEqual([high.feedbackId, low.feedbackId]);
+    });
+
+    it('issue_drilldown accepts a feedback id or an issue id', async () => {
+        const feedbackId = uuid();
+        const issueId = uuid();
+        await seedIssue({ id: feedbackId, content: 'Sync loses edits' }, { id: issueId });
+        await seedIssue({ id: uuid() });
+
+        const byFeedback = await ask(`tell me about ${feedbackId}`);
+        expect(byFeedback.turn).toMatchObject({ intent: 'issue_drilldown', params: { id: feedbackId }, result_ids: [feedbackId] });
+        const byIssue = await ask(`tell me about ${issueId}`);
+        expect(byIssue.turn).toMatchObject({ params: { id: issueId }, result_ids: [feedbackId] });
+
+        const missing = await ask(`tell me about ${uuid()}`);
+        expect(missing.turn.result_ids).toEqual([]);
+        expect(missing.answer.summary.headline).toBe('No matching feedback found');
+    });
+
+    it('assigned_to_me lists the caller\'s open issues only', async () => {
+        const mine = await seedIssue({}, { assignee: TRIAGER });
+        await seedIssue({}, { assignee: ADMIN });
+        await seedIssue({}, { status: 'resolved', assignee: TRIAGER });
+
+        const { turn } = await ask('what is assigned to me?', { as: TRIAGER });
+        expect(turn).toMatchObject({ intent: 'assigned_to_me', result_ids: [mine.feedbackId] });
+    });
+
+    it('summary answers with totals computed in SQL for the whole window', async () => {
+        const now = Date.now();
+        const recent = (hours: number) => new Date(now - hours * 3600 * 1000).toISOString();
+        for (let i = 0; i < 12; i++) await seedFeedback({ category: i < 9 ? 'Bug' : 'UX', created_at: recent(i + 1) });
+        await seedFeedback({ category: 'Feature', created_at: recent(24 * 10) });
+
+        const { answer, turn } = await ask('give me a weekly summary');
+        expect(turn).toMatchObject({ intent: 'summary', params: { since_hours: 168 } });
+        // Only the ten highest-gravity reports go to the model, but the numbers cover all twelve
+        expect(turn.result_ids).toHaveLength(10);
+        expect(answer.summary.headline).toBe('12 reports in this window');
+        expect(answer.summary.stats).toEqual([
+            { label: 'total_items', value: '12' }, { label: 'bug_count', value: '9' }, { label: 'ux_count', value: '3' }, { label: 'feature_count', value: '0' },
+        ]);
+    });
+
+    it('anomalies describes flagged signals with the reports behind them', async () => {
+        const nothing = await ask('anything unusual today?');
+        expect(nothing.turn).toMatchObject({ intent: 'anomalies', params: { since_hours: 24 }, result_ids: [] });
+        expect(nothing.answer.summary.headline).toBe('Nothing unusual detected');
+
+        const recent = new Date(Date.now() - 3600 * 1000).toISOString();
+        const crash = await seedFeedback({ category: 'Bug', created_at: recent, gravity_score: 9 });
+        await seedFeedback({ category: 'UX', created_at: recent });
+        await seedAnomaly({ subject: 'Bug' });
+
+        const { answer, turn } = await ask('anything unusual today?');
+        expect(turn.result_ids).toEqual([crash]);
+        expect(answer.summary).toMatchObject({ headline: '1 unusual signal', details: 'Bug: 14 reports in 24h, usually 2.0 a day', citations: [crash] });
+    });
+
+    it('help runs no query', async () => {
+        await seedFeedback();
+        const { answer, turn } = await ask('help');
+        expect(turn).toMatchObject({ intent: 'help', result_ids: [] });
+        expect(answer.summary.headline).toBe('No matching feedback found');
+    });
+});
+
+describe('/chat', () => {
+    it('accepts { message } and validates the body', async () => {
+        expect((await call('/chat', { as: VIEWER, body: { message: 'help' } })).status).toBe(200);
+        const res = await call('/chat', { as: VIEWER, body: { query: '   ' } });
+        expect(res.status).toBe(400);
+        expect((await res.json<any>()).fields).toEqual([{ field: 'message', message: 'is required' }]);
+    });
+
+    it('streams intent, rows, tokens and the final answer', async () => {
+        await seedFeedback({ category: 'Bug' });
+        const res = await call('/chat/stream', { as: VIEWER, body: { query: 'bugs' } });
+        expect(res.headers.get('Content-Type')).toBe('text/event-stream');
+
+        const events = await readEvents(res);
+        const names = events.map(([name]) => name);
+        expect(names[0]).toBe('intent');
+        expect(names[1]).toBe('rows');
+        expect(names.at(-1)).toBe('final');
+        expect(names.slice(2, -1).every(name => name === 'token')).toBe(true);
+        expect(events[1][1]).toEqual({ intent: 'query_feedback', count: 1, matched: 1 });
+
+        const streamed = events.filter(([name]) => name === 'token').map(([, data]) => data.text).join('');
+        const final = events.at(-1)![1];
+        expect(JSON.parse(streamed).summary).toEqual(final.summary);
+        expect(final.conversation_id).toMatch(/^[0-9a-f-]{36}$/);
+    });
+});
+
+describe('grounding', () => {
+    it('cites only rows that were sent to the model', async () => {
+        const ids = [await seedFeedback({ category: 'Bug' }), await seedFeedback({ category: 'Bug' })];
+        const { answer } = await ask('show me bugs');
+        expect(answer.summary.citations).toEqual(ids);
+        expect(answer.grounding).toMatchObject({ rows: 2, matched: 2, dropped_issues: [], unverified_citations: [] });
+    });
+
+    it('replaces pull, heat and stats with stored values', async () => {
+        const hot = await seedFeedback({ category: 'Bug', gravity_score: 9.123 });
+        await seedFeedback({ category: 'UX', gravity_score: 1 });
+        const { answer } = await ask('show me open feedback');
+        expect(answer.top_issues[0]).toMatchObject({ id: hot, pull: 9.12, heat: 'High', category: 'Bug', source: 'support' });
+        expect(answer.summary.stats).toEqual([
+            { label: 'total_items', value: '2' }, { label: 'bug_count', value: '1' }, { label: 'ux_count', value: '1' }, { label: 'feature_count', value: '0' },
+        ]);
+        // The mock answers with heat 'Low' throughout
+        expect(answer.grounding.corrections).toEqual([{ id: hot, field: 'heat', answer: 'Low', value: 'High' }]);
+    });
+
+    it('fits TOOL_DATA to the token budget', async () => {
+        for (let i = 0; i < 6; i++) await seedFeedback({ content: `Crash ${i} ${'x'.repeat(500)}` });
+        const events: [string, any][] = [];
+        await answerChat({ ...env, CHAT_CONTEXT_TOKENS: '400' }, 'show me bugs', { email: VIEWER, role: 'viewer' }, async (name, data) => { events.push([name, data]); });
+        expect(events.find(([name]) => name === 'rows')![1]).toEqual({ intent: 'query_feedback', count: 2, matched: 6 });
+    });
+
+    it('remembers result ids in the order the answer shows them', async () => {
+        const [first, second, third] = [await seedFeedback({ gravity_score: 9 }), await seedFeedback({ gravity_score: 5 }), await seedFeedback({ gravity_score: 1 })];
+        const card = (id: string, rank: number) => ({
+            rank, id, pull: 1, heat: 'Low', category: 'Bug', source: 'support', title: 'Crash', one_liner: 'Crash', next_step: 'Fix it'
+        });
+        const reordered = {
+            summary: { headline: 'Two bugs', details: '', stats: [], citations: [] },
+            top_issues: [card(third, 1), card(first, 2)], patterns: [], follow_up_question: 'Show me features'
+        };
+        const conversation = await createConversation(env.FEEDBACK_DB, VIEWER, 'show me bugs');
+
+        await answerChat(
+            { ...env, AI_MOCK_FIXTURES: JSON.stringify([{ model: 'answering', text: JSON.stringify(reordered) }]) },
+            'show me bugs', { email: VIEWER, role: 'viewer' }, undefined, { id: conversation.id, history: [] }
+        );
+
+        const [turn] = await listTurns(env.FEEDBACK_DB, conversation.id);
+        expect(turn.result_ids).toEqual([third, first]);
+        expect(turn.result_ids).not.toContain(second);
+    });
+
+    it('records a grounding check per answer', async () => {
+        await seedFeedback({ category: 'Bug', gravity_score: 1 });
+        await ask('show me bugs');
+        const metrics = await listOutputMetrics(env.FEEDBACK_DB, 1);
+        expect(metrics.find((m: any) => m.task === 'chat_grounding')).toMatchObject({ ok: 1, repaired: 0, failed: 0 });
+    });
+});
+
+describe('/chat/conversations', () => {
+    it('continues, lists and deletes the caller\'s conversations', async () => {
+        const first = await ask('show me bugs');
+        await ask('help', { conversation_id: first.answer.conversation_id });
+
+        const list = await (await call('/chat/conversations', { as: VIEWER })).json<any>();
+        expect(list).toMatchObject([{ id: first.answer.conversation_id, title: 'show me bugs', turn_count: 2 }]);
+
+        const del = await call('/chat/conversations/delete', { as: VIEWER, body: { id: first.answer.conversation_id } });
+        expect(await del.json()).toEqual({ ok: true });
+        expect(await (await call('/chat/conversations', { as: VIEWER })).json()).toEqual([]);
+    });
+
+    it('hides conversations from other users', async () => {
+        const { answer } = await ask('help');
+        const id = answer.conversation_id;
+
+        expect((await call(`/chat/conversations?id=${id}`, { as: TRIAGER })).status).toBe(404);
+        expect((await call('/chat', { as: TRIAGER, body: { query: 'help', conversation_id: id } })).status).toBe(404);
+        expect((await call('/chat/conversations/delete', { as: TRIAGER, body: { id } })).status).toBe(404);
+        expect((await call(`/chat/conversations?id=${id}`, { as: VIEWER })).status).toBe(200);
+    });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { CONNECTORS, hmac, toHex } from '../src/connectors';
+import appstoreReview from './fixtures/connectors/appstore-review.json';
+import githubCommentBot from './fixtures/connectors/github-issue-comment-bot.json';
+import githubIssueOpened from './fixtures/connectors/github-issues-opened.json';
+import intercomCreated from './fixtures/connectors/intercom-user-created.json';
+import intercomReplied from './fixtures/connectors/intercom-user-replied.json';
+import zendeskEvent from './fixtures/connectors/zendesk-event.json';
+import zendeskTrigger from './fixtures/connectors/zendesk-trigger.json';
+import { call, feedbackRows, settleWorkflows } from './helpers';
+
+const request = (headers: Record<string, string> = {}) => new Request('https://copilot.test/connectors/x', { method: 'POST', headers });
+
+// Signs a body the way each provider does, with the secrets from vitest.config.mts
+async function signed(provider: string, body: string, headers: Record<string, string> = {}): Promise<Record<string, string>> {
+    const secret = `test-${provider}-secret`;
+    if (provider === 'zendesk') {
+        const timestamp = headers['X-Zendesk-Webhook-Signature-Timestamp'] ?? new Date().toISOString();
+        const signature = btoa(String.fromCharCode(...await hmac('SHA-256', secret, timestamp + body)));
+        return { 'X-Zendesk-Webhook-Signature': signature, 'X-Zendesk-Webhook-Signature-Timestamp': timestamp, ...headers };
+    }
+    if (provider === 'intercom') return { 'X-Hub-Signature': `sha1=${toHex(await hmac('SHA-1', secret, body))}`, ...headers };
+    if (provider === 'github') return { 'X-Hub-Signature-256': `sha256=${toHex(await hmac('SHA-256', secret, body))}`, ...headers };
+    return { 'X-Signature': `sha256=${toHex(await hmac('SHA-256', secret, body))}`, ...headers };
+}
+
+async function deliver(provider: string, payload: unknown, headers: Record<string, string> = {}) {
+    const body = JSON.stringify(payload);
+    const res = await call(`/connectors/${provider}`, { as: null, body, headers: { 'Content-Type': 'application/json', ...await signed(provider, body, headers) } });
+    return { status: res.status, body: await res.json<any>() };
+}
+
+describe('connector mapping', () => {
+    it('maps Zendesk trigger and event webhooks', () => {
+        expect(CONNECTORS.zendesk.map(zendeskTrigger, request())).toEqual({
+            event: {
+                source: 'zendesk',
+                content: 'Cannot reset password\n\nThe reset email never arrives, tried three times today.',
+                created_at: '2026-02-03T09:15:00.000Z',
+                external_id: 'ticket:4211',
+                author: 'dana@customer.example',
+                url: 'https://acme.zendesk.com/agent/tickets/4211',
+            }
+        });
+        // The description already starts with the subject, so it is not repeated
+        expect(CONNECTORS.zendesk.map(zendeskEvent, request())).toMatchObject({
+            event: { content: 'Billing page is blank after the last update.', external_id: 'ticket:4212', author: '3312' }
+        });
+        expect(CONNECTORS.zendesk.map({ ...zendeskEvent, type: 'zen:event-type:ticket.status_changed' }, request()))
+            .toEqual({ ignored: 'event zen:event-type:ticket.status_changed' });
+    });
+
+    it('maps Intercom conversations and the latest user reply', () => {
+        expect(CONNECTORS.intercom.map(intercomCreated, request())).toEqual({
+            event: {
+                source: 'intercom',
+                content: 'The mobile app logs me out every few minutes.\n Using iOS 19 & app 4.2.',
+                created_at: '2026-02-03T09:15:00.000Z',
+                external_id: 'conversation:1911149811',
+                author: 'sam@customer.example',
+                url: 'https://app.intercom.com/a/apps/abc123/conversations/1911149811',
+            }
+        });
+        expect(CONNECTORS.intercom.map(intercomReplied, request())).toMatchObject({
+            event: { content: 'It also drops my cart.', external_id: 'part:503' }
+        });
+        expect(CONNECTORS.intercom.map({ ...intercomCreated, topic: 'conversation.admin.closed' }, request()))
+            .toEqual({ ignored: 'topic conversation.admin.closed' });
+    });
+
+    it('maps GitHub issues and skips bot comments', () => {
+        expect(CONNECTORS.github.map(githubIssueOpened, request({ 'X-GitHub-Event': 'issues' }))).toEqual({
+            event: {
+                source: 'github',
+                content: 'Export to CSV drops unicode characters\n\nSteps: export a report with names like Zoë. The CSV shows Zo?.',
+                created_at: '2026-02-04T12:00:00.000Z',
+                external_id: 'issue:2233445566',
+                author: 'octocat',
+                url: 'https://github.com/acme/app/issues/812',
+            }
+        });
+        expect(CONNECTORS.github.map(githubCommentBot, request({ 'X-GitHub-Event': 'issue_comment' }))).toEqual({ ignored: 'bot author' });
+        expect(CONNECTORS.github.map({ zen: 'Keep it simple' }, request({ 'X-GitHub-Event': 'ping' }))).toEqual({ ignored: 'event ping' });
+    });
+
+    it('maps store reviews with the rating in the text', () => {
+        expect(CONNECTORS.appstore.map(appstoreReview, request())).toMatchObject({
+            event: {
+                source: 'google-play',
+                content: 'Crashes on startup\n\nSince the update the app closes right after the splash screen.\n\nRating: 1/5',
+                external_id: 'review:gp:AOqpTOF1',
+            }
+        });
+        expect(CONNECTORS.appstore.map({ store: 'apple', review: { ...appstoreReview.review, rating: undefined } }, request()))
+            .toMatchObject({ event: { source: 'app-store', content: expect.not.stringContaining('Rating') } });
+    });
+});
+
+describe('POST /connectors/:provider', () => {
+    it('ingests signed deliveries from every provider', async () => {
+        const { result } = await settleWorkflows(async () => [
+            await deliver('zendesk', zendeskTrigger),
+            await deliver('intercom', intercomCreated),
+            await deliver('github', githubIssueOpened, { 'X-GitHub-Event': 'issues' }),
+            await deliver('appstore', appstoreReview),
+        ]);
+        for (const res of result) expect(res).toMatchObject({ status: 202, body: { ok: true, started: true } });
+        expect((await feedbackRows()).map(r => r.source).sort()).toEqual(['github', 'google-play', 'intercom', 'zendesk']);
+    });
+
+    it('updates the stored row when a GitHub issue is edited, and dedupes redeliveries', async () => {
+        const { result: opened } = await settleWorkflows(() => deliver('github', githubIssueOpened, { 'X-GitHub-Event': 'issues' }));
+        const edited = { ...githubIssueOpened, action: 'edited', issue: { ...githubIssueOpened.issue, body: 'Exporting names like Zoë shows Zo? in Excel.' } };
+
+        const { result: [edit, redelivery] } = await settleWorkflows(async () => [
+            await deliver('github', edited, { 'X-GitHub-Event': 'issues' }),
+            await deliver('github', edited, { 'X-GitHub-Event': 'issues' }),
+        ]);
+        expect(edit).toMatchObject({ status: 202, body: { started: true, duplicate: false } });
+        expect(edit.body.instance_id).not.toBe(opened.body.instance_id);
+        expect(redelivery.body.instance_id).toBe(edit.body.instance_id);
+        expect(await feedbackRows()).toMatchObject([
+            { external_id: 'issue:2233445566', content: 'Export to CSV drops unicode characters\n\nExporting names like Zoë shows Zo? in Excel.' },
+        ]);
+    });
+
+    it('acknowledges payloads that carry no feedback without starting a workflow', async () => {
+        const res = await deliver('github', githubCommentBot, { 'X-GitHub-Event': 'issue_comment' });
+        expect(res).toEqual({ status: 202, body: { ok: true, started: false, ignored: 'bot author' } });
+    });
+
+    it('acknowledges a signed GitHub issues event with no issue', async () => {
+        expect(await deliver('github', { action: 'opened' }, { 'X-GitHub-Event': 'issues' }))
+            .toEqual({ status: 202, body: { ok: true, started: false, ignored: 'malformed payload' } });
+    });
+
+    it('acknowledges a signed GitHub issue_comment event with no comment', async () => {
+        expect(await deliver('github', { action: 'created', issue: githubIssueOpened.issue }, { 'X-GitHub-Event': 'issue_comment' }))
+            .toEqual({ status: 202, body: { ok: true, started: false, ignored: 'malformed payload' } });
+    });
+
+    it('rejects bad and stale signatures', async () => {
+        const body = JSON.stringify(githubIssueOpened);
+        const forged = await call('/connectors/github', { as: null, body, headers: { 'X-GitHub-Event': 'issues', 'X-Hub-Signature-256': `sha256=${'0'.repeat(64)}` } });
+        expect(forged.status).toBe(401);
+        await forged.text();
+
+        const stale = await deliver('zendesk', zendeskTrigger, { 'X-Zendesk-Webhook-Signature-Timestamp': new Date(Date.now() - 10 * 60 * 1000).toISOString() });
+        expect(stale).toMatchObject({ status: 401, body: { error: 'invalid_signature' } });
+    });
+
+    it('rejects signed bodies that are not JSON', async () => {
+        const headers = await signed('appstore', 'not json');
+        const res = await call('/connectors/appstore', { as: null, body: 'not json', headers });
+        expect(res.status).toBe(400);
+        await res.text();
+    });
+
+    it('returns 404 for unknown providers', async () => {
+        const res = await call('/connectors/jira', { as: null, body: '{}' });
+        expect(res.status).toBe(404);
+        await res.text();
+    });
+});
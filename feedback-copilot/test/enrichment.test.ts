@@ -0,0 +1,74 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { buildReprocessQuery, ENRICHMENT_PROMPT_VERSION, enrichFeedback, findReprocessRows, MAX_REPROCESS_ROWS } from '../src/enrichment';
+import { createLLM, createMockProvider } from '../src/llm';
+import { seedFeedback } from './helpers';
+
+const setVersion = (id: string, version: string | null) =>
+    env.FEEDBACK_DB.prepare(`UPDATE feedback SET enrichment_prompt_version = ? WHERE id = ?`).bind(version, id).run();
+
+describe('enrichFeedback', () => {
+    it('returns the validated analysis with its provenance', async () => {
+        const outcome = await enrichFeedback(createLLM(createMockProvider()), env.FEEDBACK_DB, 'Checkout is broken');
+
+        expect(outcome).toEqual({
+            model: 'mock/enrichment', promptVersion: ENRICHMENT_PROMPT_VERSION, ok: true,
+            analysis: { sentiment: -0.7, category: 'Bug', explanation: 'Mock analysis classified this as Bug.' },
+        });
+        // The model id comes from configuration, not the provider's default
+        const provider = createMockProvider();
+        const configured = createLLM(provider, { enrichment: 'mock/enrichment-v2' });
+        expect((await enrichFeedback(configured, env.FEEDBACK_DB, 'x')).model).toBe('mock/enrichment-v2');
+        expect(provider.calls[0].model).toBe('mock/enrichment-v2');
+    });
+
+    it('fails after two repairs of an out-of-range reply', async () => {
+        const provider = createMockProvider([{ text: '{"sentiment": 7, "category": "Bug", "explanation": "x"}' }]);
+        const outcome = await enrichFeedback(createLLM(provider), env.FEEDBACK_DB, 'Checkout is broken');
+
+        expect(outcome).toMatchObject({ ok: false, error: 'sentiment must be between -1 and 1' });
+        expect(provider.calls).toHaveLength(3);
+    });
+});
+
+describe('buildReprocessQuery', () => {
+    it('combines filters with AND and binds their values', () => {
+        expect(buildReprocessQuery({ since: '2026-01-01', until: '2026-02-01', category: 'Bug', failed_only: true, prompt_version: 'enrich-0', limit: 10 })).toEqual({
+            sql: `SELECT id, source, content, created_at FROM feedback WHERE created_at >= ? AND created_at < ? AND category = ? AND enrichment_status = 'failed' AND enrichment_prompt_version = ? ORDER BY created_at DESC LIMIT ?`,
+            binds: ['2026-01-01', '2026-02-01', 'Bug', 'enrich-0', 10],
+        });
+    });
+
+    it('selects unversioned rows for a null prompt version and stale rows for outdated', () => {
+        expect(buildReprocessQuery({ prompt_version: null }).sql).toContain('WHERE enrichment_prompt_version IS NULL ORDER BY');
+        expect(buildReprocessQuery({ outdated: true })).toMatchObject({
+            sql: expect.stringContaining('WHERE (enrichment_prompt_version IS NULL OR enrichment_prompt_version != ?)'),
+            binds: [ENRICHMENT_PROMPT_VERSION, 100],
+        });
+    });
+
+    it('defaults to 100 rows and clamps the limit', () => {
+        expect(buildReprocessQuery({})).toEqual({ sql: `SELECT id, source, content, created_at FROM feedback  ORDER BY created_at DESC LIMIT ?`, binds: [100] });
+        expect(buildReprocessQuery({ limit: 0 }).binds).toEqual([1]);
+        expect(buildReprocessQuery({ limit: 1e6 }).binds).toEqual([MAX_REPROCESS_ROWS]);
+    });
+});
+
+describe('findReprocessRows', () => {
+    it('finds rows by status, prompt version and date, newest first', async () => {
+        const failed = await seedFeedback({ enrichment_status: 'failed', created_at: '2026-01-03T00:00:00.000Z' });
+        const old = await seedFeedback({ created_at: '2026-01-02T00:00:00.000Z' });
+        const current = await seedFeedback({ created_at: '2026-01-01T00:00:00.000Z' });
+        await setVersion(old, 'enrich-0');
+        await setVersion(current, ENRICHMENT_PROMPT_VERSION);
+
+        const ids = async (filter: Parameters<typeof findReprocessRows>[1]) => (await findReprocessRows(env.FEEDBACK_DB, filter)).map(r => r.id);
+        expect(await ids({ failed_only: true })).toEqual([failed]);
+        expect(await ids({ outdated: true })).toEqual([failed, old]);
+        expect(await ids({ prompt_version: null })).toEqual([failed]);
+        expect(await ids({ prompt_version: 'enrich-0' })).toEqual([old]);
+        expect(await ids({ since: '2026-01-02T00:00:00.000Z' })).toEqual([failed, old]);
+        expect(await ids({ until: '2026-01-02T00:00:00.000Z' })).toEqual([current]);
+        expect(await ids({ limit: 2 })).toEqual([failed, old]);
+    });
+});
@@ -0,0 +1,10 @@
+declare module 'cloudflare:test' {
+    interface ProvidedEnv extends Env {
+        TEST_SCHEMA: D1Migration[];
+        // Set by vitest.eval.config.mts for the eval runner
+        EVAL_BASELINE_NAME: string;
+        EVAL_BASELINE: string;
+        EVAL_TOLERANCE: string;
+        EVAL_UPDATE_BASELINE: string;
+    }
+}
@@ -0,0 +1,97 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { classificationReport, EvalReport, findRegressions, flattenMetrics, paramsMatch, runEvaluation, sentimentSign } from '../src/eval';
+import { createLLM, createMockProvider } from '../src/llm';
+
+describe('sentimentSign', () => {
+    it('treats scores inside the neutral band as neutral', () => {
+        expect([-0.7, -0.2, -0.19, 0, 0.19, 0.2, 0.5].map(sentimentSign))
+            .toEqual(['negative', 'negative', 'neutral', 'neutral', 'neutral', 'positive', 'positive']);
+    });
+});
+
+describe('classificationReport', () => {
+    it('computes per-class precision, recall and a confusion matrix', () => {
+        const report = classificationReport(['Bug', 'UX', 'Other'], [
+            { expected: 'Bug', predicted: 'Bug' },
+            { expected: 'Bug', predicted: 'UX' },
+            { expected: 'UX', predicted: 'UX' },
+            { expected: 'UX', predicted: 'failed' },
+        ]);
+
+        expect(report.accuracy).toBe(0.5);
+        expect(report.classes).toEqual({
+            Bug: { precision: 1, recall: 0.5, support: 2 },
+            UX: { precision: 0.5, recall: 0.5, support: 2 },
+            Other: { precision: 0, recall: 0, support: 0 },
+        });
+        expect(report.confusion).toEqual({ Bug: { Bug: 1, UX: 1 }, UX: { UX: 1, failed: 1 }, Other: {} });
+    });
+});
+
+describe('paramsMatch', () => {
+    it('compares only expected keys, lists as sets and strings without case', () => {
+        const actual = { category: ['UX', 'Bug'], terms: ['Login'], since_hours: 24, sort: 'newest' };
+        expect(paramsMatch({ category: ['bug', 'ux'], terms: ['login'] }, actual)).toBe(true);
+        expect(paramsMatch({ since_hours: 168 }, actual)).toBe(false);
+        expect(paramsMatch({ category: ['Bug'] }, actual)).toBe(false);
+        expect(paramsMatch({ status: ['open'] }, actual)).toBe(false);
+    });
+});
+
+describe('baselines', () => {
+    const report = (accuracy: number): EvalReport => {
+        const r = classificationReport(['Bug', 'UX'], [{ expected: 'Bug', predicted: 'Bug' }]);
+        return {
+            provider: 'mock', models: { enrichment: 'e', routing: 'r' }, prompt_version: 'v',
+            enrichment: { category: { ...r, accuracy }, sentiment: r, failed: 0 },
+            routing: { intent: r, params_accuracy: 0.5 },
+            misses: [],
+        };
+    };
+
+    it('flattens metrics, skipping classes without examples', () => {
+        expect(flattenMetrics(report(1))).toEqual({
+            'enrichment.category.accuracy': 1, 'enrichment.category.Bug.precision': 1, 'enrichment.category.Bug.recall': 1,
+            'enrichment.sentiment.accuracy': 1, 'enrichment.sentiment.Bug.precision': 1, 'enrichment.sentiment.Bug.recall': 1,
+            'routing.intent.accuracy': 1, 'routing.intent.Bug.precision': 1, 'routing.intent.Bug.recall': 1,
+            'routing.params_accuracy': 0.5,
+        });
+    });
+
+    it('flags metrics below the baseline beyond the tolerance', () => {
+        const baseline = { 'enrichment.category.accuracy': 0.9, 'routing.params_accuracy': 0.5, 'routing.intent.UX.recall': 0.5 };
+        expect(findRegressions(report(0.85), baseline)).toEqual([
+            { metric: 'enrichment.category.accuracy', baseline: 0.9, actual: 0.85 },
+            { metric: 'routing.intent.UX.recall', baseline: 0.5, actual: 0 },
+        ]);
+        expect(findRegressions(report(0.85), baseline, 0.05).map(r => r.metric)).toEqual(['routing.intent.UX.recall']);
+        expect(findRegressions(report(0.95), { 'enrichment.category.accuracy': 0.9 })).toEqual([]);
+    });
+});
+
+describe('runEvaluation', () => {
+    it('scores enrichment and routing, counting failures and listing misses', async () => {
+        const llm = createLLM(createMockProvider([{ model: 'enrichment', match: 'gibberish', text: 'no json' }]));
+        const report = await runEvaluation(llm, env.FEEDBACK_DB, {
+            enrichment: [
+                { text: 'Checkout is broken', category: 'Bug', sentiment: 'negative' },
+                { text: 'Please add SSO', category: 'Feature', sentiment: 'neutral' },
+                { text: 'gibberish', category: 'Other', sentiment: 'neutral' },
+            ],
+            routing: [
+                { query: 'bugs this week', intent: 'query_feedback', params: { category: ['Bug'], since_hours: 168 } },
+                { query: 'top priorities', intent: 'top_issues' },
+                { query: 'my issues', intent: 'help' },
+            ],
+        });
+
+        expect(report).toMatchObject({ provider: 'mock', models: { enrichment: 'mock/enrichment', routing: 'mock/routing' } });
+        expect(report.enrichment.failed).toBe(1);
+        expect(report.enrichment.category.accuracy).toBe(0.667);
+        expect(report.enrichment.category.confusion.Other).toEqual({ failed: 1 });
+        expect(report.routing.intent.confusion.help).toEqual({ assigned_to_me: 1 });
+        expect(report.routing.params_accuracy).toBe(1);
+        expect(report.misses.map(m => `${m.task}:${m.input}`)).toEqual(['enrichment:gibberish', 'routing:my issues']);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { answerStats, checkCitations, reconcileAnswer } from '../src/grounding';
+import { DEFAULT_POLICY } from '../src/scoring';
+
+const ROWS = [
+    { id: 'fb-1', issue_id: 'issue-1', source: 'support', category: 'Bug', gravity_score: 7.5 },
+    { id: 'fb-2', source: 'github', category: 'UX', gravity_score: 4 },
+];
+
+const issue = (id: string, extra: Record<string, unknown> = {}) => ({
+    rank: 1, id, pull: 0, heat: 'Low', category: 'Other', source: '', title: 't', one_liner: 'o', next_step: 'n', ...extra,
+});
+
+describe('checkCitations', () => {
+    it('strips and reports ids that were not retrieved', () => {
+        const answer = { summary: { citations: ['fb-1', 'fb-404', 'fb-1'] }, patterns: [{ citations: ['fb-2', 'fb-405'] }] };
+        expect(checkCitations(answer, ['fb-1', 'fb-2'])).toEqual(['fb-404', 'fb-405']);
+        expect(answer.summary.citations).toEqual(['fb-1']);
+        expect(answer.patterns[0].citations).toEqual(['fb-2']);
+    });
+});
+
+describe('answerStats', () => {
+    it('counts every matched row by category', () => {
+        expect(answerStats([...ROWS, { id: 'fb-3', category: 'Bug' }])).toEqual([
+            { label: 'total_items', value: '3' }, { label: 'bug_count', value: '2' }, { label: 'ux_count', value: '1' }, { label: 'feature_count', value: '0' },
+        ]);
+    });
+});
+
+describe('reconcileAnswer', () => {
+    it('drops invented and repeated issues and renumbers the rest', () => {
+        const answer = { summary: { headline: 'h' }, top_issues: [issue('fb-404'), issue('fb-2', { rank: 2 }), issue('fb-2', { rank: 3 })] };
+        const report = reconcileAnswer(answer, ROWS, ROWS, DEFAULT_POLICY);
+        expect(report.dropped_issues).toEqual(['fb-404', 'fb-2']);
+        expect(answer.top_issues.map((i: any) => [i.rank, i.id])).toEqual([[1, 'fb-2']]);
+    });
+
+    it('replaces pull, heat, category and source with the stored row', () => {
+        const answer = { top_issues: [issue('fb-1', { pull: 99, heat: 'Low', category: 'Feature', source: 'twitter', title: 'Login crash' })] };
+        const report = reconcileAnswer(answer, ROWS, ROWS, DEFAULT_POLICY);
+        expect(answer.top_issues[0]).toMatchObject({ id: 'fb-1', pull: 7.5, heat: 'High', category: 'Bug', source: 'support', title: 'Login crash' });
+        expect(report.corrections).toEqual([
+            { id: 'fb-1', field: 'pull', answer: 99, value: 7.5 },
+            { id: 'fb-1', field: 'category', answer: 'Feature', value: 'Bug' },
+            { id: 'fb-1', field: 'source', answer: 'twitter', value: 'support' },
+            { id: 'fb-1', field: 'heat', answer: 'Low', value: 'High' },
+        ]);
+    });
+
+    it('accepts an issue id for the row that leads it', () => {
+        const answer = { top_issues: [issue('issue-1', { pull: 7.5, heat: 'High', category: 'Bug', source: 'support' })] };
+        const report = reconcileAnswer(answer, ROWS, ROWS, DEFAULT_POLICY);
+        expect(answer.top_issues[0].id).toBe('fb-1');
+        expect(report).toMatchObject({ dropped_issues: [], corrections: [{ id: 'fb-1', field: 'id', answer: 'issue-1', value: 'fb-1' }] });
+    });
+
+    it('recomputes stats over every matched row and drops figures it cannot check', () => {
+        const answer = { summary: { headline: 'h', stats: [{ label: 'total_items', value: '1' }, { label: 'bug_count', value: '1' }, { label: 'avg_sentiment', value: '-0.9' }] } };
+        const report = reconcileAnswer(answer, ROWS.slice(0, 1), ROWS, DEFAULT_POLICY);
+        expect(answer.summary.stats.map((s: any) => s.value)).toEqual(['2', '1', '1', '0']);
+        expect(report).toMatchObject({ rows: 1, matched: 2 });
+        expect(report.corrections.map(c => [c.field, c.answer, c.value])).toEqual([
+            ['stats.total_items', '1', '2'], ['stats.ux_count', null, '1'], ['stats.feature_count', null, '0'], ['stats.avg_sentiment', '-0.9', null],
+        ]);
+    });
+
+    it('checks citations against TOOL_DATA only', () => {
+        const answer = { summary: { headline: 'h', citations: ['fb-1', 'fb-2'] } };
+        expect(reconcileAnswer(answer, ROWS.slice(0, 1), ROWS, DEFAULT_POLICY).unverified_citations).toEqual(['fb-2']);
+        expect(answer.summary.citations).toEqual(['fb-1']);
+    });
+});
@@ -0,0 +1,114 @@
+import { env, introspectWorkflow, introspectWorkflowInstance, SELF } from 'cloudflare:test';
+import { Anomaly } from '../src/anomalies';
+import { FeedbackEvent } from '../src/types';
+
+// Roles come from ROLE_ASSIGNMENTS in vitest.config.mts; anyone else is a viewer
+export const ADMIN = 'admin@example.com';
+export const TRIAGER = 'triager@example.com';
+export const VIEWER = 'viewer@example.com';
+
+/**
+ * Calls the worker as an Access-authenticated user (`as: null` sends no
+ * identity). Object bodies are sent as JSON.
+ */
+export function call(path: string, opts: { as?: string | null; method?: string; body?: unknown; headers?: Record<string, string> } = {}) {
+    const headers: Record<string, string> = { ...opts.headers };
+    const as = opts.as === undefined ? ADMIN : opts.as;
+    if (as) headers['Cf-Access-Authenticated-User-Email'] = as;
+
+    let body: BodyInit | undefined;
+    if (typeof opts.body === 'string') {
+        body = opts.body;
+    } else if (opts.body !== undefined) {
+        body = JSON.stringify(opts.body);
+        headers['Content-Type'] ??= 'application/json';
+    }
+    return SELF.fetch(`https://copilot.test${path}`, { method: opts.method ?? (body === undefined ? 'GET' : 'POST'), headers, body });
+}
+
+export type FeedbackRow = {
+    id: string;
+    source: string;
+    content: string;
+    sentiment: number | null;
+    category: string | null;
+    explanation: string | null;
+    gravity_score: number | null;
+    created_at: string;
+    status: string;
+    issue_id: string | null;
+    enrichment_status: string;
+};
+
+let seq = 0;
+
+// Explicit nulls are kept, so failed rows can be seeded without an analysis
+const or = <T>(value: T | undefined, fallback: T): T => value === undefined ? fallback : value;
+
+// Inserts an enriched feedback row directly, bypassing the workflow
+export async function seedFeedback(row: Partial<FeedbackRow> = {}): Promise<string> {
+    const id = row.id ?? `fb-${++seq}`;
+    await env.FEEDBACK_DB.prepare(
+        `INSERT INTO feedback (id, source, content, sentiment, category, explanation, gravity_score, created_at, status, issue_id, enrichment_status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+        id, row.source ?? 'support', row.content ?? `Feedback ${id}`, or(row.sentiment, -0.5), or(row.category, 'Bug'),
+        or(row.explanation, 'Seeded row'), or(row.gravity_score, 5), row.created_at ?? '2026-01-01T00:00:00.000Z',
+        row.status ?? 'open', row.issue_id ?? null, row.enrichment_status ?? 'ok'
+    ).run();
+    return id;
+}
+
+// A one-report issue cluster led by a seeded feedback row
+export async function seedIssue(row: Partial<FeedbackRow> = {}, issue: { id?: string; status?: string; assignee?: string | null } = {}) {
+    const issueId = issue.id ?? `issue-${++seq}`;
+    const feedbackId = row.id ?? `fb-${++seq}`;
+    const status = issue.status ?? row.status ?? 'open';
+    const createdAt = row.created_at ?? '2026-01-01T00:00:00.000Z';
+    // feedback.issue_id references issues, so the issue goes in first
+    await env.FEEDBACK_DB.prepare(
+        `INSERT INTO issues (id, lead_feedback_id, category, status, assignee, report_count, gravity_score, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)`
+    ).bind(issueId, feedbackId, row.category ?? 'Bug', status, issue.assignee ?? null, row.gravity_score ?? 5, createdAt, createdAt).run();
+    await seedFeedback({ ...row, id: feedbackId, issue_id: issueId, status });
+    return { feedbackId, issueId };
+}
+
+// A stored anomaly, seen now unless `last_seen_at` says otherwise
+export async function seedAnomaly(row: Partial<Anomaly> = {}): Promise<string> {
+    const id = row.id ?? `anomaly-${++seq}`;
+    const seen = row.last_seen_at ?? new Date().toISOString();
+    await env.FEEDBACK_DB.prepare(
+        `INSERT INTO anomalies (id, kind, dimension, subject, label, day, observed, expected, deviation, score, reports, first_seen_at, last_seen_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+        id, row.kind ?? 'volume_spike', row.dimension ?? 'category', row.subject ?? 'Bug', or(row.label, row.subject ?? 'Bug'), seen.slice(0, 10),
+        row.observed ?? 14, row.expected ?? 2, row.deviation ?? 1, row.score ?? 12, row.reports ?? 14, seen, seen
+    ).run();
+    return id;
+}
+
+export async function feedbackRows(): Promise<FeedbackRow[]> {
+    const { results } = await env.FEEDBACK_DB.prepare(`SELECT * FROM feedback ORDER BY created_at, id`).all<FeedbackRow>();
+    return results;
+}
+
+// Runs one FeedbackWorkflow instance to completion
+export async function runWorkflow(params: FeedbackEvent) {
+    const id = crypto.randomUUID();
+    await using instance = await introspectWorkflowInstance(env.INGEST_WORKFLOW, id);
+    await env.INGEST_WORKFLOW.create({ id, params });
+    await instance.waitForStatus('complete');
+}
+
+/**
+ * Runs `fn` and waits for every workflow instance it started, so routes that
+ * kick off ingestion leave no work running into the next test.
+ */
+export async function settleWorkflows<T>(fn: () => Promise<T>): Promise<{ result: T; instances: number }> {
+    await using introspector = await introspectWorkflow(env.INGEST_WORKFLOW);
+    const result = await fn();
+    const instances = introspector.get();
+    for (const instance of instances) await instance.waitForStatus('complete');
+    return { result, instances: instances.length };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, html, jsonForScript, raw } from '../src/html';
+import { call, seedAnomaly, seedIssue, VIEWER } from './helpers';
+
+// The nonce is random per response; everything else on the page is deterministic
+async function page(path: string): Promise<string> {
+    const res = await call(path, { as: VIEWER });
+    expect(res.status).toBe(200);
+    const nonce = res.headers.get('Content-Security-Policy')!.match(/'nonce-([^']+)'/)![1];
+    return (await res.text()).replaceAll(`nonce="${nonce}"`, 'nonce="NONCE"');
+}
+
+async function seedBoard() {
+    await seedIssue({ id: 'fb-crash', content: 'App crashes when uploading photos', category: 'Bug', source: 'support', gravity_score: 12.5, explanation: 'Upload crash' });
+    await seedIssue({ id: 'fb-contrast', content: 'Low contrast on the settings page', category: 'UX', source: 'github', gravity_score: 4, explanation: null }, { status: 'in_progress', assignee: 'dev@example.com' });
+    await seedIssue({ id: 'fb-export', content: 'Please add CSV export', category: 'Feature', source: 'sales', gravity_score: 0.5 }, { status: 'resolved' });
+}
+
+describe('html', () => {
+    it('escapes interpolated values unless they are SafeHtml', () => {
+        expect(html`<p title="${'"x"'}">${'<b>'}${raw('<i>ok</i>')}</p>`.value).toBe('<p title="&quot;x&quot;">&lt;b&gt;<i>ok</i></p>');
+        expect(html`${['<a>', html`<br>`]}${null}${undefined}${false}${0}`.value).toBe('&lt;a&gt;<br>0');
+        expect(escapeHtml(`'&`)).toBe('&#39;&amp;');
+    });
+
+    it('keeps script JSON from closing the script element', () => {
+        expect(jsonForScript({ a: '</script><b>&\u2028' }).value).toBe('{"a":"\\u003c/script\\u003e\\u003cb\\u003e\\u0026\\u2028"}');
+    });
+});
+
+describe('page renderers', () => {
+    it('renders the chat UI with the ranked issue list', async () => {
+        await seedBoard();
+        await expect(await page('/app')).toMatchFileSnapshot('__snapshots__/app.html');
+    });
+
+    it('renders the chat UI with no issues', async () => {
+        await expect(await page('/app')).toMatchFileSnapshot('__snapshots__/app-empty.html');
+    });
+
+    it('renders the dashboard for the default and explicit state filters', async () => {
+        await seedBoard();
+        await expect(await page('/dashboard')).toMatchFileSnapshot('__snapshots__/dashboard.html');
+        await expect(await page('/dashboard?state=all')).toMatchFileSnapshot('__snapshots__/dashboard-all.html');
+    });
+
+    it('shows recent anomalies as escaped banners on both pages', async () => {
+        await seedAnomaly({ dimension: 'issue', subject: 'issue-1', label: '<img src=x onerror=alert(1)>' });
+        await seedAnomaly({ subject: 'UX', last_seen_at: '2020-01-01T00:00:00.000Z' });
+
+        for (const path of ['/app', '/dashboard']) {
+            const body = await page(path);
+            expect(body).toContain('Issue &quot;&lt;img src=x onerror=alert(1)&gt;&quot;: 14 reports in 24h, usually 2.0 a day');
+            expect(body).not.toContain('<img src=x');
+            expect(body).not.toContain('UX: 14 reports');
+        }
+        expect(await page('/app')).toContain('data-quick="Anything unusual today?"');
+    });
+});
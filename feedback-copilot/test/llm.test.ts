@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createLLM, createMockProvider, createOpenAICompatibleProvider, createWorkersAIProvider, DEFAULT_MODELS, hashEmbedding, LLMProvider, llmFromEnv
+} from '../src/llm';
+
+const sse = (events: unknown[]) => new ReadableStream<Uint8Array>({
+    start(controller) {
+        const text = events.map(e => `data: ${typeof e === 'string' ? e : JSON.stringify(e)}\n\n`).join('');
+        // Split mid-line so the reader has to buffer partial lines
+        const bytes = new TextEncoder().encode(text);
+        const mid = Math.floor(bytes.length / 2);
+        controller.enqueue(bytes.slice(0, mid));
+        controller.enqueue(bytes.slice(mid));
+        controller.close();
+    }
+});
+
+const collect = () => {
+    const tokens: string[] = [];
+    return { tokens, onToken: (t: string) => { tokens.push(t); } };
+};
+
+describe('mock provider', () => {
+    it('classifies feedback by keyword', async () => {
+        const llm = createLLM(createMockProvider());
+        const reply = async (content: string) => JSON.parse((await llm.chat('enrichment', { messages: [{ role: 'user', content }] })).text);
+        expect(await reply('The export is broken')).toMatchObject({ category: 'Bug', sentiment: -0.7 });
+        expect(await reply('Settings are confusing')).toMatchObject({ category: 'UX', sentiment: -0.4 });
+        expect(await reply('Please add SSO')).toMatchObject({ category: 'Feature', sentiment: 0.1 });
+        expect(await reply('Love it')).toMatchObject({ category: 'Other', sentiment: 0.5 });
+    });
+
+    it('routes questions to planner tools', async () => {
+        const llm = createLLM(createMockProvider());
+        const plan = async (content: string) => (await llm.chat('routing', { messages: [{ role: 'user', content }] })).toolCalls[0];
+        expect(await plan('bugs this week about login')).toEqual({ name: 'query_feedback', arguments: { category: ['Bug'], since_hours: 168, terms: ['login'] } });
+        expect(await plan('top priorities')).toEqual({ name: 'top_issues', arguments: {} });
+        expect(await plan('my issues')).toEqual({ name: 'assigned_to_me', arguments: {} });
+        expect(await plan('what can you do')).toEqual({ name: 'help', arguments: {} });
+        const id = '0b9f3c1e-8a52-4d7e-9c11-2f5d0a6b7e8f';
+        expect(await plan(`CONVERSATION_HISTORY:\nbugs\n\nUSER_MESSAGE: open ${id}`)).toEqual({ name: 'issue_drilldown', arguments: { id } });
+    });
+
+    it('prefers matching fixtures, records calls and streams word chunks', async () => {
+        const provider = createMockProvider([
+            { model: 'routing', match: 'SHIP', tool_calls: [{ name: 'help', arguments: {} }] },
+            { model: 'mock/answering', text: 'one two  three' },
+        ]);
+        const llm = createLLM(provider);
+        expect((await llm.chat('routing', { messages: [{ role: 'user', content: 'when do we ship?' }] })).toolCalls).toEqual([{ name: 'help', arguments: {} }]);
+        expect((await llm.chat('routing', { messages: [{ role: 'user', content: 'top issues' }] })).toolCalls[0].name).toBe('top_issues');
+
+        const { tokens, onToken } = collect();
+        expect(await llm.stream('answering', { messages: [] }, onToken)).toBe('one two  three');
+        expect(tokens).toEqual(['one ', 'two  ', 'three']);
+        expect(provider.calls.map(c => c.model)).toEqual(['mock/routing', 'mock/routing', 'mock/answering']);
+    });
+
+    it('embeds with deterministic bag-of-words hashes', async () => {
+        const [a, b] = await createLLM(createMockProvider()).embed(['Login fails', 'login FAILS!']);
+        expect(a).toEqual(b);
+        expect(a).toEqual(hashEmbedding('login fails'));
+        expect(a.reduce((sum, v) => sum + v, 0)).toBe(2);
+    });
+});
+
+describe('Workers AI provider', () => {
+    const fakeAi = (run: (model: string, inputs: any) => unknown) => {
+        const calls: { model: string; inputs: any }[] = [];
+        const ai = { run: async (model: string, inputs: any) => { calls.push({ model, inputs }); return run(model, inputs); } } as unknown as Ai;
+        return { ai, calls };
+    };
+
+    it('maps JSON mode and tool calls onto the binding', async () => {
+        const { ai, calls } = fakeAi(() => ({ response: { ok: true }, tool_calls: [{ name: 'top_issues', arguments: '{"category":"Bug"}' }] }));
+        const provider = createWorkersAIProvider(ai);
+        const resp = await provider.chat('@cf/model', { messages: [], maxTokens: 10, jsonSchema: { type: 'object' } });
+
+        expect(resp).toEqual({ text: '{"ok":true}', toolCalls: [{ name: 'top_issues', arguments: { category: 'Bug' } }] });
+        expect(calls[0]).toEqual({ model: '@cf/model', inputs: { messages: [], max_tokens: 10, response_format: { type: 'json_schema', json_schema: { type: 'object' } } } });
+    });
+
+    it('streams without JSON mode and skips bad chunks', async () => {
+        const { ai, calls } = fakeAi(() => sse([{ response: 'Hel' }, 'not json', { response: 'lo' }, { response: '' }, '[DONE]', { response: 'ignored' }]));
+        const { tokens, onToken } = collect();
+        expect(await createWorkersAIProvider(ai).stream('@cf/model', { messages: [], jsonSchema: {} }, onToken)).toBe('Hello');
+        expect(tokens).toEqual(['Hel', 'lo']);
+        expect(calls[0].inputs).toEqual({ messages: [], stream: true });
+    });
+
+    it('embeds through the binding', async () => {
+        const { ai, calls } = fakeAi(() => ({ data: [[0.1, 0.2]] }));
+        expect(await createWorkersAIProvider(ai).embed('@cf/baai/bge-base-en-v1.5', ['hi'])).toEqual([[0.1, 0.2]]);
+        expect(calls[0].inputs).toEqual({ text: ['hi'] });
+    });
+});
+
+describe('OpenAI-compatible provider', () => {
+    const stubFetch = (respond: (url: string, body: any) => Response) => {
+        const requests: { url: string; headers: Headers; body: any }[] = [];
+        const fetcher = (async (url: string, init: RequestInit) => {
+            const body = JSON.parse(init.body as string);
+            requests.push({ url, headers: new Headers(init.headers), body });
+            return respond(url, body);
+        }) as unknown as typeof fetch;
+        return { fetcher, requests };
+    };
+
+    it('sends chat completions with tools, JSON mode and the API key', async () => {
+        const { fetcher, requests } = stubFetch(() => Response.json({
+            choices: [{ message: { content: null, tool_calls: [{ type: 'function', function: { name: 'help', arguments: '{bad json' } }] } }]
+        }));
+        const provider = createOpenAICompatibleProvider({ baseUrl: 'https://llm.example.com/v1/', apiKey: 'sk-test', fetcher });
+        const tool = { name: 'help', description: 'Help', parameters: {} };
+        const resp = await provider.chat('gpt-test', { messages: [{ role: 'user', content: 'hi' }], tools: [tool], jsonSchema: { type: 'object' } });
+
+        expect(resp).toEqual({ text: '', toolCalls: [{ name: 'help', arguments: {} }] });
+        expect(requests[0].url).toBe('https://llm.example.com/v1/chat/completions');
+        expect(requests[0].headers.get('Authorization')).toBe('Bearer sk-test');
+        expect(requests[0].body).toEqual({
+            model: 'gpt-test', messages: [{ role: 'user', content: 'hi' }], tools: [{ type: 'function', function: tool }],
+            response_format: { type: 'json_schema', json_schema: { name: 'output', schema: { type: 'object' } } },
+        });
+    });
+
+    it('streams deltas until [DONE]', async () => {
+        const { fetcher } = stubFetch(() => new Response(sse([
+            { choices: [{ delta: { role: 'assistant' } }] }, { choices: [{ delta: { content: 'Hi' } }] }, { choices: [{ delta: { content: ' there' } }] }, '[DONE]'
+        ])));
+        const { tokens, onToken } = collect();
+        const text = await createOpenAICompatibleProvider({ baseUrl: 'https://llm.example.com', fetcher }).stream('m', { messages: [] }, onToken);
+        expect(text).toBe('Hi there');
+        expect(tokens).toEqual(['Hi', ' there']);
+    });
+
+    it('orders embeddings by index and surfaces HTTP errors', async () => {
+        const { fetcher, requests } = stubFetch(url => url.endsWith('/embeddings')
+            ? Response.json({ data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }] })
+            : new Response('rate limited', { status: 429 }));
+        const provider = createOpenAICompatibleProvider({ baseUrl: 'https://llm.example.com', fetcher });
+
+        expect(await provider.embed('emb', ['a', 'b'])).toEqual([[1], [2]]);
+        expect(requests[0].headers.has('Authorization')).toBe(false);
+        await expect(provider.chat('m', { messages: [] })).rejects.toThrow('/chat/completions returned 429: rate limited');
+    });
+});
+
+describe('createLLM', () => {
+    const failing = (failures: number, opts: { tokenFirst?: boolean } = {}) => {
+        let attempts = 0;
+        const provider: LLMProvider = {
+            name: 'mock',
+            async chat() {
+                if (++attempts <= failures) throw new Error(`attempt ${attempts}`);
+                return { text: 'ok', toolCalls: [] };
+            },
+            async stream(_model, _request, onToken) {
+                attempts++;
+                if (opts.tokenFirst) await onToken('partial');
+                throw new Error('stream dropped');
+            },
+            async embed() { return []; },
+        };
+        return { provider, attempts: () => attempts };
+    };
+
+    it('resolves per-task models over the provider defaults', () => {
+        const llm = createLLM(createMockProvider(), { answering: 'mock/big' });
+        expect(llm.model('answering')).toBe('mock/big');
+        expect(llm.model('routing')).toBe(DEFAULT_MODELS.mock.routing);
+    });
+
+    it('retries failed calls', async () => {
+        const { provider, attempts } = failing(1);
+        expect((await createLLM(provider).chat('routing', { messages: [] })).text).toBe('ok');
+        expect(attempts()).toBe(2);
+    });
+
+    it('does not retry a stream that already sent tokens', async () => {
+        const { provider, attempts } = failing(0, { tokenFirst: true });
+        const { tokens, onToken } = collect();
+        await expect(createLLM(provider).stream('answering', { messages: [] }, onToken)).rejects.toThrow('stream dropped');
+        expect(attempts()).toBe(1);
+        expect(tokens).toEqual(['partial']);
+    });
+});
+
+describe('llmFromEnv', () => {
+    const ai = {} as Ai;
+
+    it('defaults to Workers AI and applies AI_MODELS overrides', () => {
+        const llm = llmFromEnv({ AI: ai, AI_MODELS: '{"routing": "@cf/small"}' });
+        expect(llm.provider.name).toBe('workers-ai');
+        expect(llm.model('routing')).toBe('@cf/small');
+        expect(llm.model('answering')).toBe(DEFAULT_MODELS['workers-ai'].answering);
+    });
+
+    it('falls back on unknown providers and invalid JSON', () => {
+        const llm = llmFromEnv({ AI: ai, AI_PROVIDER: 'bedrock', AI_MODELS: '{not json' });
+        expect(llm.provider.name).toBe('workers-ai');
+        expect(llm.model('enrichment')).toBe(DEFAULT_MODELS['workers-ai'].enrichment);
+    });
+
+    it('requires a base URL for the OpenAI-compatible provider', () => {
+        expect(() => llmFromEnv({ AI: ai, AI_PROVIDER: 'openai' })).toThrow('OPENAI_BASE_URL is not set');
+        expect(llmFromEnv({ AI: ai, AI_PROVIDER: 'openai', OPENAI_BASE_URL: 'https://llm.example.com' }).model('embedding')).toBe('text-embedding-3-small');
+    });
+
+    it('loads mock fixtures', async () => {
+        const llm = llmFromEnv({ AI: ai, AI_PROVIDER: 'mock', AI_MOCK_FIXTURES: '[{"text": "canned"}]' });
+        expect((await llm.chat('answering', { messages: [] })).text).toBe('canned');
+    });
+});
@@ -0,0 +1,166 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { buildFeedbackQuery, ftsMatchExpression, MAX_QUERY_LIMIT, parseQuerySpec, QUERY_SORTS, runFeedbackQuery } from '../src/query';
+import { seedFeedback } from './helpers';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+// Hostile strings a model (or a user steering it) might pass through as filter values
+const INJECTIONS = [
+    `'; DROP TABLE feedback; --`,
+    `x' OR '1'='1`,
+    `") UNION SELECT * FROM conversations --`,
+    `%' OR 1=1 --`,
+    `\\'; DELETE FROM issues; --`,
+];
+
+describe('parseQuerySpec', () => {
+    it('drops unknown keys and values outside the allowed sets', () => {
+        expect(parseQuerySpec({
+            category: ['bug', 'Security', 'ux'], status: 'IN_PROGRESS', source: ['support', 'bad source!'], sort: 'random', where: '1=1', ids: ['x']
+        })).toEqual({ category: ['Bug', 'UX'], status: ['in_progress'], source: ['support'] });
+    });
+
+    it('accepts bare strings and numeric strings where lists and numbers are expected', () => {
+        expect(parseQuerySpec({ category: 'Feature', terms: ' export ', since_hours: '72', limit: '10' }))
+            .toEqual({ category: ['Feature'], terms: ['export'], since_hours: 72, limit: 10 });
+    });
+
+    it('clamps numbers and swaps inverted ranges', () => {
+        expect(parseQuerySpec({ sentiment_min: 0.5, sentiment_max: -4, gravity_min: 9, gravity_max: -1, since_hours: 1e9, limit: 1000 }))
+            .toEqual({ sentiment_min: -1, sentiment_max: 0.5, gravity_min: 0, gravity_max: 9, since_hours: 24 * 365, limit: MAX_QUERY_LIMIT });
+        expect(parseQuerySpec({ since_hours: -5, limit: 0.2 })).toEqual({ limit: 1 });
+    });
+
+    it('normalizes dates and ignores invalid ones', () => {
+        expect(parseQuerySpec({ since: '2026-02-01', until: 'yesterday' })).toEqual({ since: '2026-02-01T00:00:00.000Z' });
+    });
+
+    it('caps the number and length of search terms', () => {
+        const spec = parseQuerySpec({ terms: ['a', 'b', 'c', 'd', 'e', 'f', 'x'.repeat(500)] });
+        expect(spec.terms).toEqual(['a', 'b', 'c', 'd', 'e']);
+        expect(parseQuerySpec({ terms: ['x'.repeat(500)] }).terms![0]).toHaveLength(100);
+    });
+
+    it('returns an empty spec for non-objects', () => {
+        for (const input of [null, undefined, 'bugs', 42, ['Bug']]) expect(parseQuerySpec(input)).toEqual({});
+    });
+});
+
+describe('ftsMatchExpression', () => {
+    it('quotes every term as a phrase and keeps trailing * as a prefix', () => {
+        expect(ftsMatchExpression(['dark mode', 'export*', 'say "hi"'])).toBe('"dark mode" AND "export" * AND "say ""hi"""');
+    });
+
+    it('turns FTS operators into plain text and drops terms with nothing to match', () => {
+        expect(ftsMatchExpression(['login OR NOT crash', 'content:x', 'NEAR(a b)'])).toBe('"login OR NOT crash" AND "content:x" AND "NEAR(a b)"');
+        expect(ftsMatchExpression(['%', '**', ' '])).toBeNull();
+    });
+});
+
+describe('buildFeedbackQuery', () => {
+    it('defaults to enriched rows in active states, by gravity, 25 at a time', () => {
+        expect(buildFeedbackQuery({}, NOW)).toEqual({
+            sql: `SELECT * FROM feedback WHERE enrichment_status = 'ok' AND status IN (?, ?, ?, ?) ORDER BY gravity_score DESC, created_at DESC LIMIT ?`,
+            binds: ['open', 'triaged', 'in_progress', 'reopened', 25],
+        });
+    });
+
+    it('binds every filter value as a parameter', () => {
+        const { sql, binds } = buildFeedbackQuery({
+            category: ['Bug', 'UX'], source: ['github'], status: ['resolved'], since_hours: 24, since: '2026-02-01T00:00:00.000Z',
+            until: '2026-03-01T00:00:00.000Z', sentiment_min: -1, sentiment_max: 0, gravity_min: 2, gravity_max: 20,
+            terms: ['login'], sort: 'newest', limit: 5,
+        }, NOW);
+        expect(sql).toBe(
+            `SELECT feedback.*, -bm25(feedback_fts, 1.0, 0.5) * (1.0 + COALESCE(feedback.gravity_score, 0) / (COALESCE(feedback.gravity_score, 0) + 10)) AS relevance` +
+            ` FROM feedback JOIN feedback_fts ON feedback_fts.rowid = feedback.rowid WHERE enrichment_status = 'ok' AND status IN (?) AND category IN (?, ?) AND source IN (?)` +
+            ` AND created_at >= ? AND created_at >= ? AND created_at < ? AND sentiment >= ? AND sentiment <= ? AND gravity_score >= ? AND gravity_score <= ?` +
+            ` AND feedback_fts MATCH ? ORDER BY created_at DESC LIMIT ?`
+        );
+        expect(binds).toEqual([
+            'resolved', 'Bug', 'UX', 'github', '2026-02-28T12:00:00.000Z', '2026-02-01T00:00:00.000Z', '2026-03-01T00:00:00.000Z',
+            -1, 0, 2, 20, '"login"', 5,
+        ]);
+    });
+
+    it('sorts matches by relevance unless asked otherwise, and only adds snippets on request', () => {
+        expect(buildFeedbackQuery({ terms: ['login'] }).sql).toMatch(/ORDER BY relevance DESC, created_at DESC LIMIT \?$/);
+        expect(buildFeedbackQuery({ terms: ['login'] }).sql).not.toContain('snippet(');
+        expect(buildFeedbackQuery({ terms: ['login'] }, NOW, { snippets: true }).sql).toContain(`snippet(feedback_fts, -1, char(2), char(3), '…', 16) AS snippet`);
+        // Without searchable terms there is nothing to be relevant to
+        expect(buildFeedbackQuery({ sort: 'relevance' }).sql).toMatch(/^SELECT \* FROM feedback WHERE .* ORDER BY gravity_score DESC/);
+        expect(buildFeedbackQuery({ terms: ['%'] }).sql).toMatch(/^SELECT \* FROM feedback WHERE .* ORDER BY gravity_score DESC/);
+    });
+
+    it('has an ORDER BY for every sort', () => {
+        for (const sort of QUERY_SORTS) expect(buildFeedbackQuery({ sort }).sql).toMatch(/ORDER BY \w+ (ASC|DESC)/);
+        expect(buildFeedbackQuery({ sort: 'id; DROP TABLE feedback' as any }).sql).toContain('ORDER BY gravity_score DESC');
+    });
+
+    it('matches nothing for an empty id restriction', () => {
+        expect(buildFeedbackQuery({ ids: [] })).toEqual({ sql: `SELECT * FROM feedback WHERE 0`, binds: [] });
+        expect(buildFeedbackQuery({ ids: ['a', 'b'] }).binds.slice(-3)).toEqual(['a', 'b', 25]);
+    });
+
+    it('never puts spec values into the SQL text', () => {
+        for (const value of INJECTIONS) {
+            const spec = parseQuerySpec({ category: [value], source: [value], status: [value], terms: [value], since: value, sort: value });
+            const { sql, binds } = buildFeedbackQuery({ ...spec, ids: [value] }, NOW);
+            expect(sql).not.toContain(value);
+            expect(sql).not.toMatch(/DROP|DELETE|UNION|1=1/);
+            expect(binds).toContain(value);
+        }
+    });
+});
+
+describe('runFeedbackQuery', () => {
+    it('treats injection strings as plain search text', async () => {
+        const id = await seedFeedback({ content: `Typed ' OR '1'='1 into the search box and it crashed` });
+        await seedFeedback({ content: 'Unrelated' });
+
+        for (const value of INJECTIONS) {
+            // Only the words in the string are searched, so at most the row containing them comes back
+            const rows = await runFeedbackQuery(env.FEEDBACK_DB, parseQuerySpec({ terms: [value], category: [value], source: [value] }), NOW);
+            expect(rows.filter(r => r.id !== id)).toEqual([]);
+        }
+        const rows = await runFeedbackQuery(env.FEEDBACK_DB, { terms: [`' OR '1'='1`] }, NOW);
+        expect(rows.map(r => r.id)).toEqual([id]);
+        const { n } = (await env.FEEDBACK_DB.prepare(`SELECT COUNT(*) AS n FROM feedback`).first<{ n: number }>())!;
+        expect(n).toBe(2);
+    });
+
+    it('matches stems, phrases and prefixes across content and explanation', async () => {
+        const crash = await seedFeedback({ content: 'The app crashed twice on login', explanation: 'Login failure' });
+        const phrase = await seedFeedback({ content: 'Please add dark mode', explanation: 'Theme request' });
+        const scattered = await seedFeedback({ content: 'Dark icons are hard to see in this mode', explanation: 'Contrast' });
+        const exporting = await seedFeedback({ content: 'Exporting to CSV hangs', explanation: 'Export stalls' });
+        const ids = async (terms: string[]) => (await runFeedbackQuery(env.FEEDBACK_DB, { terms })).map(r => r.id).sort();
+
+        expect(await ids(['crashes'])).toEqual([crash]);
+        expect(await ids(['dark mode'])).toEqual([phrase]);
+        expect(await ids(['dark', 'mode'])).toEqual([phrase, scattered].sort());
+        expect(await ids(['expor*'])).toEqual([exporting]);
+        expect(await ids(['failure'])).toEqual([crash]);
+        expect(await ids(['100%'])).toEqual([]);
+    });
+
+    it('blends text relevance with gravity', async () => {
+        const cold = await seedFeedback({ content: 'Checkout fails', gravity_score: 0 });
+        const hot = await seedFeedback({ content: 'Checkout fails', gravity_score: 40 });
+        const rows = await runFeedbackQuery(env.FEEDBACK_DB, { terms: ['checkout'] });
+
+        expect(rows.map(r => r.id)).toEqual([hot, cold]);
+        expect(rows[0].relevance).toBeCloseTo(rows[1].relevance * 1.8);
+    });
+
+    it('keeps the index in sync with edits and deletes', async () => {
+        const id = await seedFeedback({ content: 'Login is slow' });
+        await env.FEEDBACK_DB.prepare(`UPDATE feedback SET content = 'Checkout is slow' WHERE id = ?`).bind(id).run();
+        expect(await runFeedbackQuery(env.FEEDBACK_DB, { terms: ['login'] })).toEqual([]);
+        expect((await runFeedbackQuery(env.FEEDBACK_DB, { terms: ['checkout'] })).map(r => r.id)).toEqual([id]);
+
+        await env.FEEDBACK_DB.prepare(`DELETE FROM feedback WHERE id = ?`).bind(id).run();
+        expect(await runFeedbackQuery(env.FEEDBACK_DB, { terms: ['checkout'] })).toEqual([]);
+    });
+});
@@ -0,0 +1,106 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { createHashingEmbedder, createInMemoryVectorIndex } from '../src/clusters';
+import { compactRow, fitToBudget, fuseRankings, retrieveFeedback, SemanticSearch } from '../src/retrieval';
+import { seedFeedback } from './helpers';
+
+const NOW = new Date('2026-01-10T00:00:00.000Z');
+
+// Seeds feedback rows and indexes each one the way the workflow does
+async function seedIndexed(rows: Parameters<typeof seedFeedback>[0][]): Promise<{ ids: string[]; semantic: SemanticSearch }> {
+    const semantic = { embedder: createHashingEmbedder(), index: createInMemoryVectorIndex() };
+    const ids: string[] = [];
+    for (const row of rows) {
+        const id = await seedFeedback(row);
+        const [vector] = await semantic.embedder.embed([row!.content!]);
+        await semantic.index.upsert([{ id, values: vector }]);
+        ids.push(id);
+    }
+    return { ids, semantic };
+}
+
+describe('compactRow', () => {
+    it('keeps the answer columns, drops nulls and cuts long content', () => {
+        const row = compactRow({ id: 'a', content: 'x'.repeat(700), assignee: null, enrichment_model: 'mock', relevance: 1.23456 });
+        expect(Object.keys(row)).toEqual(['id', 'content', 'relevance']);
+        expect(row.content).toHaveLength(601);
+        expect(row.relevance).toBe(1.235);
+    });
+});
+
+describe('fitToBudget', () => {
+    it('keeps rows in order until the budget runs out', () => {
+        const rows = Array.from({ length: 10 }, (_, i) => ({ id: `fb-${i}`, content: 'y'.repeat(200) }));
+        const fitted = fitToBudget(rows, 200);
+        expect(fitted.rows.map(r => r.id)).toEqual(['fb-0', 'fb-1', 'fb-2']);
+        expect(fitted).toMatchObject({ matched: 10, truncated: true });
+        expect(fitted.tokens).toBeLessThanOrEqual(200);
+    });
+
+    it('is not truncated when everything fits', () => {
+        expect(fitToBudget([{ id: 'a' }], 100)).toMatchObject({ rows: [{ id: 'a' }], matched: 1, truncated: false });
+    });
+});
+
+describe('fuseRankings', () => {
+    it('puts ids found by both lists first', () => {
+        expect(fuseRankings([['a', 'b', 'c'], ['c', 'd']])).toEqual(['c', 'a', 'b', 'd']);
+    });
+});
+
+describe('retrieveFeedback', () => {
+    it('finds reports with the same meaning but different wording', async () => {
+        const { ids: [android, ios], semantic } = await seedIndexed([
+            { content: 'Photo upload fails on android' },
+            { content: 'Cannot upload photo from the iOS app' },
+            { content: 'Dark mode please' },
+        ]);
+
+        const keywordOnly = await retrieveFeedback(env.FEEDBACK_DB, { terms: ['upload photo'] }, null, NOW);
+        expect(keywordOnly.map(r => r.id)).toEqual([ios]);
+
+        const rows = await retrieveFeedback(env.FEEDBACK_DB, { terms: ['upload photo'] }, semantic, NOW);
+        expect(rows.map(r => r.id)).toEqual([ios, android]);
+        expect(rows[1].similarity).toBeGreaterThan(0.5);
+    });
+
+    it('applies the structured filters to semantic candidates', async () => {
+        const { ids: [bug], semantic } = await seedIndexed([
+            { content: 'Photo upload fails on android', category: 'Bug' },
+            { content: 'Photo upload should be faster on android', category: 'Feature' },
+            { content: 'Photo upload fails on android since update', category: 'Bug', status: 'resolved' },
+        ]);
+
+        const rows = await retrieveFeedback(env.FEEDBACK_DB, { terms: ['upload photo'], category: ['Bug'] }, semantic, NOW);
+        expect(rows.map(r => r.id)).toEqual([bug]);
+    });
+
+    it('stays inside narrowed ids', async () => {
+        const { ids: [first, second], semantic } = await seedIndexed([
+            { content: 'Photo upload fails on android' },
+            { content: 'Photo upload fails on android tablets' },
+        ]);
+
+        const rows = await retrieveFeedback(env.FEEDBACK_DB, { terms: ['upload photo'], ids: [second] }, semantic, NOW);
+        expect(rows.map(r => r.id)).toEqual([second]);
+        expect(rows.map(r => r.id)).not.toContain(first);
+    });
+
+    it('uses an explicit sort instead of fusing ranks', async () => {
+        const { ids: [low, high], semantic } = await seedIndexed([
+            { content: 'Cannot upload photo from the iOS app', gravity_score: 2 },
+            { content: 'Photo upload fails on android', gravity_score: 9 },
+        ]);
+
+        const rows = await retrieveFeedback(env.FEEDBACK_DB, { terms: ['upload photo'], sort: 'gravity' }, semantic, NOW);
+        expect(rows.map(r => r.id)).toEqual([high, low]);
+    });
+
+    it('is a plain keyword query without terms', async () => {
+        const { ids, semantic } = await seedIndexed([{ content: 'Photo upload fails', gravity_score: 3 }, { content: 'Dark mode please', gravity_score: 7 }]);
+
+        const rows = await retrieveFeedback(env.FEEDBACK_DB, {}, semantic, NOW);
+        expect(rows.map(r => r.id)).toEqual([ids[1], ids[0]]);
+        expect(rows.every(r => r.similarity === undefined)).toBe(true);
+    });
+});
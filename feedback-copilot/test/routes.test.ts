@@ -0,0 +1,473 @@
+import { createExecutionContext, createScheduledController, env, SELF, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, expect, it, vi } from 'vitest';
+import { createBulkJob, fanOutBulkJob, getBulkJobProgress, mapRows, MAX_BULK_BODY_BYTES } from '../src/bulk';
+import worker from '../src/index';
+import { DEFAULT_POLICY } from '../src/scoring';
+import { recordOutputMetric } from '../src/structured';
+import { ADMIN, call, feedbackRows, runWorkflow, seedAnomaly, seedFeedback, seedIssue, settleWorkflows, TRIAGER, VIEWER } from './helpers';
+
+const json = async (res: Response) => ({ status: res.status, body: await res.json<any>() });
+const events = async (feedbackId: string) =>
+    (await env.FEEDBACK_DB.prepare(`SELECT type, actor, before_value, after_value FROM issue_events WHERE feedback_id = ? ORDER BY created_at`).bind(feedbackId).all<any>()).results;
+
+describe('routing and access', () => {
+    it('redirects the root to the chat UI', async () => {
+        const res = await SELF.fetch('https://copilot.test/', { redirect: 'manual' });
+        expect(res.status).toBe(302);
+        expect(res.headers.get('Location')).toBe('https://copilot.test/app');
+    });
+
+    it('returns 404 for unknown routes', async () => {
+        expect((await call('/nope')).status).toBe(404);
+        expect((await call('/app', { method: 'DELETE' })).status).toBe(404);
+    });
+
+    it('rejects callers without an Access identity', async () => {
+        for (const path of ['/app', '/dashboard', '/issue?id=x', '/search?q=x', '/chat/conversations', '/admin/scoring-policy']) {
+            expect((await call(path, { as: null })).status, path).toBe(401);
+        }
+    });
+
+    it('enforces role minimums', async () => {
+        expect((await call('/dashboard', { as: VIEWER })).status).toBe(200);
+        expect((await call('/issue/comment', { as: VIEWER, body: { id: 'x', comment: 'hi' } })).status).toBe(403);
+        expect((await call('/admin/scoring-policy', { as: TRIAGER })).status).toBe(403);
+        expect((await call('/admin/scoring-policy', { as: ADMIN })).status).toBe(200);
+    });
+
+    it('serves both pages as HTML with a nonce-based CSP', async () => {
+        for (const path of ['/app', '/dashboard']) {
+            const res = await call(path, { as: VIEWER });
+            expect(res.headers.get('Content-Type')).toMatch(/text\/html/);
+            expect(res.headers.get('Content-Security-Policy')).toMatch(/script-src 'nonce-[^']+'/);
+            await res.text();
+        }
+    });
+});
+
+describe('/app', () => {
+    it('ranks only active issues in the sidebar, five at most', async () => {
+        for (const status of ['resolved', 'wont_fix', 'snoozed']) await seedIssue({ gravity_score: 40 }, { status });
+        const active: string[] = [];
+        for (let i = 0; i < 6; i++) active.push((await seedIssue({ gravity_score: 10 - i })).feedbackId);
+
+        const page = await (await call('/app', { as: VIEWER })).text();
+        const shown = [...page.matchAll(/data-issue-id="([^"]+)"/g)].map(m => m[1]);
+        expect(shown).toEqual(active.slice(0, 5));
+    });
+});
+
+describe('/admin/scoring-policy', () => {
+    it('returns the default policy until one is saved', async () => {
+        expect(await json(await call('/admin/scoring-policy'))).toEqual({ status: 200, body: DEFAULT_POLICY });
+    });
+
+    it('merges and persists valid changes', async () => {
+        const res = await json(await call('/admin/scoring-policy', { method: 'PUT', body: { cap: 30, sourceWeights: { enterprise: 2 } } }));
+        expect(res).toEqual({ status: 200, body: { ...DEFAULT_POLICY, cap: 30, sourceWeights: { enterprise: 2 } } });
+        expect((await json(await call('/admin/scoring-policy'))).body.cap).toBe(30);
+    });
+
+    it('rejects invalid values and unknown keys', async () => {
+        const invalid = await json(await call('/admin/scoring-policy', { method: 'PUT', body: { cap: -1 } }));
+        expect(invalid).toMatchObject({ status: 400, body: { error: 'validation_failed', fields: [{ field: 'cap' }] } });
+        const unknown = await json(await call('/admin/scoring-policy', { method: 'PUT', body: { decay: 2 } }));
+        expect(unknown.body.fields).toEqual([{ field: 'decay', message: 'is not allowed' }]);
+    });
+
+    it('rejects non-JSON bodies', async () => {
+        const res = await call('/admin/scoring-policy', { method: 'PUT', body: 'cap=1', headers: { 'Content-Type': 'text/plain' } });
+        expect(res.status).toBe(415);
+        await res.text();
+    });
+
+    it('recomputes open feedback and audits changed issues', async () => {
+        const { feedbackId } = await seedIssue({ sentiment: -0.5, category: 'Bug', gravity_score: 99, created_at: new Date().toISOString() });
+        const res = await json(await call('/admin/scoring-policy/recompute', { method: 'POST' }));
+        expect(res).toEqual({ status: 200, body: { ok: true, feedback: 1, issues: 1, rescored: 1 } });
+        expect(await events(feedbackId)).toEqual([
+            { type: 'rescore', actor: ADMIN, before_value: JSON.stringify({ gravity_score: 99 }), after_value: JSON.stringify({ gravity_score: 10 }) }
+        ]);
+    });
+});
+
+describe('/admin/notifications', () => {
+    it('creates, lists and deletes subscriptions', async () => {
+        const created = await json(await call('/admin/notifications/subscriptions', { body: { kind: 'webhook', url: 'https://hooks.example.com/x', gravity_threshold: 10 } }));
+        expect(created.status).toBe(201);
+        expect(created.body.secret).toMatch(/^[0-9a-f]{64}$/);
+
+        const listed = await json(await call('/admin/notifications/subscriptions'));
+        expect(listed.body).toHaveLength(1);
+        expect(listed.body[0]).not.toHaveProperty('secret');
+
+        expect((await json(await call('/admin/notifications/subscriptions/delete', { body: { id: created.body.id } }))).body).toEqual({ ok: true });
+        expect((await call('/admin/notifications/subscriptions/delete', { body: { id: created.body.id } })).status).toBe(404);
+    });
+
+    it('validates subscriptions', async () => {
+        const res = await json(await call('/admin/notifications/subscriptions', { body: { kind: 'slack', url: 'http://hooks.example.com/x' } }));
+        expect(res.status).toBe(400);
+        expect(res.body.fields.map((f: any) => f.field)).toEqual(['url', 'gravity_threshold']);
+    });
+
+    it('lists deliveries and validates the status filter', async () => {
+        expect(await json(await call('/admin/notifications/deliveries?status=delivered'))).toEqual({ status: 200, body: [] });
+        expect((await call('/admin/notifications/deliveries?status=lost')).status).toBe(400);
+    });
+});
+
+describe('/admin/reprocess', () => {
+    it('counts matching rows on a dry run', async () => {
+        await seedFeedback({ enrichment_status: 'failed', sentiment: null, category: null });
+        await seedFeedback();
+        const res = await json(await call('/admin/reprocess', { body: { failed_only: true, dry_run: true } }));
+        expect(res).toEqual({ status: 200, body: { ok: true, dry_run: true, matched: 1, started: 0, model: 'mock/enrichment', prompt_version: 'enrich-1' } });
+    });
+
+    it('re-enriches matching rows through the workflow', async () => {
+        const id = await seedFeedback({ content: 'Login fails on Safari', enrichment_status: 'failed', sentiment: null, category: null });
+        const { result, instances } = await settleWorkflows(async () => json(await call('/admin/reprocess', { body: { failed_only: true } })));
+
+        expect(result).toMatchObject({ status: 202, body: { matched: 1, started: 1 } });
+        expect(instances).toBe(1);
+        expect(await feedbackRows()).toMatchObject([{ id, enrichment_status: 'ok', category: 'Bug' }]);
+    });
+
+    it('validates the filter', async () => {
+        const res = await json(await call('/admin/reprocess', { body: { limit: 5000, category: 'Bugs' } }));
+        expect(res.body.fields.map((f: any) => f.field)).toEqual(['category', 'limit']);
+    });
+});
+
+describe('/admin/ai-metrics', () => {
+    it('lists outcome counts per task and day', async () => {
+        await recordOutputMetric(env.FEEDBACK_DB, 'enrichment', 'ok');
+        await recordOutputMetric(env.FEEDBACK_DB, 'enrichment', 'repaired');
+        const res = await json(await call('/admin/ai-metrics?days=1'));
+        expect(res.body).toMatchObject([{ task: 'enrichment', ok: 1, repaired: 1, failed: 0 }]);
+    });
+});
+
+describe('issue actions', () => {
+    it('closes and reopens a whole cluster', async () => {
+        const { feedbackId, issueId } = await seedIssue();
+        expect((await json(await call('/issue/close', { as: TRIAGER, body: { id: feedbackId, reason: 'fixed in 2.3' } }))).body).toEqual({ ok: true, status: 'resolved' });
+        expect((await call('/issue/close', { as: TRIAGER, body: { id: feedbackId } })).status).toBe(409);
+        expect((await json(await call('/issue/reopen', { as: TRIAGER, body: { id: feedbackId } }))).body).toEqual({ ok: true, status: 'reopened' });
+
+        const issue = await env.FEEDBACK_DB.prepare(`SELECT status FROM issues WHERE id = ?`).bind(issueId).first();
+        expect(issue).toEqual({ status: 'reopened' });
+        expect((await events(feedbackId)).map(e => e.type)).toEqual(['close', 'reopen']);
+    });
+
+    it('moves through the lifecycle and requires a date to snooze', async () => {
+        const { feedbackId } = await seedIssue();
+        expect((await call('/issue/transition', { as: TRIAGER, body: { id: feedbackId, status: 'snoozed' } })).status).toBe(400);
+        const snoozed = await json(await call('/issue/transition', { as: TRIAGER, body: { id: feedbackId, status: 'snoozed', snoozed_until: '2030-01-01' } }));
+        expect(snoozed.body).toEqual({ ok: true, status: 'snoozed' });
+        expect((await call('/issue/transition', { as: TRIAGER, body: { id: feedbackId, status: 'reopened' } })).status).toBe(409);
+        expect((await call('/issue/transition', { as: TRIAGER, body: { id: 'missing', status: 'triaged' } })).status).toBe(404);
+    });
+
+    it('assigns clustered issues only', async () => {
+        const { feedbackId } = await seedIssue();
+        const assigned = await json(await call('/issue/assign', { as: TRIAGER, body: { id: feedbackId, assignee: ' Dev@Example.com ' } }));
+        expect(assigned.body).toEqual({ ok: true, assignee: 'dev@example.com' });
+        expect((await call('/issue/assign', { as: TRIAGER, body: { id: feedbackId, assignee: 'not-an-email' } })).status).toBe(400);
+
+        const loose = await seedFeedback();
+        expect((await json(await call('/issue/assign', { as: TRIAGER, body: { id: loose, assignee: null } }))).body.error).toBe('not_clustered');
+    });
+
+    it('recategorizes every report in the cluster', async () => {
+        const { feedbackId, issueId } = await seedIssue({ category: 'Bug' });
+        expect((await json(await call('/issue/recategorize', { as: TRIAGER, body: { id: feedbackId, category: 'UX' } }))).body).toEqual({ ok: true, category: 'UX' });
+        expect((await call('/issue/recategorize', { as: TRIAGER, body: { id: feedbackId, category: 'ux' } })).status).toBe(400);
+
+        const issue = await env.FEEDBACK_DB.prepare(`SELECT category FROM issues WHERE id = ?`).bind(issueId).first();
+        expect(issue).toEqual({ category: 'UX' });
+    });
+
+    it('merges one cluster into another', async () => {
+        const a = await seedIssue({ gravity_score: 4 });
+        const b = await seedIssue({ gravity_score: 6 });
+        expect((await json(await call('/issue/merge', { as: TRIAGER, body: { id: a.feedbackId, into: b.feedbackId } }))).body).toEqual({ ok: true, issue_id: b.issueId });
+        expect((await call('/issue/merge', { as: TRIAGER, body: { id: a.feedbackId, into: b.feedbackId } })).status).toBe(400);
+
+        const issues = await env.FEEDBACK_DB.prepare(`SELECT id, status, report_count, gravity_score FROM issues ORDER BY id`).all();
+        expect(issues.results).toEqual([
+            { id: a.issueId, status: 'merged', report_count: 0, gravity_score: 4 },
+            { id: b.issueId, status: 'open', report_count: 2, gravity_score: 12 },
+        ]);
+    });
+
+    it('gives merged reports the target issue\'s closed_at', async () => {
+        const closedAt = '2026-02-01T00:00:00.000Z';
+        const reopened = await seedIssue({}, { status: 'reopened' });
+        const resolved = await seedIssue({}, { status: 'resolved' });
+        const open = await seedIssue();
+        const closedAtOf = async (id: string) => (await env.FEEDBACK_DB.prepare(`SELECT closed_at FROM feedback WHERE id = ?`).bind(id).first())?.closed_at;
+        await env.FEEDBACK_DB.prepare(`UPDATE feedback SET closed_at = ? WHERE id = ?`).bind('2026-01-15T00:00:00.000Z', reopened.feedbackId).run();
+        await env.FEEDBACK_DB.prepare(`UPDATE feedback SET closed_at = ? WHERE id = ?`).bind(closedAt, resolved.feedbackId).run();
+
+        // A stale closed_at is cleared when merging into an open issue, and set when merging into a resolved one
+        await call('/issue/merge', { as: TRIAGER, body: { id: reopened.feedbackId, into: open.feedbackId } });
+        expect(await closedAtOf(reopened.feedbackId)).toBeNull();
+        await call('/issue/merge', { as: TRIAGER, body: { id: open.feedbackId, into: resolved.feedbackId } });
+        for (const { feedbackId } of [reopened, open]) expect(await closedAtOf(feedbackId)).toBe(closedAt);
+    });
+
+    it('records comments in the history', async () => {
+        const { feedbackId, issueId } = await seedIssue();
+        expect((await call('/issue/comment', { as: TRIAGER, body: { id: feedbackId, comment: '  Seen on Android too ' } })).status).toBe(200);
+
+        const history = await json(await call(`/issue/history?id=${feedbackId}`, { as: VIEWER }));
+        expect(history.body).toMatchObject({ id: feedbackId, issue_id: issueId, events: [{ type: 'comment', actor: TRIAGER, after_value: { comment: 'Seen on Android too' } }] });
+        expect((await call('/issue/history?id=missing')).status).toBe(404);
+        expect((await call('/issue/history')).status).toBe(400);
+    });
+
+    it('returns drill-down details with the cluster state', async () => {
+        const { feedbackId, issueId } = await seedIssue({ content: 'Sync stalls' }, { assignee: 'dev@example.com' });
+        const res = await json(await call(`/issue?id=${feedbackId}`, { as: VIEWER }));
+        expect(res.body).toMatchObject({ id: feedbackId, issue_id: issueId, content: 'Sync stalls', status: 'open', assignee: 'dev@example.com', report_count: 1 });
+        expect((await call('/issue?id=missing')).status).toBe(404);
+        expect((await call('/issue')).status).toBe(400);
+    });
+});
+
+describe('/search', () => {
+    it('returns ranked matches with snippets for viewers', async () => {
+        const id = await seedFeedback({ content: 'Dark mode resets after logout' });
+        await seedFeedback({ content: 'Dark icons in light mode' });
+        await seedFeedback({ content: 'Mode switcher is dark', category: 'UX' });
+
+        const { status, body } = await json(await call('/search?q=%22dark+mode%22+logout', { as: VIEWER }));
+        expect(status).toBe(200);
+        expect(body.query).toBe('"dark mode" logout');
+        expect(body.results.map((r: any) => r.id)).toEqual([id]);
+        expect(body.results[0].snippet.filter((s: any) => s.match).map((s: any) => s.text)).toEqual(['Dark mode', 'logout']);
+
+        const filtered = await json(await call('/search?q=dark&category=UX,Feature', { as: VIEWER }));
+        expect(filtered.body.results).toHaveLength(1);
+    });
+
+    it('rejects invalid filters instead of widening the search', async () => {
+        const { status, body } = await json(await call('/search?q=dark&category=Bgu&status=done&since=yesterday&limit=0', { as: VIEWER }));
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ error: 'validation_failed' });
+        expect(body.fields.map((f: any) => f.field)).toEqual(['category', 'status', 'since', 'limit']);
+        expect((await json(await call('/search?q=dark&since=2026-03-02&until=2026-03-01', { as: VIEWER }))).body.fields)
+            .toEqual([{ field: 'since', message: 'must be before until' }]);
+    });
+
+    it('rejects search terms it would otherwise cut', async () => {
+        expect((await json(await call('/search?q=one+two+three+four+five+six', { as: VIEWER }))).body.fields)
+            .toEqual([{ field: 'terms', message: 'must be at most 5 words or phrases' }]);
+        const { status, body } = await json(await call(`/search?q=${'x'.repeat(101)}`, { as: VIEWER }));
+        expect(status).toBe(400);
+        expect(body.fields).toEqual([{ field: 'terms', message: 'must each be at most 100 characters' }]);
+    });
+
+    it('rejects a query with nothing to search for', async () => {
+        const { status, body } = await json(await call('/search?q=%25%25', { as: VIEWER }));
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ error: 'validation_failed', fields: [{ field: 'q' }] });
+    });
+});
+
+describe('/analytics', () => {
+    it('returns the overview and each report for viewers', async () => {
+        await seedFeedback({ created_at: '2026-03-02T12:00:00.000Z', category: 'Bug' });
+        await seedFeedback({ created_at: '2026-03-03T12:00:00.000Z', category: 'UX', source: 'github' });
+        const range = 'since=2026-03-01&until=2026-03-15';
+
+        expect((await call(`/analytics?${range}`, { as: null })).status).toBe(401);
+        const overview = await json(await call(`/analytics?${range}`, { as: VIEWER }));
+        expect(overview).toMatchObject({
+            status: 200, body: { since: '2026-03-01T00:00:00.000Z', until: '2026-03-15T00:00:00.000Z', data: { total: 2, by_category: { Bug: 1, UX: 1 } } }
+        });
+
+        const weekly = await json(await call(`/analytics/volume?${range}&interval=week&by=source`, { as: VIEWER }));
+        expect(weekly.body.data).toEqual([{ period: '2026-03-02', key: 'github', count: 1 }, { period: '2026-03-02', key: 'support', count: 1 }]);
+        for (const report of ['sentiment?window=3', 'status', 'time-to-close', 'movers?by=category&limit=2']) {
+            const res = await call(`/analytics/${report}${report.includes('?') ? '&' : '?'}${range}`, { as: VIEWER });
+            expect(res.status, report).toBe(200);
+        }
+    });
+
+    it('rejects bad options and unknown reports', async () => {
+        const { status, body } = await json(await call('/analytics/volume?interval=hour&since=yesterday', { as: VIEWER }));
+        expect(status).toBe(400);
+        expect(body.fields.map((f: any) => f.field)).toEqual(['since', 'interval']);
+        expect((await json(await call('/analytics/sentiment?window=0', { as: VIEWER }))).body.fields).toEqual([{ field: 'window', message: 'must be a whole number from 1 to 90' }]);
+        expect((await call('/analytics/funnel', { as: VIEWER })).status).toBe(404);
+    });
+});
+
+describe('/anomalies', () => {
+    it('lists recent anomalies with a summary line', async () => {
+        await seedAnomaly({ subject: 'Bug', score: 5 });
+        await seedAnomaly({ kind: 'sentiment_drop', dimension: 'source', subject: 'github', observed: -0.6, expected: 0.1, score: -8 });
+        await seedAnomaly({ subject: 'UX', last_seen_at: new Date(Date.now() - 48 * 3600 * 1000).toISOString() });
+
+        expect((await call('/anomalies', { as: null })).status).toBe(401);
+        const { status, body } = await json(await call('/anomalies', { as: VIEWER }));
+        expect(status).toBe(200);
+        expect(body.anomalies.map((a: any) => [a.subject, a.summary])).toEqual([
+            ['github', 'Source github: sentiment -0.60 in 24h, usually 0.10'], ['Bug', 'Bug: 14 reports in 24h, usually 2.0 a day'],
+        ]);
+        expect((await json(await call('/anomalies?since_hours=72', { as: VIEWER }))).body.anomalies).toHaveLength(3);
+        expect((await json(await call('/anomalies?since_hours=0', { as: VIEWER }))).body.fields).toEqual([{ field: 'since_hours', message: 'must be a whole number from 1 to 720' }]);
+    });
+});
+
+describe('/ingest', () => {
+    it('starts a workflow for the feedback', async () => {
+        const { result, instances } = await settleWorkflows(async () => json(await call('/ingest', { as: TRIAGER, body: { text: 'Dark mode please', source: 'support' } })));
+        expect(result).toMatchObject({ status: 200, body: { ok: true, started: true, duplicate: false } });
+        expect(instances).toBe(1);
+        expect(await feedbackRows()).toMatchObject([{ content: 'Dark mode please', source: 'support', category: 'Feature' }]);
+    });
+
+    it('takes the source from an ingest API key', async () => {
+        await settleWorkflows(() => call('/ingest', { as: null, body: { text: 'Refund never arrived', source: 'spoofed' }, headers: { 'X-Api-Key': 'test-zendesk-key' } }));
+        expect(await feedbackRows()).toMatchObject([{ source: 'zendesk' }]);
+        expect((await call('/ingest', { as: null, body: { text: 'x' }, headers: { 'X-Api-Key': 'wrong' } })).status).toBe(401);
+    });
+
+    it('maps retries with the same external id or Idempotency-Key onto one instance', async () => {
+        const { result } = await settleWorkflows(async () => {
+            const ids = [];
+            for (const headers of [{}, {}, { 'Idempotency-Key': 'k-1' }, { 'Idempotency-Key': 'k-1' }] as Record<string, string>[]) {
+                const body = 'Idempotency-Key' in headers ? { text: 'Import hangs' } : { text: 'Export fails', external_id: 'T-1' };
+                ids.push((await json(await call('/ingest', { body, headers }))).body.instance_id);
+            }
+            return ids;
+        });
+        expect(result[0]).toMatch(/^ingest-[0-9a-f]{40}$/);
+        expect(result[1]).toBe(result[0]);
+        expect(result[3]).toBe(result[2]);
+        expect(result[2]).not.toBe(result[0]);
+    });
+
+    it('re-enriches the stored row when a known external id comes back with new text', async () => {
+        const first = await settleWorkflows(async () => json(await call('/ingest', { body: { text: 'Export fails', external_id: 'T-1' } })));
+        const edit = await settleWorkflows(async () => json(await call('/ingest', { body: { text: 'Export fails for PDF files', external_id: 'T-1' } })));
+
+        expect(edit.result.body).toMatchObject({ started: true, duplicate: false });
+        expect(edit.result.body.instance_id).not.toBe(first.result.body.instance_id);
+        expect(edit.instances).toBe(1);
+        expect(await feedbackRows()).toMatchObject([{ content: 'Export fails for PDF files' }]);
+    });
+
+    it('validates the body and the Idempotency-Key', async () => {
+        const res = await json(await call('/ingest', { body: { text: '', source: 'bad source!', extra: 1 } }));
+        expect(res.body.fields.map((f: any) => f.field)).toEqual(['text', 'source', 'extra']);
+        expect((await call('/ingest', { body: { text: 'x' }, headers: { 'Idempotency-Key': 'k'.repeat(300) } })).status).toBe(400);
+    });
+
+    it('generates demo feedback when demo mode is on', async () => {
+        const { result } = await settleWorkflows(async () => json(await call('/demo/ingest-random', { as: TRIAGER, method: 'POST' })));
+        expect(result).toMatchObject({ status: 200, body: { ok: true, started: true } });
+        expect(await feedbackRows()).toMatchObject([{ source: 'random-generator', content: result.body.content }]);
+    });
+});
+
+describe('/ingest/bulk', () => {
+    it('fans out accepted rows and reports progress until complete', async () => {
+        const csv = 'text,source\n"Upload crashes, every time",support\n,support\nPlease add SSO,sales\n';
+        // Rows fan out after the response, so wait for the job inside settleWorkflows
+        const { result: [res, progress] } = await settleWorkflows(async () => {
+            const res = await json(await call('/ingest/bulk', { as: TRIAGER, body: csv, headers: { 'Content-Type': 'text/csv' } }));
+            const progress = await vi.waitFor(async () => {
+                const job = await json(await call(`/ingest/jobs?id=${res.body.job_id}`, { as: TRIAGER }));
+                expect(job.body.status).toBe('complete');
+                return job.body;
+            }, { timeout: 4000, interval: 50 });
+            return [res, progress] as const;
+        });
+        expect(res).toMatchObject({ status: 202, body: { ok: true, total: 3, accepted: 2, rejected: 1 } });
+        expect(progress).toMatchObject({ format: 'csv', total: 3, accepted: 2, rejected: 1, enriched: 2, failed: 0, errors: [{ row: 2, error: 'missing "text"' }] });
+        expect((await feedbackRows()).map(r => r.source).sort()).toEqual(['sales', 'support']);
+    });
+
+    it('resumes a job whose fan-out was cut off from the hourly cron', async () => {
+        const rows = [{ text: 'Export times out' }, { text: 'Dark mode please' }];
+        await createBulkJob(env.FEEDBACK_DB, 'cut-off', { format: 'ndjson', total: 2, events: mapRows(rows, { text: 'text' }, 'support', 'cut-off').accepted, errors: [], createdBy: TRIAGER });
+
+        const later = new Date(Date.now() + 11 * 60 * 1000);
+        const { result: progress } = await settleWorkflows(async () => {
+            const ctx = createExecutionContext();
+            await worker.scheduled(createScheduledController({ scheduledTime: later, cron: '0 * * * *' }), env, ctx);
+            await waitOnExecutionContext(ctx);
+            return vi.waitFor(async () => {
+                const job = await getBulkJobProgress(env.FEEDBACK_DB, 'cut-off');
+                expect(job?.status).toBe('complete');
+                return job;
+            }, { timeout: 4000, interval: 50 });
+        });
+        expect(progress).toMatchObject({ accepted: 2, enriched: 2 });
+        expect((await env.FEEDBACK_DB.prepare(`SELECT COUNT(*) AS n FROM ingest_job_batches`).first<{ n: number }>())?.n).toBe(0);
+    });
+
+    it('keeps rows that already started when a resumed batch meets existing instances', async () => {
+        const rows = [{ text: 'Export times out' }, { text: 'Dark mode please' }, { text: 'Search is slow' }];
+        await createBulkJob(env.FEEDBACK_DB, 'cut-off', { format: 'ndjson', total: 3, events: mapRows(rows, { text: 'text' }, 'support', 'cut-off').accepted, errors: [], createdBy: TRIAGER });
+        // Row 1 started before the cut-off; row 3 genuinely fails to start
+        const started: string[] = [];
+        const workflow = {
+            async create({ id }: { id: string }) {
+                if (id === 'bulk-cut-off-0') throw new Error('instance already exists');
+                if (id === 'bulk-cut-off-2') throw new Error('quota exceeded');
+                started.push(id);
+                return { id };
+            },
+            async get(id: string) {
+                if (id !== 'bulk-cut-off-0') throw new Error('instance not found');
+                return { id };
+            },
+            async createBatch() {
+                throw new Error('a resumed batch starts one row at a time');
+            },
+        } as unknown as Workflow;
+
+        await fanOutBulkJob(env.FEEDBACK_DB, workflow, 'cut-off', true);
+
+        expect(started).toEqual(['bulk-cut-off-1']);
+        expect(await getBulkJobProgress(env.FEEDBACK_DB, 'cut-off')).toMatchObject({
+            status: 'dispatched', accepted: 2, rejected: 1, errors: [{ row: -1, error: 'dispatch failed for accepted row 3: quota exceeded' }],
+        });
+    });
+
+    it('leaves a row with the job that first stored it when a later job updates it', async () => {
+        for (const id of ['first', 'later']) await createBulkJob(env.FEEDBACK_DB, id, { format: 'csv', total: 1, events: [], errors: [], createdBy: TRIAGER });
+        await env.FEEDBACK_DB.prepare(`UPDATE ingest_jobs SET accepted = 1, status = 'dispatched'`).run();
+
+        await runWorkflow({ content: 'Export times out', source: 'support', external_id: 'row-1', job_id: 'first' });
+        await runWorkflow({ content: 'Export times out after 30 seconds', source: 'support', external_id: 'row-1', job_id: 'later' });
+
+        const [row] = await feedbackRows();
+        expect(row).toMatchObject({ content: 'Export times out after 30 seconds', job_id: 'first' });
+        expect(await getBulkJobProgress(env.FEEDBACK_DB, 'first')).toMatchObject({ status: 'complete', enriched: 1, skipped: 0 });
+        expect(await getBulkJobProgress(env.FEEDBACK_DB, 'later')).toMatchObject({ status: 'complete', enriched: 0, skipped: 1 });
+    });
+
+    it('rejects bodies over the size limit before parsing them', async () => {
+        const declared = await call('/ingest/bulk', { as: TRIAGER, body: 'text\nhi\n', headers: { 'Content-Type': 'text/csv', 'Content-Length': String(MAX_BULK_BODY_BYTES + 1) } });
+        expect(declared.status).toBe(413);
+        const body = `text\n${'x'.repeat(MAX_BULK_BODY_BYTES)}\n`;
+        expect((await call('/ingest/bulk', { as: TRIAGER, body, headers: { 'Content-Type': 'text/csv' } })).status).toBe(413);
+    });
+
+    it('rejects unknown formats and empty uploads', async () => {
+        expect((await call('/ingest/bulk', { body: 'a', headers: { 'Content-Type': 'text/plain' } })).status).toBe(415);
+        expect((await call('/ingest/bulk?format=ndjson', { body: '\n', headers: { 'Content-Type': 'text/plain' } })).status).toBe(400);
+    });
+
+    it('returns 404 for unknown jobs', async () => {
+        expect((await call('/ingest/jobs?id=missing', { as: TRIAGER })).status).toBe(404);
+        expect((await call('/ingest/jobs', { as: TRIAGER })).status).toBe(400);
+    });
+});
@@ -0,0 +1,117 @@
+import { createExecutionContext, createScheduledController, env, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import worker from '../src/index';
+import { mergeScoringPolicy } from '../src/policy';
+import { ageInHours, clusterGravity, computeGravity, DEFAULT_POLICY, heatFor, ScoringPolicy } from '../src/scoring';
+import { seedIssue } from './helpers';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3600 * 1000).toISOString();
+
+describe('ageInHours', () => {
+    it('floors fresh, future-dated and missing timestamps at one hour', () => {
+        expect(ageInHours(NOW.toISOString(), NOW)).toBe(1);
+        expect(ageInHours(hoursAgo(-48), NOW)).toBe(1);
+        expect(ageInHours(null, NOW)).toBe(1);
+        expect(ageInHours('not a date', NOW)).toBe(1);
+    });
+
+    it('counts whole hours', () => {
+        expect(ageInHours(hoursAgo(5.9), NOW)).toBe(5);
+    });
+});
+
+describe('computeGravity', () => {
+    it('scores |sentiment| * 10 over age, doubled for negative bugs', () => {
+        expect(computeGravity({ sentiment: -0.5, category: 'Bug', created_at: hoursAgo(2) }, NOW)).toBe(5);
+        expect(computeGravity({ sentiment: -0.5, category: 'UX', created_at: hoursAgo(2) }, NOW)).toBe(2.5);
+    });
+
+    it('does not amplify future-dated feedback beyond a fresh report', () => {
+        const fresh = computeGravity({ sentiment: -0.8, category: 'UX', created_at: NOW.toISOString() }, NOW);
+        const future = computeGravity({ sentiment: -0.8, category: 'UX', created_at: hoursAgo(-1000) }, NOW);
+        expect(future).toBe(fresh);
+        expect(future).toBe(8);
+    });
+
+    it('gives zero sentiment and non-numeric sentiment no pull', () => {
+        expect(computeGravity({ sentiment: 0, category: 'Bug', created_at: hoursAgo(1) }, NOW)).toBe(0);
+        expect(computeGravity({ sentiment: NaN, category: 'Bug', created_at: hoursAgo(1) }, NOW)).toBe(0);
+        expect(computeGravity({ sentiment: 'abc' as unknown as number, category: 'Bug' }, NOW)).toBe(0);
+    });
+
+    it('only weights negative feedback by category', () => {
+        expect(computeGravity({ sentiment: 0.5, category: 'Bug', created_at: hoursAgo(1) }, NOW)).toBe(5);
+    });
+
+    it('never exceeds the cap', () => {
+        expect(computeGravity({ sentiment: -1, category: 'Bug', created_at: NOW.toISOString() }, NOW)).toBe(20);
+        const policy: ScoringPolicy = { ...DEFAULT_POLICY, categoryWeights: { Bug: 10 } };
+        expect(computeGravity({ sentiment: -1, category: 'Bug', created_at: NOW.toISOString() }, NOW, policy)).toBe(policy.cap);
+        expect(computeGravity({ sentiment: -1, category: 'Bug' }, NOW, { ...policy, cap: 12.5 })).toBe(12.5);
+    });
+
+    it('applies source weights and half-life decay from the policy', () => {
+        const policy: ScoringPolicy = { ...DEFAULT_POLICY, sourceWeights: { enterprise: 1.5 }, halfLifeHours: 24 };
+        expect(computeGravity({ sentiment: -0.4, category: 'UX', source: 'enterprise', created_at: hoursAgo(1) }, NOW, policy)).toBe(6);
+        expect(computeGravity({ sentiment: -0.4, category: 'UX', source: 'twitter', created_at: hoursAgo(25) }, NOW, policy)).toBe(2);
+    });
+
+    it('rounds to two decimals', () => {
+        expect(computeGravity({ sentiment: -0.7, category: 'UX', created_at: hoursAgo(3) }, NOW)).toBe(2.33);
+    });
+});
+
+describe('clusterGravity', () => {
+    it('boosts the strongest report logarithmically by volume', () => {
+        expect(clusterGravity(4, 1)).toBe(4);
+        expect(clusterGravity(4, 2)).toBe(8);
+        expect(clusterGravity(4, 4)).toBe(12);
+        expect(clusterGravity(4, 0)).toBe(4);
+    });
+
+    it('is capped like report gravity', () => {
+        expect(clusterGravity(40, 8)).toBe(DEFAULT_POLICY.cap);
+    });
+});
+
+describe('heatFor', () => {
+    it('bands scores at the policy thresholds', () => {
+        expect(heatFor(6)).toBe('High');
+        expect(heatFor(5.99)).toBe('Medium');
+        expect(heatFor(3)).toBe('Medium');
+        expect(heatFor(2.99)).toBe('Low');
+        expect(heatFor(2.99, { ...DEFAULT_POLICY, heatBands: { high: 10, medium: 2 } })).toBe('Medium');
+    });
+});
+
+describe('mergeScoringPolicy', () => {
+    it('merges valid fields over the current policy', () => {
+        const merged = mergeScoringPolicy(DEFAULT_POLICY, { cap: 30, halfLifeHours: null });
+        expect(merged).toEqual({ policy: { ...DEFAULT_POLICY, cap: 30 } });
+    });
+
+    it('reports every invalid field', () => {
+        const merged = mergeScoringPolicy(DEFAULT_POLICY, { cap: 0, heatBands: { high: 1, medium: 2 }, sourceWeights: { twitter: -1 } });
+        expect('errors' in merged && merged.errors.map(e => e.field)).toEqual(['sourceWeights', 'cap', 'heatBands']);
+    });
+});
+
+describe('scheduled rescore', () => {
+    it('wakes expired snoozes and decays gravity with real age', async () => {
+        const { issueId: snoozed } = await seedIssue({ created_at: hoursAgo(10), sentiment: -0.5, category: 'UX' }, { status: 'snoozed' });
+        await env.FEEDBACK_DB.prepare(`UPDATE issues SET snoozed_until = ? WHERE id = ?`).bind(hoursAgo(1), snoozed).run();
+        const { feedbackId, issueId } = await seedIssue({ created_at: hoursAgo(10), sentiment: -0.5, category: 'Bug', gravity_score: 10 });
+
+        const ctx = createExecutionContext();
+        await worker.scheduled(createScheduledController({ scheduledTime: NOW, cron: '0 * * * *' }), env, ctx);
+        await waitOnExecutionContext(ctx);
+
+        const woken = await env.FEEDBACK_DB.prepare(`SELECT status, snoozed_until FROM issues WHERE id = ?`).bind(snoozed).first();
+        expect(woken).toEqual({ status: 'open', snoozed_until: null });
+        const report = await env.FEEDBACK_DB.prepare(`SELECT gravity_score FROM feedback WHERE id = ?`).bind(feedbackId).first<{ gravity_score: number }>();
+        expect(report!.gravity_score).toBe(1);
+        const issue = await env.FEEDBACK_DB.prepare(`SELECT gravity_score FROM issues WHERE id = ?`).bind(issueId).first<{ gravity_score: number }>();
+        expect(issue!.gravity_score).toBe(1);
+    });
+});
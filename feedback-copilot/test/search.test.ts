@@ -0,0 +1,52 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { parseSearchTerms, searchFeedback, snippetSegments } from '../src/search';
+import { seedFeedback } from './helpers';
+
+describe('parseSearchTerms', () => {
+    it('keeps quoted phrases together and splits the rest on whitespace', () => {
+        expect(parseSearchTerms(`  checkout "dark mode"  export* "unterminated phrase`)).toEqual(['checkout', 'dark mode', 'export*', 'unterminated phrase']);
+        expect(parseSearchTerms(`"" "  " `)).toEqual([]);
+    });
+});
+
+describe('snippetSegments', () => {
+    it('splits marked matches into segments', () => {
+        expect(snippetSegments('…the \u0002login\u0003 page \u0002crashed\u0003')).toEqual([
+            { text: '…the ', match: false }, { text: 'login', match: true }, { text: ' page ', match: false }, { text: 'crashed', match: true },
+        ]);
+        expect(snippetSegments(null)).toEqual([]);
+    });
+});
+
+describe('searchFeedback', () => {
+    it('ranks matches in every state and highlights them', async () => {
+        const open = await seedFeedback({ content: 'Login page crashes on Safari', gravity_score: 2 });
+        const resolved = await seedFeedback({ content: 'Login crashed after the update', gravity_score: 30, status: 'resolved' });
+        await seedFeedback({ content: 'Checkout is slow' });
+        await seedFeedback({ content: 'Login crashed but the row failed enrichment', enrichment_status: 'failed' });
+
+        const results = (await searchFeedback(env.FEEDBACK_DB, 'login crash'))!;
+        expect(results.map(r => r.id)).toEqual([resolved, open]);
+        expect(results[1]).toMatchObject({
+            status: 'open', category: 'Bug',
+            snippet: [{ text: 'Login', match: true }, { text: ' page ', match: false }, { text: 'crashes', match: true }, { text: ' on Safari', match: false }],
+        });
+        expect(results[0].relevance).toBeGreaterThan(results[1].relevance);
+    });
+
+    it('applies filters, which are checked like planner output', async () => {
+        const bug = await seedFeedback({ content: 'Export fails', category: 'Bug', source: 'github' });
+        await seedFeedback({ content: 'Export to PDF please', category: 'Feature', source: 'support' });
+        await seedFeedback({ content: 'Export is gone', category: 'Bug', status: 'resolved' });
+
+        expect((await searchFeedback(env.FEEDBACK_DB, 'export', { category: ['bug'], status: ['open', 'not-a-state'] }))!.map(r => r.id)).toEqual([bug]);
+        expect((await searchFeedback(env.FEEDBACK_DB, 'export', { source: ['github'] }))!.map(r => r.id)).toEqual([bug]);
+        expect(await searchFeedback(env.FEEDBACK_DB, 'export', { limit: 1 })).toHaveLength(1);
+    });
+
+    it('returns null when nothing in the query can be searched', async () => {
+        expect(await searchFeedback(env.FEEDBACK_DB, '')).toBeNull();
+        expect(await searchFeedback(env.FEEDBACK_DB, '%% "" ***')).toBeNull();
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml } from '../src/html';
+import { call, feedbackRows, settleWorkflows, TRIAGER, VIEWER } from './helpers';
+
+// Each payload also contains "crash" so enrichment files it as a bug and it lands on the board
+const PAYLOADS = [
+    '<script>alert(1)</script> crash on login',
+    '"><img src=x onerror=alert(2)> crash in editor',
+    "' onmouseover='alert(3)' data-x=' crash when saving",
+    '</div><svg onload=alert(4)> crash on export',
+    'javascript:alert(5) crash &amp; burn',
+];
+
+async function ingestPayloads() {
+    await settleWorkflows(async () => {
+        for (const text of PAYLOADS) {
+            const res = await call('/ingest', { as: TRIAGER, body: { text, source: 'support' } });
+            expect(res.status).toBe(200);
+            await res.text();
+        }
+    });
+}
+
+describe('stored XSS', () => {
+    for (const path of ['/app', '/dashboard']) {
+        it(`escapes ingested feedback on ${path}`, async () => {
+            await ingestPayloads();
+            const res = await call(path, { as: VIEWER });
+            const body = await res.text();
+
+            for (const payload of PAYLOADS) {
+                expect(body).not.toContain(payload);
+                expect(body).toContain(escapeHtml(payload));
+            }
+            // The only script elements are the page's own, and all carry the nonce
+            const nonce = res.headers.get('Content-Security-Policy')!.match(/'nonce-([^']+)'/)![1];
+            const scripts = body.match(/<script\b[^>]*>/g)!;
+            expect(scripts.length).toBeGreaterThan(0);
+            for (const tag of scripts) expect(tag).toContain(`nonce="${nonce}"`);
+            expect(body).not.toMatch(/<(img|svg)\b[^>]*\bon\w+=/i);
+        });
+    }
+
+    it('returns feedback unmodified from JSON routes, which browsers do not render', async () => {
+        await ingestPayloads();
+        const [row] = await feedbackRows();
+        const res = await call(`/issue?id=${row.id}`, { as: VIEWER });
+        expect(res.headers.get('Content-Type')).toBe('application/json');
+        expect(PAYLOADS).toContain((await res.json<any>()).content);
+    });
+});
+
+describe('security headers', () => {
+    it('sends a per-response nonce and locks down framing and sniffing', async () => {
+        const first = await call('/dashboard', { as: VIEWER });
+        const second = await call('/dashboard', { as: VIEWER });
+        await first.text();
+        await second.text();
+
+        const csp = first.headers.get('Content-Security-Policy')!;
+        expect(csp).toMatch(/script-src 'nonce-[A-Za-z0-9+/=]{24}' https:\/\/cdn\.tailwindcss\.com/);
+        expect(csp).toContain(`object-src 'none'`);
+        expect(csp).toContain(`frame-ancestors 'none'`);
+        expect(csp).not.toBe(second.headers.get('Content-Security-Policy'));
+        expect(first.headers.get('X-Content-Type-Options')).toBe('nosniff');
+        expect(first.headers.get('X-Frame-Options')).toBe('DENY');
+    });
+});
@@ -0,0 +1,4 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+// Runs before each test file; every test then starts from this empty schema
+await applyD1Migrations(env.FEEDBACK_DB, env.TEST_SCHEMA);
@@ -0,0 +1,127 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { createLLM, createMockProvider } from '../src/llm';
+import { checkOutput, generateStructured, jsonObjects, OutputSchema, parseOutput, toJsonSchema } from '../src/structured';
+
+const SCHEMA: OutputSchema = {
+    sentiment: { type: 'number', required: true, min: -1, max: 1 },
+    score: { type: 'number', min: 0, max: 10, clamp: true },
+    category: { type: 'string', required: true, oneOf: ['Bug', 'UX'] },
+    note: { type: 'string', maxLength: 5, truncate: true },
+    tags: { type: 'array', items: { type: 'string' } },
+    meta: { type: 'object', fields: { urgent: { type: 'boolean', required: true } } },
+};
+
+const metric = (task: string) =>
+    env.FEEDBACK_DB.prepare(`SELECT ok, repaired, failed, last_error FROM ai_output_metrics WHERE task = ?`).bind(task).first();
+
+describe('jsonObjects', () => {
+    it('finds every top-level object through fences, prose and braces inside strings', () => {
+        const reply = 'Sure! ```json\n{"a": "curly } brace", "b": {"c": 1}}\n``` and also {"d": "\\"quoted\\""}';
+        expect(jsonObjects(reply)).toEqual([{ a: 'curly } brace', b: { c: 1 } }, { d: '"quoted"' }]);
+    });
+
+    it('skips brace-delimited prose and stops at unterminated objects', () => {
+        expect(jsonObjects('use {placeholders} like {"ok": true} then {"cut": ')).toEqual([{ ok: true }]);
+        expect(jsonObjects('no json here')).toEqual([]);
+        expect(jsonObjects(undefined as unknown as string)).toEqual([]);
+    });
+});
+
+describe('checkOutput', () => {
+    it('normalizes valid replies and keeps undeclared keys', () => {
+        const checked = checkOutput({ sentiment: '-0.5', score: 42, category: 'bug', note: 'much too long', tags: ['a'], meta: { urgent: false }, extra: 1 }, SCHEMA);
+        expect(checked).toEqual({ ok: true, value: { sentiment: -0.5, score: 10, category: 'Bug', note: 'much ', tags: ['a'], meta: { urgent: false }, extra: 1 } });
+    });
+
+    it('reports every problem with its path', () => {
+        const checked = checkOutput({ sentiment: 3, category: 'Feature', tags: [1, {}], meta: { urgent: 'yes' } }, SCHEMA);
+        expect(checked).toEqual({
+            ok: false,
+            errors: [
+                'sentiment must be between -1 and 1',
+                'category must be one of Bug, UX',
+                'tags[1] must be a string',
+                'meta.urgent must be true or false',
+            ]
+        });
+        expect(checkOutput({ category: 'UX' }, SCHEMA)).toEqual({ ok: false, errors: ['sentiment is required'] });
+        expect(checkOutput([], SCHEMA)).toEqual({ ok: false, errors: ['reply must be a JSON object'] });
+    });
+});
+
+describe('parseOutput', () => {
+    it('returns the first object that passes, otherwise the first failure', () => {
+        expect(parseOutput('{"draft": true} {"sentiment": 0, "category": "UX"}', SCHEMA)).toEqual({ ok: true, value: { sentiment: 0, category: 'UX' } });
+        expect(parseOutput('{"sentiment": 2, "category": "UX"} {"category": "Bug"}', SCHEMA))
+            .toEqual({ ok: false, errors: ['sentiment must be between -1 and 1'] });
+        expect(parseOutput('I cannot help with that.', SCHEMA)).toEqual({ ok: false, errors: ['No JSON object found in response'] });
+    });
+});
+
+describe('toJsonSchema', () => {
+    it('mirrors the schema, leaving out limits that are fixed up afterwards', () => {
+        expect(toJsonSchema(SCHEMA)).toEqual({
+            type: 'object',
+            properties: {
+                sentiment: { type: 'number', minimum: -1, maximum: 1 },
+                score: { type: 'number' },
+                category: { type: 'string', enum: ['Bug', 'UX'] },
+                note: { type: 'string' },
+                tags: { type: 'array', items: { type: 'string' } },
+                meta: { type: 'object', properties: { urgent: { type: 'boolean' } }, required: ['urgent'] },
+            },
+            required: ['sentiment', 'category'],
+        });
+    });
+});
+
+describe('generateStructured', () => {
+    const messages = [{ role: 'user' as const, content: 'classify' }];
+
+    it('accepts a valid first reply', async () => {
+        const provider = createMockProvider([{ text: '{"sentiment": -0.2, "category": "UX"}' }]);
+        const result = await generateStructured(createLLM(provider), env.FEEDBACK_DB, { task: 'test_ok', aiTask: 'enrichment', messages, schema: SCHEMA });
+
+        expect(result).toEqual({ ok: true, value: { sentiment: -0.2, category: 'UX' }, attempts: 1, repaired: false });
+        expect(provider.calls[0].request.jsonSchema).toEqual(toJsonSchema(SCHEMA));
+        expect(await metric('test_ok')).toEqual({ ok: 1, repaired: 0, failed: 0, last_error: null });
+    });
+
+    it('sends validation errors back and accepts a repaired reply', async () => {
+        const provider = createMockProvider([
+            { match: 'could not be used', text: '{"sentiment": -0.2, "category": "Bug"}' },
+            { text: '{"sentiment": -0.2, "category": "Crash"}' },
+        ]);
+        const result = await generateStructured(createLLM(provider), env.FEEDBACK_DB, { task: 'test_repair', aiTask: 'enrichment', messages, schema: SCHEMA });
+
+        expect(result).toMatchObject({ ok: true, attempts: 2, repaired: true });
+        const retry = provider.calls[1].request.messages;
+        expect(retry.at(-2)).toEqual({ role: 'assistant', content: '{"sentiment": -0.2, "category": "Crash"}' });
+        expect(retry.at(-1)!.content).toContain('- category must be one of Bug, UX');
+        expect(await metric('test_repair')).toMatchObject({ ok: 0, repaired: 1, failed: 0 });
+    });
+
+    it('gives up after the repair budget and records the errors', async () => {
+        const provider = createMockProvider([{ text: 'no idea' }]);
+        const result = await generateStructured(createLLM(provider), env.FEEDBACK_DB, { task: 'test_fail', aiTask: 'enrichment', messages, schema: SCHEMA, repairs: 2 });
+
+        expect(result).toEqual({ ok: false, errors: ['No JSON object found in response'], attempts: 3, raw: 'no idea' });
+        expect(provider.calls).toHaveLength(3);
+        expect(await metric('test_fail')).toEqual({ ok: 0, repaired: 0, failed: 1, last_error: 'No JSON object found in response' });
+    });
+
+    it('streams the first attempt only', async () => {
+        const provider = createMockProvider([
+            { match: 'could not be used', text: '{"sentiment": 0, "category": "UX"}' },
+            { text: 'Here you go: {"sentiment": 5, "category": "UX"}' },
+        ]);
+        const tokens: string[] = [];
+        const result = await generateStructured(createLLM(provider), env.FEEDBACK_DB, {
+            task: 'test_stream', aiTask: 'answering', messages, schema: SCHEMA, onToken: t => { tokens.push(t); }
+        });
+
+        expect(result).toMatchObject({ ok: true, repaired: true });
+        expect(tokens.join('')).toBe('Here you go: {"sentiment": 5, "category": "UX"}');
+    });
+});
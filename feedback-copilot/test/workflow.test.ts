@@ -0,0 +1,156 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { contentHash, ingestInstanceId, startIngestWorkflow } from '../src/dedupe';
+import { ENRICHMENT_PROMPT_VERSION } from '../src/enrichment';
+import { createSubscription } from '../src/notifications';
+import { feedbackRows, runWorkflow, seedFeedback } from './helpers';
+
+const issue = (id: string) => env.FEEDBACK_DB.prepare(`SELECT * FROM issues WHERE id = ?`).bind(id).first<any>();
+
+beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+describe('FeedbackWorkflow', () => {
+    it('enriches, scores and opens an issue for new feedback', async () => {
+        await runWorkflow({ source: 'support', content: 'The app crashes on login every morning', created_at: new Date().toISOString() });
+
+        const [row] = await feedbackRows();
+        expect(row).toMatchObject({
+            source: 'support', category: 'Bug', sentiment: -0.7, gravity_score: 14, status: 'open', enrichment_status: 'ok',
+            enrichment_model: 'mock/enrichment', enrichment_prompt_version: ENRICHMENT_PROMPT_VERSION,
+        });
+        expect(await issue(row.issue_id!)).toMatchObject({ lead_feedback_id: row.id, category: 'Bug', status: 'open', report_count: 1, gravity_score: 14 });
+    });
+
+    it('records which model embedded each report for semantic retrieval', async () => {
+        await runWorkflow({ source: 'support', content: 'Photo upload fails on android' });
+
+        const [row] = await feedbackRows();
+        expect(row).toMatchObject({ embedding_model: 'hash-256', embedded_at: expect.any(String) });
+    });
+
+    it('clusters similar reports into one issue and boosts its gravity', async () => {
+        await runWorkflow({ source: 'support', content: 'The app crashes on login every morning' });
+        await runWorkflow({ source: 'github', content: 'The app crashes on login every evening' });
+
+        const rows = await feedbackRows();
+        expect(rows).toHaveLength(2);
+        expect(rows[1].issue_id).toBe(rows[0].issue_id);
+        expect(await issue(rows[0].issue_id!)).toMatchObject({ report_count: 2, gravity_score: 28 });
+    });
+
+    it('keeps unrelated reports in separate issues', async () => {
+        await runWorkflow({ source: 'support', content: 'The app crashes on login every morning' });
+        await runWorkflow({ source: 'support', content: 'Please add dark mode to the reports page' });
+
+        const rows = await feedbackRows();
+        expect(new Set(rows.map(r => r.issue_id)).size).toBe(2);
+    });
+
+    it('counts a same-source repeat instead of storing it again', async () => {
+        await runWorkflow({ source: 'support', content: 'Checkout is broken!' });
+        await runWorkflow({ source: 'support', content: 'checkout is   BROKEN' });
+
+        const rows = await env.FEEDBACK_DB.prepare(`SELECT repeat_count FROM feedback`).all();
+        expect(rows.results).toEqual([{ repeat_count: 1 }]);
+    });
+
+    it('re-enriches a failed row when the same text is sent again', async () => {
+        const id = await seedFeedback({ content: 'Checkout is broken!', sentiment: null, category: null, gravity_score: null, enrichment_status: 'failed' });
+        await env.FEEDBACK_DB.prepare(`UPDATE feedback SET content_hash = ?, last_seen_at = ? WHERE id = ?`)
+            .bind(await contentHash('Checkout is broken!'), new Date().toISOString(), id).run();
+
+        await runWorkflow({ source: 'support', content: 'checkout is   BROKEN' });
+
+        const rows = await feedbackRows();
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({ id, enrichment_status: 'ok', category: 'Bug' });
+        expect((rows[0] as any).repeat_count).toBe(0);
+    });
+
+    it('updates an edited upstream item in place', async () => {
+        await runWorkflow({ source: 'github', content: 'Export is broken', external_id: 'issue:1' });
+        const [before] = await feedbackRows();
+        await runWorkflow({ source: 'github', content: 'Export is broken for CSV files with more than 1000 rows', external_id: 'issue:1' });
+
+        const rows = await feedbackRows();
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({ id: before.id, issue_id: before.issue_id, content: 'Export is broken for CSV files with more than 1000 rows' });
+    });
+
+    it('stores unusable model output as failed without an analysis or issue', async () => {
+        await runWorkflow({ source: 'support', content: 'Something odd happened [unparseable]' });
+
+        const [row] = await feedbackRows();
+        expect(row).toMatchObject({ enrichment_status: 'failed', sentiment: null, category: null, gravity_score: null, issue_id: null });
+        expect((row as any).enrichment_error).toMatch(/No JSON object/);
+        const metric = await env.FEEDBACK_DB.prepare(`SELECT ok, repaired, failed FROM ai_output_metrics WHERE task = 'enrichment'`).first();
+        expect(metric).toEqual({ ok: 0, repaired: 0, failed: 1 });
+    });
+
+    it('reprocesses a stored row in place without alerting', async () => {
+        await createSubscription(env.FEEDBACK_DB, { kind: 'slack', url: 'https://hooks.example.com/slack', new_bug_cluster: true }, 'admin@example.com');
+        const id = await seedFeedback({ content: 'Payments fail at checkout', sentiment: null, category: null, gravity_score: null, enrichment_status: 'failed' });
+
+        await runWorkflow({ source: 'support', content: 'Payments fail at checkout', reprocess_id: id });
+
+        const [row] = await feedbackRows();
+        expect(row).toMatchObject({ id, enrichment_status: 'ok', category: 'Bug' });
+        expect(row.issue_id).not.toBeNull();
+        const deliveries = await env.FEEDBACK_DB.prepare(`SELECT COUNT(*) AS n FROM notification_deliveries`).first<{ n: number }>();
+        expect(deliveries!.n).toBe(0);
+    });
+
+    it('keeps an enriched row and its analysis when reprocessing fails', async () => {
+        const id = await seedFeedback({ content: 'Payments fail at checkout [unparseable]', category: 'Bug', sentiment: -0.6, gravity_score: 7 });
+
+        await runWorkflow({ source: 'support', content: 'Payments fail at checkout [unparseable]', reprocess_id: id });
+
+        const [row] = await feedbackRows();
+        expect(row).toMatchObject({ id, enrichment_status: 'ok', category: 'Bug', sentiment: -0.6, gravity_score: 7, enrichment_failed_at: expect.any(String) });
+        expect((row as any).enrichment_error).toMatch(/No JSON object/);
+    });
+
+    it('sends alerts for subscriptions whose triggers fire', async () => {
+        const subscription = await createSubscription(env.FEEDBACK_DB, { kind: 'webhook', url: 'https://hooks.example.com/alerts', new_bug_cluster: true }, 'admin@example.com');
+        await createSubscription(env.FEEDBACK_DB, { kind: 'slack', url: 'https://hooks.example.com/ux', new_bug_cluster: true, category: 'UX' }, 'admin@example.com');
+        fetchMock.get('https://hooks.example.com').intercept({ path: '/alerts', method: 'POST' }).reply(200, 'ok');
+
+        await runWorkflow({ source: 'support', content: 'Search crashes with an error' });
+
+        const { results } = await env.FEEDBACK_DB.prepare(`SELECT subscription_id, trigger, status, attempts FROM notification_deliveries`).all();
+        expect(results).toEqual([{ subscription_id: subscription.id, trigger: 'new_bug_cluster', status: 'delivered', attempts: 1 }]);
+    });
+});
+
+describe('startIngestWorkflow', () => {
+    // Deployed Workflows reject an id that already exists; the local engine does not, so this fakes the binding
+    const fakeWorkflow = (ids: Set<string>) => ({
+        async create({ id }: { id: string }) {
+            if (ids.has(id)) throw new Error('instance already exists');
+            ids.add(id);
+            return { id };
+        },
+        async get(id: string) {
+            if (!ids.has(id)) throw new Error('not found');
+            return { id };
+        },
+    }) as unknown as Workflow;
+
+    it('reports a second start with the same key as a duplicate', async () => {
+        const workflow = fakeWorkflow(new Set());
+        const params = { source: 'zendesk', content: 'Export fails' };
+        const first = await startIngestWorkflow(workflow, params, 'external:T-1');
+        expect(first).toEqual({ instanceId: await ingestInstanceId('zendesk', 'external:T-1'), duplicate: false });
+        expect(await startIngestWorkflow(workflow, params, 'external:T-1')).toEqual({ instanceId: first.instanceId, duplicate: true });
+    });
+
+    it('rethrows create errors for instances that do not exist', async () => {
+        const workflow = { create: async () => { throw new Error('quota exceeded'); }, get: async () => { throw new Error('not found'); } } as unknown as Workflow;
+        await expect(startIngestWorkflow(workflow, { source: 'api', content: 'x' }, 'key:1')).rejects.toThrow('quota exceeded');
+    });
+});
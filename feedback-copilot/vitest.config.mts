@@ -0,0 +1,49 @@
+import { readFileSync } from 'node:fs';
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+// schema.sql is the full schema (the migrations only alter it), so tests load it as one migration.
+// Statements end with ; at the end of a line, except inside trigger bodies, which run until END;
+const schema = readFileSync(new URL('./schema.sql', import.meta.url), 'utf8')
+    .split(/;\s*$/m)
+    .map(statement => statement.trim())
+    .filter(Boolean)
+    .reduce<string[]>((statements, part) => {
+        const last = statements.at(-1);
+        if (last && /\bCREATE TRIGGER\b/i.test(last) && !/\bEND$/i.test(last)) statements[statements.length - 1] = `${last};\n${part}`;
+        else statements.push(part);
+        return statements;
+    }, []);
+
+export default defineWorkersConfig({
+    test: {
+        setupFiles: ['./test/setup.ts'],
+        poolOptions: {
+            workers: {
+                singleWorker: true,
+                // AI and Vectorize are remote-only; tests use the mock provider and in-memory index instead
+                remoteBindings: false,
+                wrangler: { configPath: './wrangler.toml' },
+                miniflare: {
+                    // No network in tests: deterministic mock model and the in-memory vector index
+                    bindings: {
+                        AI_PROVIDER: 'mock',
+                        VECTOR_BACKEND: 'memory',
+                        DEFAULT_ROLE: 'viewer',
+                        ROLE_ASSIGNMENTS: JSON.stringify({ 'admin@example.com': 'admin', 'triager@example.com': 'triager' }),
+                        INGEST_API_KEYS: JSON.stringify({ zendesk: 'test-zendesk-key' }),
+                        CONNECTOR_SECRETS: JSON.stringify({
+                            zendesk: 'test-zendesk-secret', intercom: 'test-intercom-secret', github: 'test-github-secret', appstore: 'test-appstore-secret'
+                        }),
+                        // Feedback containing these markers gets a reply the enrichment schema rejects
+                        AI_MOCK_FIXTURES: JSON.stringify([
+                            { model: 'enrichment', match: '[unparseable]', text: 'Sorry, I cannot classify that.' },
+                            { model: 'enrichment', match: '[out of range]', text: '{"sentiment": 7, "category": "Bug", "explanation": "x"}' },
+                        ]),
+                        DEMO_MODE: 'true',
+                        TEST_SCHEMA: [{ name: 'schema.sql', queries: schema }],
+                    },
+                },
+            },
+        },
+    },
+});
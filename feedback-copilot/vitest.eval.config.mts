@@ -0,0 +1,36 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { mergeConfig } from 'vitest/config';
+import testConfig from './vitest.config.mts';
+
+// Scores real models, so this runs on demand (npm run eval) rather than with the unit tests.
+// AI_PROVIDER, AI_MODELS and OPENAI_* are read from the shell; the default is the offline mock.
+const provider = process.env.AI_PROVIDER || 'mock';
+const baselineName = process.env.EVAL_BASELINE || provider;
+const baselinePath = new URL(`./eval/baselines/${baselineName}.json`, import.meta.url);
+
+export default mergeConfig(testConfig, defineWorkersConfig({
+    test: {
+        include: ['eval/**/*.eval.ts'],
+        testTimeout: 30 * 60 * 1000,
+        poolOptions: {
+            workers: {
+                // Workers AI needs `npx wrangler login`; the other providers never touch the AI binding
+                remoteBindings: provider === 'workers-ai',
+                miniflare: {
+                    bindings: {
+                        AI_PROVIDER: provider,
+                        AI_MODELS: process.env.AI_MODELS || '',
+                        OPENAI_BASE_URL: process.env.OPENAI_BASE_URL || '',
+                        OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
+                        AI_MOCK_FIXTURES: '[]',
+                        EVAL_BASELINE_NAME: baselineName,
+                        EVAL_BASELINE: existsSync(baselinePath) ? readFileSync(baselinePath, 'utf8') : '',
+                        EVAL_TOLERANCE: process.env.EVAL_TOLERANCE || '0',
+                        EVAL_UPDATE_BASELINE: String(process.argv.includes('-u') || process.argv.includes('--update')),
+                    },
+                },
+            },
+        },
+    },
+}));
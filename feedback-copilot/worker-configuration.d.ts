@@ -2,4 +2,23 @@ interface Env {
     FEEDBACK_DB: D1Database;
     AI: Ai;
     INGEST_WORKFLOW: Workflow;
+    FEEDBACK_INDEX?: Vectorize;
+    REPORT_INDEX?: Vectorize;
+    VECTOR_BACKEND?: string;
+    AI_PROVIDER?: string;
+    AI_MODELS?: string;
+    AI_MOCK_FIXTURES?: string;
+    OPENAI_BASE_URL?: string;
+    OPENAI_API_KEY?: string;
+    CHAT_CONTEXT_TOKENS?: string;
+    DEFAULT_ROLE?: string;
+    ROLE_ASSIGNMENTS?: string;
+    ACCESS_JWKS_URL?: string;
+    ACCESS_JWKS?: string;
+    ACCESS_AUD?: string;
+    ACCESS_ISSUER?: string;
+    INGEST_API_KEYS?: string;
+    DEMO_MODE?: string;
+    CONNECTOR_SECRETS?: string;
+    PUBLIC_URL?: string;
 }